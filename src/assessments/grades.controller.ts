@@ -1,4 +1,6 @@
 import { Body, Controller, Delete, Get, Param, Patch, Post, Query } from '@nestjs/common';
+import { AsyncRoute } from '../common/decorators';
+import { RoutePayload } from '../common/messaging/utils/route-payload.util';
 import { GradesService } from './grades.service';
 import { CreateGradeDto, ListGradesDto, UpdateGradeDto } from './dto';
 
@@ -6,26 +8,33 @@ import { CreateGradeDto, ListGradesDto, UpdateGradeDto } from './dto';
 export class GradesController {
   constructor(private readonly gradesService: GradesService) {}
 
+  @AsyncRoute('grades.create')
   @Post()
   create(@Body() createGradeDto: CreateGradeDto) {
     return this.gradesService.create(createGradeDto);
   }
 
+  @AsyncRoute('grades.list')
   @Get()
   findAll(@Query() listGradesDto: ListGradesDto) {
     return this.gradesService.findAll(listGradesDto);
   }
 
+  @AsyncRoute('grades.findOne', { payload: RoutePayload.param('id') })
   @Get(':id')
   findOne(@Param('id') id: string) {
     return this.gradesService.findOne(id);
   }
 
+  @AsyncRoute('grades.update', {
+    payload: RoutePayload.paramWithBody('id', 'updateGradeDto'),
+  })
   @Patch(':id')
   update(@Param('id') id: string, @Body() updateGradeDto: UpdateGradeDto) {
     return this.gradesService.update(id, updateGradeDto);
   }
 
+  @AsyncRoute('grades.remove', { payload: RoutePayload.param('id') })
   @Delete(':id')
   remove(@Param('id') id: string) {
     return this.gradesService.remove(id);
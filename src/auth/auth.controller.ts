@@ -9,27 +9,47 @@ import {
 } from './dto';
 import { Auth, GetUser } from './decorators';
 import { ValidRoles, JwtPayload } from './interfaces';
+import { AsyncRoute, RateLimit, SkipAsyncRoute } from '../common/decorators';
+import { JobData } from '../common/interceptors/interfaces/job-data.interface';
+import {
+  RoutePayload,
+  requireAuthValidation,
+} from '../common/messaging/utils/route-payload.util';
+
+const logoutPayload = (job: JobData) => {
+  const validation = requireAuthValidation(job);
+  return {
+    jti: validation.user?.jti ?? validation.user?.tokenId,
+    exp: validation.user?.exp,
+  };
+};
 
 @Controller('auth')
 export class AuthController {
   constructor(private readonly authService: AuthService) {}
 
+  @AsyncRoute('auth.register')
   @Post('register')
   register(@Body() createUserDto: CreateUserDto) {
     return this.authService.register(createUserDto);
   }
 
+  // Fuerza bruta: intentos por IP, cuenten o no con un token
+  @RateLimit({ limit: 10, windowSeconds: 300, by: 'ip' })
+  @AsyncRoute('auth.login')
   @Post('login')
   login(@Body() loginUserDto: LoginUserDto) {
     return this.authService.login(loginUserDto);
   }
 
+  @AsyncRoute('auth.get-users', { payload: RoutePayload.empty() })
   @Get('users')
   @Auth(ValidRoles.ADMIN)
   findAllUsers() {
     return this.authService.findAllUsers();
   }
 
+  @SkipAsyncRoute()
   @Get('check-status')
   @Auth()
   checkStatus(@Req() request: Request) {
@@ -37,6 +57,9 @@ export class AuthController {
     return validation;
   }
 
+  @AsyncRoute('auth.update-user', {
+    payload: RoutePayload.userWithBody('updateUserDto'),
+  })
   @Patch('update-user')
   @Auth()
   updateUser(
@@ -46,6 +69,9 @@ export class AuthController {
     return this.authService.updateUser(userId, updateUserDto);
   }
 
+  @AsyncRoute('auth.change-password', {
+    payload: RoutePayload.userWithBody('changePasswordDto'),
+  })
   @Put('change-password')
   @Auth()
   changePassword(
@@ -55,6 +81,7 @@ export class AuthController {
     return this.authService.changePassword(userId, changePasswordDto);
   }
 
+  @AsyncRoute('auth.logout', { payload: logoutPayload })
   @Post('logout')
   @Auth()
   async logout(@Req() request: Request) {
@@ -63,6 +90,7 @@ export class AuthController {
     return { message: 'Logout successful' };
   }
 
+  @AsyncRoute('auth.logout-all', { payload: RoutePayload.user() })
   @Post('logout-all')
   @Auth()
   async logoutAll(@GetUser('id') userId: string) {
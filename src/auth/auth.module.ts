@@ -1,12 +1,15 @@
 import { Module } from '@nestjs/common';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
+import { SessionRevocationService } from './session-revocation.service';
 import { NatsModule } from '../transports/nats.module';
+import { RedisModule } from '../common/redis/redis.module';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 
 @Module({
-  imports: [NatsModule],
+  imports: [NatsModule, RedisModule],
   controllers: [AuthController],
-  providers: [AuthService, JwtAuthGuard],
+  providers: [AuthService, SessionRevocationService, JwtAuthGuard],
+  exports: [AuthService, SessionRevocationService, JwtAuthGuard],
 })
 export class AuthModule {}
\ No newline at end of file
@@ -9,6 +9,7 @@ import {
   UpdateUserDto,
 } from './dto';
 import type { JwtPayload } from './interfaces';
+import { SessionRevocationService } from './session-revocation.service';
 
 interface TokenValidationResponse {
   user: JwtPayload;
@@ -17,7 +18,10 @@ interface TokenValidationResponse {
 
 @Injectable()
 export class AuthService {
-  constructor(@Inject(NATS_SERVICE) private readonly client: ClientProxy) {}
+  constructor(
+    @Inject(NATS_SERVICE) private readonly client: ClientProxy,
+    private readonly sessionRevocation: SessionRevocationService,
+  ) {}
 
   register(createUserDto: CreateUserDto) {
     return firstValueFrom(this.client.send('auth.register', createUserDto));
@@ -49,21 +53,25 @@ export class AuthService {
     );
   }
 
-  logout(jti: string, exp: number) {
-    return firstValueFrom(
+  async logout(jti: string, exp: number) {
+    const result: unknown = await firstValueFrom(
       this.client.send('auth.logout', {
         jti,
         exp,
       }),
     );
+    await this.sessionRevocation.revoke({ jti });
+    return result;
   }
 
-  logoutAll(userId: string) {
-    return firstValueFrom(
+  async logoutAll(userId: string) {
+    const result: unknown = await firstValueFrom(
       this.client.send('auth.logout-all', {
         userId,
       }),
     );
+    await this.sessionRevocation.revoke({ userId });
+    return result;
   }
 
   validateToken(token: string): Promise<TokenValidationResponse> {
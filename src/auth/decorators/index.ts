@@ -1,4 +1,5 @@
 export { Auth } from './auth.decorator';
 export { GetUser } from './get-user.decorator';
 export { RoleProtected, ROLES_KEY } from './role-protected.decorator';
-export { RawHeaders } from './raw-headers.decorator';
\ No newline at end of file
+export { RawHeaders } from './raw-headers.decorator';
+export { AllowQueryToken, QUERY_TOKEN_KEY } from './query-token.decorator';
\ No newline at end of file
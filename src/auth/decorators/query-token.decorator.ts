@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const QUERY_TOKEN_KEY = 'queryToken';
+
+/**
+ * Also accepts the token as `?access_token=`, for clients that cannot send
+ * headers (EventSource). Only honored by routes protected with `@Auth()`
+ */
+export const AllowQueryToken = () => SetMetadata(QUERY_TOKEN_KEY, true);
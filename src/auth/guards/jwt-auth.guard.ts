@@ -9,6 +9,7 @@ import { Reflector } from '@nestjs/core';
 import type { Request } from 'express';
 import { AuthService } from '../auth.service';
 import { ROLES_KEY } from '../decorators/role-protected.decorator';
+import { QUERY_TOKEN_KEY } from '../decorators/query-token.decorator';
 import { ValidRoles } from '../interfaces';
 
 @Injectable()
@@ -20,23 +21,41 @@ export class JwtAuthGuard implements CanActivate {
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
     const request = context.switchToHttp().getRequest<Request>();
-    const token = this.extractTokenFromHeader(request);
+    const token =
+      this.extractTokenFromHeader(request) ??
+      (this.reflector.getAllAndOverride<boolean>(QUERY_TOKEN_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ])
+        ? this.takeTokenFromQuery(request)
+        : undefined);
 
     if (!token) {
       throw new UnauthorizedException('Token is missing');
     }
 
-    const validation = await this.authService.validateToken(token).catch(() => {
-      throw new UnauthorizedException('Token is invalid or expired');
-    });
+    // RateLimitGuard pudo validar ya el mismo token
+    const previous = request['authValidation'] as
+      | Awaited<ReturnType<AuthService['validateToken']>>
+      | undefined;
+    const validation =
+      previous?.token === token
+        ? previous
+        : await this.authService.validateToken(token).catch(() => {
+            throw new UnauthorizedException('Token is invalid or expired');
+          });
 
     const user = validation.user;
     request['user'] = user;
     request['token'] = token;
     request['authValidation'] = validation;
 
+    // Los roles del método prevalecen sobre los del controlador
     const requiredRoles =
-      this.reflector.get<ValidRoles[]>(ROLES_KEY, context.getHandler()) || [];
+      this.reflector.getAllAndOverride<ValidRoles[]>(ROLES_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]) || [];
 
     if (requiredRoles.length && !requiredRoles.includes(ValidRoles.ANY)) {
       const normalizedRequired = requiredRoles.map((role) => role.toUpperCase());
@@ -75,4 +94,23 @@ export class JwtAuthGuard implements CanActivate {
     const [type, token] = authHeader.split(' ');
     return type === 'Bearer' ? token : undefined;
   }
-}
\ No newline at end of file
+
+  /** Se quita de la URL para que el token no acabe en los logs */
+  private takeTokenFromQuery(request: Request): string | undefined {
+    const token = request.query['access_token'];
+    if (typeof token !== 'string' || !token) {
+      return undefined;
+    }
+
+    for (const field of ['url', 'originalUrl'] as const) {
+      const value = request[field];
+      const index = value.indexOf('?');
+      if (index < 0) continue;
+      const params = new URLSearchParams(value.substring(index + 1));
+      params.delete('access_token');
+      const query = params.toString();
+      request[field] = value.substring(0, index) + (query ? `?${query}` : '');
+    }
+    return token;
+  }
+}
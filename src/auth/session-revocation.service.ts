@@ -0,0 +1,100 @@
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { EventEmitter } from 'events';
+import Redis from 'ioredis';
+import type { JobData } from '../common/interceptors/interfaces/job-data.interface';
+
+/** Sessions closed by `logout` (one token) or `logout-all` (every token of a user) */
+export interface SessionRevocation {
+  jti?: string;
+  userId?: string;
+}
+
+interface PublishedRevocation {
+  instanceId: string;
+  revocation: SessionRevocation;
+}
+
+/**
+ * Anuncia a todas las réplicas los tokens revocados, para cerrar las
+ * conexiones de larga duración (sockets) que se autenticaron con ellos.
+ * Emite `revoked` con cada revocación, propia o de otra instancia
+ */
+@Injectable()
+export class SessionRevocationService
+  extends EventEmitter
+  implements OnModuleInit
+{
+  private readonly logger = new Logger(SessionRevocationService.name);
+  private readonly instanceId = `${process.pid}-${Math.random().toString(36).substring(2, 8)}`;
+  private readonly channel =
+    process.env.AUTH_REVOCATION_CHANNEL || 'auth:sessions:revoked';
+
+  constructor(
+    @Inject('REDIS_CLIENT') private readonly redis: Redis,
+    @Inject('REDIS_SUBSCRIBER') private readonly subscriber: Redis,
+  ) {
+    super();
+  }
+
+  async onModuleInit() {
+    try {
+      await this.subscriber.subscribe(this.channel);
+      this.subscriber.on('message', (channel, message) => {
+        // La conexión de suscripción es compartida: ignorar otros canales
+        if (channel !== this.channel) return;
+        this.onRemoteRevocation(message);
+      });
+    } catch (err: any) {
+      this.logger.warn(
+        `Revoked sessions will only be closed on this instance: ${err?.message || err}`,
+      );
+    }
+  }
+
+  async revoke(revocation: SessionRevocation): Promise<void> {
+    if (!revocation.jti && !revocation.userId) return;
+
+    this.emit('revoked', revocation);
+    const message: PublishedRevocation = {
+      instanceId: this.instanceId,
+      revocation,
+    };
+    try {
+      await this.redis.publish(this.channel, JSON.stringify(message));
+    } catch (err: any) {
+      this.logger.warn(`Session revocation not shared: ${err?.message || err}`);
+    }
+  }
+
+  /**
+   * Los logout encolados los procesa un worker sin pasar por AuthService:
+   * se revocan al completarse el job
+   */
+  async revokeFromJob(job: JobData): Promise<void> {
+    const payload = (job.payload ?? {}) as Record<string, unknown>;
+    switch (job.message?.pattern) {
+      case 'auth.logout':
+        if (typeof payload.jti === 'string') {
+          await this.revoke({ jti: payload.jti });
+        }
+        break;
+      case 'auth.logout-all':
+        if (typeof payload.userId === 'string') {
+          await this.revoke({ userId: payload.userId });
+        }
+        break;
+    }
+  }
+
+  private onRemoteRevocation(message: string) {
+    let published: PublishedRevocation;
+    try {
+      published = JSON.parse(message) as PublishedRevocation;
+    } catch {
+      return;
+    }
+    // Las propias ya se emitieron al revocar
+    if (published.instanceId === this.instanceId) return;
+    this.emit('revoked', published.revocation);
+  }
+}
@@ -1,4 +1,6 @@
 import { Body, Controller, Delete, Get, Param, Patch, Post, Query } from '@nestjs/common';
+import { AsyncRoute } from '../../common/decorators';
+import { RoutePayload } from '../../common/messaging/utils/route-payload.util';
 import { CalendarService } from '../services/calendar.service';
 import {
   CreateAcademicYearDto,
@@ -10,21 +12,29 @@ import {
 export class AcademicYearsController {
   constructor(private readonly calendarService: CalendarService) {}
 
+  @AsyncRoute('calendar.academicYears.create')
   @Post()
   create(@Body() createAcademicYearDto: CreateAcademicYearDto) {
     return this.calendarService.createAcademicYear(createAcademicYearDto);
   }
 
+  @AsyncRoute('calendar.academicYears.list')
   @Get()
   findAll(@Query() listAcademicYearDto: ListAcademicYearDto) {
     return this.calendarService.findAcademicYears(listAcademicYearDto);
   }
 
+  @AsyncRoute('calendar.academicYears.findOne', {
+    payload: RoutePayload.param('id'),
+  })
   @Get(':id')
   findOne(@Param('id') id: string) {
     return this.calendarService.findOneAcademicYear(id);
   }
 
+  @AsyncRoute('calendar.academicYears.update', {
+    payload: RoutePayload.paramWithBody('id', 'updateAcademicYearDto'),
+  })
   @Patch(':id')
   update(
     @Param('id') id: string,
@@ -33,6 +43,9 @@ export class AcademicYearsController {
     return this.calendarService.updateAcademicYear(id, updateAcademicYearDto);
   }
 
+  @AsyncRoute('calendar.academicYears.remove', {
+    payload: RoutePayload.param('id'),
+  })
   @Delete(':id')
   remove(@Param('id') id: string) {
     return this.calendarService.removeAcademicYear(id);
@@ -1,4 +1,6 @@
 import { Body, Controller, Delete, Get, Param, Patch, Post, Query } from '@nestjs/common';
+import { AsyncRoute } from '../../common/decorators';
+import { RoutePayload } from '../../common/messaging/utils/route-payload.util';
 import { CalendarService } from '../services/calendar.service';
 import { CreateTermDto, ListTermDto, UpdateTermDto } from '../dto';
 
@@ -6,26 +8,33 @@ import { CreateTermDto, ListTermDto, UpdateTermDto } from '../dto';
 export class TermsController {
   constructor(private readonly calendarService: CalendarService) {}
 
+  @AsyncRoute('calendar.terms.create')
   @Post()
   create(@Body() createTermDto: CreateTermDto) {
     return this.calendarService.createTerm(createTermDto);
   }
 
+  @AsyncRoute('calendar.terms.list')
   @Get()
   findAll(@Query() listTermDto: ListTermDto) {
     return this.calendarService.findTerms(listTermDto);
   }
 
+  @AsyncRoute('calendar.terms.findOne', { payload: RoutePayload.param('id') })
   @Get(':id')
   findOne(@Param('id') id: string) {
     return this.calendarService.findOneTerm(id);
   }
 
+  @AsyncRoute('calendar.terms.update', {
+    payload: RoutePayload.paramWithBody('id', 'updateTermDto'),
+  })
   @Patch(':id')
   update(@Param('id') id: string, @Body() updateTermDto: UpdateTermDto) {
     return this.calendarService.updateTerm(id, updateTermDto);
   }
 
+  @AsyncRoute('calendar.terms.remove', { payload: RoutePayload.param('id') })
   @Delete(':id')
   remove(@Param('id') id: string) {
     return this.calendarService.removeTerm(id);
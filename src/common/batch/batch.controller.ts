@@ -0,0 +1,81 @@
+import {
+  Body,
+  Controller,
+  Get,
+  NotFoundException,
+  Param,
+  Post,
+  Req,
+  Res,
+} from '@nestjs/common';
+import type { Request, Response } from 'express';
+import { Auth, GetUser } from '../../auth/decorators';
+import { JwtPayload, ValidRoles } from '../../auth/interfaces';
+import { SkipAsyncRoute } from '../decorators/async-route.decorator';
+import {
+  normalizeHeaders,
+  parsePreferredWait,
+} from '../interceptors/utils/request-context.util';
+import { JobCancellationService } from '../queues/job-cancellation.service';
+import { BatchItemRequest, BatchService } from './batch.service';
+
+// El lote no se encola: cada sub-petición se encola por separado
+@SkipAsyncRoute()
+@Controller('batch')
+export class BatchController {
+  constructor(
+    private readonly batchService: BatchService,
+    private readonly cancellationService: JobCancellationService,
+  ) {}
+
+  /**
+   * Queue several requests at once. Answers 200 with every result when they
+   * all finish within the wait budget (`Prefer: wait=N`), 202 otherwise
+   */
+  @Post()
+  async submit(
+    @Body() items: BatchItemRequest[],
+    @Req() request: Request,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    const headers = normalizeHeaders(request.headers);
+    // Cabeceras propias del lote, no de cada sub-petición
+    delete headers['content-length'];
+    delete headers.prefer;
+
+    const waitSeconds = this.batchService.resolveWaitSeconds(
+      parsePreferredWait(request.headers.prefer),
+    );
+    const batch = await this.batchService.submit(
+      items,
+      headers,
+      waitSeconds,
+      request.socket?.remoteAddress ?? request.ip,
+    );
+
+    if (waitSeconds > 0) {
+      response.setHeader('Preference-Applied', `wait=${waitSeconds}`);
+    }
+    response.status(batch.status === 'completed' ? 200 : 202);
+    return batch;
+  }
+
+  /**
+   * Per-item status and results of a batch: only its author or an ADMIN
+   */
+  @Get(':batchId')
+  @Auth(ValidRoles.ANY)
+  async getStatus(
+    @Param('batchId') batchId: string,
+    @GetUser() user: JwtPayload,
+  ) {
+    const batch = await this.batchService.getStatus(
+      batchId,
+      this.cancellationService.requesterFrom(user),
+    );
+    if (!batch) {
+      throw new NotFoundException(`Batch '${batchId}' not found or expired`);
+    }
+    return batch;
+  }
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { BatchController } from './batch.controller';
+import { BatchService } from './batch.service';
+import { QueueModule } from '../queues/queue.module';
+import { InterceptorModule } from '../interceptors/interceptor.module';
+import { RedisModule } from '../redis/redis.module';
+import { WebSocketModule } from '../websockets/websocket.module';
+import { NatsModule } from '../../transports/nats.module';
+import { AuthModule } from '../../auth/auth.module';
+
+@Module({
+  imports: [
+    RedisModule,
+    QueueModule,
+    InterceptorModule,
+    WebSocketModule,
+    NatsModule,
+    AuthModule,
+  ],
+  controllers: [BatchController],
+  providers: [BatchService],
+})
+export class BatchModule {}
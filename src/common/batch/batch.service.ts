@@ -0,0 +1,607 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import Redis from 'ioredis';
+import { AuthService } from '../../auth/auth.service';
+import {
+  CircuitBreakerService,
+  CircuitOpenError,
+} from '../../transports/circuit-breaker.service';
+import { DynamicQueueService } from '../queues/dynamic-queue.service';
+import { BackpressureService } from '../queues/backpressure.service';
+import {
+  JobCancelRequester,
+  canManageJob,
+} from '../queues/job-cancellation.service';
+import {
+  JobCompletionEvent,
+  JobCompletionService,
+} from '../queues/job-completion.service';
+import { JobData } from '../interceptors/interfaces/job-data.interface';
+import { QueueConfigService } from '../interceptors/queue-config.service';
+import { RequestRoutingService } from '../messaging/request-routing.service';
+import {
+  PreflightRequest,
+  RoutePreflightService,
+} from '../messaging/route-preflight.service';
+import { JobErrorInfo } from '../workers/interfaces/job-result.interface';
+import { JobStatusService } from '../websockets/job-status.service';
+
+export interface BatchItemRequest {
+  /** Client-chosen id, echoed back in the item result */
+  id: string;
+  method: string;
+  /** Path with optional query string, e.g. `/calendar/terms?page=2` */
+  url: string;
+  body?: any;
+}
+
+export interface BatchItemError {
+  message: string;
+  type: string;
+  statusCode: number | null;
+  data: any;
+}
+
+export interface BatchItemResult {
+  id: string;
+  /** Null when the item was rejected before being queued */
+  jobId: string | null;
+  /** BullMQ state while pending; `rejected` for items that never reached a queue */
+  status: string;
+  statusCode: number | null;
+  /** Response of the route, or its error body */
+  body: any;
+  error: BatchItemError | null;
+}
+
+export interface BatchResponse {
+  batchId: string;
+  status: 'completed' | 'processing';
+  checkStatusUrl: string;
+  total: number;
+  pending: number;
+  items: BatchItemResult[];
+  timestamp: string;
+}
+
+interface BatchItemRecord {
+  id: string;
+  method: string;
+  url: string;
+  jobId?: string;
+  queueName?: string;
+  /** Final result of items rejected before queueing */
+  rejection?: BatchItemResult;
+}
+
+interface BatchRecord {
+  batchId: string;
+  /** User of the verified token the batch was sent with */
+  userId?: string;
+  createdAt: string;
+  items: BatchItemRecord[];
+}
+
+interface PreparedItem {
+  record: BatchItemRecord;
+  jobData?: JobData;
+}
+
+type AuthValidation = Awaited<ReturnType<AuthService['validateToken']>>;
+
+const FINAL_STATES = [
+  'completed',
+  'failed',
+  'cancelled',
+  'rejected',
+  'not_found',
+];
+const WRITE_METHODS = ['POST', 'PUT', 'PATCH'];
+/** Base to parse the item urls, which are paths of the gateway */
+const GATEWAY_ORIGIN = 'http://gateway.local';
+
+/**
+ * Fans a `POST /batch` request out into one queued job per item. Each item
+ * goes through the rate limits, guards, pipes, circuit breaker, backpressure
+ * and async route of the endpoint it targets, as if it had been requested on
+ * its own; all of them share a parent batch id that is tracked in Redis and
+ * only readable by its author (or an ADMIN).
+ */
+@Injectable()
+export class BatchService {
+  private readonly logger = new Logger(BatchService.name);
+  private readonly maxItems = Math.max(
+    1,
+    parseInt(process.env.QUEUE_BATCH_MAX_ITEMS || '50', 10) || 50,
+  );
+  private readonly resultTtlSeconds = parseInt(
+    process.env.QUEUE_RESULT_TTL || '86400',
+    10,
+  );
+
+  constructor(
+    @Inject('REDIS_CLIENT') private readonly redis: Redis,
+    private readonly queueService: DynamicQueueService,
+    private readonly queueConfig: QueueConfigService,
+    private readonly routingService: RequestRoutingService,
+    private readonly preflight: RoutePreflightService,
+    private readonly jobCompletion: JobCompletionService,
+    private readonly jobStatusService: JobStatusService,
+    private readonly authService: AuthService,
+    private readonly circuitBreaker: CircuitBreakerService,
+    private readonly backpressure: BackpressureService,
+  ) {}
+
+  /** Wait budget for the aggregated response: `Prefer: wait=N` or the default */
+  resolveWaitSeconds(preferred: number | undefined): number {
+    if (!this.jobCompletion.isAvailable()) {
+      return 0;
+    }
+    const fallback = parseInt(process.env.QUEUE_BATCH_WAIT_SECONDS ?? '', 10);
+    const seconds = preferred ?? (Number.isNaN(fallback) ? 10 : fallback);
+    return Math.max(
+      0,
+      Math.min(seconds, this.queueConfig.getMaxSyncWaitSeconds()),
+    );
+  }
+
+  async submit(
+    items: BatchItemRequest[],
+    headers: Record<string, string>,
+    waitSeconds: number,
+    clientIp?: string,
+  ): Promise<BatchResponse> {
+    this.validateItems(items);
+
+    // Un token por lote: los guards de cada item reutilizan la validación
+    const authValidation = await this.validateToken(headers);
+    const batchId = this.generateBatchId();
+    const prepared = await Promise.all(
+      items.map((item, index) =>
+        this.prepare(`${batchId}_${index}`, batchId, item, {
+          headers,
+          clientIp,
+          authValidation,
+        }),
+      ),
+    );
+
+    // Los waiters se registran antes de encolar para no perder jobs rápidos
+    const completions = new Map<string, Promise<JobCompletionEvent | null>>();
+    for (const { record } of prepared) {
+      if (record.jobId && waitSeconds > 0) {
+        completions.set(
+          record.jobId,
+          this.jobCompletion.waitFor(record.jobId, waitSeconds * 1000),
+        );
+      }
+    }
+
+    for (const item of prepared) {
+      await this.enqueue(item);
+    }
+
+    const batch: BatchRecord = {
+      batchId,
+      userId: authValidation?.user.id,
+      createdAt: new Date().toISOString(),
+      items: prepared.map(({ record }) => record),
+    };
+    await this.redis.setex(
+      this.batchKey(batchId),
+      this.resultTtlSeconds,
+      JSON.stringify(batch),
+    );
+    this.logger.log(
+      `Batch ${batchId} queued ${batch.items.filter((i) => i.jobId).length} of ${items.length} requests`,
+    );
+
+    const outcomes = new Map<string, JobCompletionEvent | null>();
+    await Promise.all(
+      [...completions].map(async ([jobId, completion]) => {
+        outcomes.set(jobId, await completion);
+      }),
+    );
+
+    const results = batch.items.map((record) => {
+      if (record.rejection) return record.rejection;
+      const outcome = outcomes.get(record.jobId!);
+      return outcome
+        ? this.fromCompletion(record, outcome)
+        : this.pendingResult(record);
+    });
+
+    return this.toResponse(batchId, results);
+  }
+
+  /** Current state of every item; null once the batch expired or never existed */
+  async getStatus(
+    batchId: string,
+    requester: JobCancelRequester,
+  ): Promise<BatchResponse | null> {
+    const raw = await this.redis.get(this.batchKey(batchId));
+    if (!raw) return null;
+
+    const batch = JSON.parse(raw) as BatchRecord;
+    if (!canManageJob(batch, requester)) {
+      throw new ForbiddenException(
+        'Only the user who sent the batch or an ADMIN can read it',
+      );
+    }
+    const results = await Promise.all(
+      batch.items.map(async (record) => {
+        if (record.rejection) return record.rejection;
+
+        const status = await this.queueService.getJobStatus(record.jobId!);
+        if (!status) {
+          return { ...this.pendingResult(record), status: 'not_found' };
+        }
+
+        const completed = status.status === 'completed';
+        const error = status.error as BatchItemError | null;
+        return {
+          id: record.id,
+          jobId: record.jobId!,
+          status: status.status,
+          statusCode: status.statusCode,
+          body: completed
+            ? status.result
+            : error
+              ? (error.data ?? {
+                  status: error.statusCode,
+                  message: error.message,
+                })
+              : null,
+          error,
+        } as BatchItemResult;
+      }),
+    );
+
+    return this.toResponse(batchId, results);
+  }
+
+  private validateItems(items: BatchItemRequest[]) {
+    if (!Array.isArray(items) || items.length === 0) {
+      throw new BadRequestException(
+        'Body must be a non-empty array of { id, method, url, body } requests',
+      );
+    }
+    if (items.length > this.maxItems) {
+      throw new BadRequestException(
+        `Maximum ${this.maxItems} requests allowed per batch (got ${items.length})`,
+      );
+    }
+
+    const ids = new Set<string>();
+    items.forEach((item, index) => {
+      if (
+        !item ||
+        typeof item.id !== 'string' ||
+        !item.id ||
+        typeof item.method !== 'string' ||
+        typeof item.url !== 'string' ||
+        !item.url.startsWith('/')
+      ) {
+        throw new BadRequestException(
+          `Request #${index} must have a string id, a method and an absolute url`,
+        );
+      }
+      if (ids.has(item.id)) {
+        throw new BadRequestException(`Duplicated request id '${item.id}'`);
+      }
+      ids.add(item.id);
+    });
+  }
+
+  /**
+   * Runs the target route's guards and pipes and builds its job. Items that
+   * the route would have refused are kept with the same error response
+   */
+  private async prepare(
+    jobId: string,
+    batchId: string,
+    item: BatchItemRequest,
+    origin: {
+      headers: Record<string, string>;
+      clientIp?: string;
+      authValidation?: AuthValidation;
+    },
+  ): Promise<PreparedItem> {
+    const { headers, authValidation } = origin;
+    const method = item.method.toUpperCase();
+    const record: BatchItemRecord = { id: item.id, method, url: item.url };
+    let parsed: URL;
+    try {
+      parsed = new URL(item.url, GATEWAY_ORIGIN);
+    } catch (error: any) {
+      return this.reject(
+        record,
+        new BadRequestException(
+          `Invalid url '${item.url}': ${error?.message || error}`,
+        ),
+      );
+    }
+    // `//host/x` o `/\host/x` cambiarían el host en lugar de ser una ruta
+    if (parsed.origin !== GATEWAY_ORIGIN) {
+      return this.reject(
+        record,
+        new BadRequestException(
+          `Invalid url '${item.url}': must be a path starting with a single '/'`,
+        ),
+      );
+    }
+
+    const match = this.routingService.match(method, parsed.pathname);
+    if (!match) {
+      return this.reject(
+        record,
+        new HttpException(
+          `No async route for '${method} ${parsed.pathname}'`,
+          HttpStatus.NOT_FOUND,
+        ),
+      );
+    }
+
+    const body = WRITE_METHODS.includes(method) ? (item.body ?? {}) : undefined;
+    const query = this.parseQuery(parsed.searchParams);
+    const request: PreflightRequest = {
+      method,
+      url: item.url,
+      path: parsed.pathname,
+      originalUrl: item.url,
+      headers,
+      body,
+      query,
+      params: match.params,
+      ip: origin.clientIp,
+      ...(authValidation && { authValidation }),
+    };
+
+    try {
+      await this.preflight.check(match.route, request);
+    } catch (error) {
+      return this.reject(record, error);
+    }
+
+    const jobData: JobData = {
+      id: jobId,
+      method,
+      url: parsed.pathname,
+      rawUrl: item.url,
+      data: body,
+      queryParams: Object.keys(query).length > 0 ? query : undefined,
+      params: Object.keys(match.params).length > 0 ? match.params : undefined,
+      headers,
+      userId: authValidation?.user.id,
+      timestamp: Date.now(),
+      context: request.authValidation
+        ? { authValidation: request.authValidation }
+        : undefined,
+      batchId,
+    };
+
+    const resolution = this.routingService.resolve(jobData);
+    if (!resolution) {
+      return this.reject(
+        record,
+        new BadRequestException(
+          `Request could not be mapped to '${match.route.pattern}'`,
+        ),
+      );
+    }
+
+    jobData.message = resolution.message;
+    jobData.payload = resolution.payload;
+    jobData.retryPolicy = resolution.retry;
+    jobData.successStatusCode = this.preflight.getSuccessStatus(match.route);
+
+    record.jobId = jobId;
+    record.queueName = await this.queueService.determineQueueForUrl(
+      jobData.url,
+    );
+    return { record, jobData };
+  }
+
+  private async enqueue({ record, jobData }: PreparedItem) {
+    if (!jobData || !record.queueName) return;
+
+    const queueDef = this.queueService.getQueueDefinition(record.queueName);
+
+    // Mismo rechazo que QueueInterceptor: servicio caído o cola saturada
+    const openCircuit = this.circuitBreaker.openFor(jobData.message!.pattern);
+    if (openCircuit) {
+      this.jobCompletion.cancelWait(jobData.id);
+      this.reject(
+        record,
+        new CircuitOpenError(
+          openCircuit.circuit,
+          openCircuit.retryAfterSeconds,
+        ),
+      );
+      return;
+    }
+    const decision = await this.backpressure.evaluate(
+      record.queueName,
+      queueDef,
+      jobData.url,
+    );
+    if (decision.action !== 'accepted') {
+      this.jobCompletion.cancelWait(jobData.id);
+      this.reject(
+        record,
+        new ServiceUnavailableException({
+          statusCode: HttpStatus.SERVICE_UNAVAILABLE,
+          error: 'Service Unavailable',
+          message: decision.reason,
+          queue: record.queueName,
+          retryAfter: decision.retryAfterSeconds,
+        }),
+      );
+      return;
+    }
+
+    try {
+      if (!this.queueService.isQueueAvailable(record.queueName)) {
+        throw new Error(`Queue '${record.queueName}' is not available`);
+      }
+      await this.jobStatusService.setOwner(jobData.id, jobData.userId);
+      await this.jobStatusService.markJobQueued(jobData.id, record.queueName);
+      try {
+        await this.queueService.addJobToQueue(record.queueName, jobData, {
+          timeout: queueDef ? queueDef.timeout * 1000 : 60000,
+        });
+      } catch (error) {
+        await this.jobStatusService.discardJob(jobData.id);
+        throw error;
+      }
+    } catch (error: any) {
+      this.jobCompletion.cancelWait(jobData.id);
+      this.logger.error(
+        `Batch item ${record.id} could not be queued: ${error?.message || error}`,
+      );
+      this.reject(
+        record,
+        new HttpException(
+          error?.message || 'Queue unavailable',
+          HttpStatus.SERVICE_UNAVAILABLE,
+        ),
+      );
+    }
+  }
+
+  /** Undefined without a Bearer token or when it does not validate */
+  private async validateToken(
+    headers: Record<string, string>,
+  ): Promise<AuthValidation | undefined> {
+    const header = headers.authorization;
+    if (!header?.startsWith('Bearer ')) return undefined;
+    try {
+      return await this.authService.validateToken(header.substring(7));
+    } catch {
+      // Las rutas protegidas del lote responderán 401 en su item
+      return undefined;
+    }
+  }
+
+  private reject(record: BatchItemRecord, error: unknown): PreparedItem {
+    const exception =
+      error instanceof HttpException
+        ? error
+        : new HttpException(
+            (error as Error)?.message || 'Internal server error',
+            HttpStatus.INTERNAL_SERVER_ERROR,
+          );
+    const statusCode = exception.getStatus();
+
+    delete record.jobId;
+    delete record.queueName;
+    record.rejection = {
+      id: record.id,
+      jobId: null,
+      status: 'rejected',
+      statusCode,
+      body: exception.getResponse(),
+      error: {
+        message: exception.message,
+        type: 'http',
+        statusCode,
+        data: exception.getResponse(),
+      },
+    };
+    return { record };
+  }
+
+  private fromCompletion(
+    record: BatchItemRecord,
+    outcome: JobCompletionEvent,
+  ): BatchItemResult {
+    const error = this.toItemError(outcome.error);
+    return {
+      id: record.id,
+      jobId: record.jobId!,
+      status: outcome.status,
+      statusCode: outcome.statusCode ?? null,
+      body:
+        outcome.status === 'completed'
+          ? outcome.result
+          : (error?.data ?? {
+              status: outcome.statusCode,
+              message: error?.message ?? 'Job failed',
+            }),
+      error,
+    };
+  }
+
+  private pendingResult(record: BatchItemRecord): BatchItemResult {
+    return {
+      id: record.id,
+      jobId: record.jobId!,
+      status: 'queued',
+      statusCode: null,
+      body: null,
+      error: null,
+    };
+  }
+
+  /** Same error fields as the job status endpoint; the stack stays internal */
+  private toItemError(
+    error: JobErrorInfo | null | undefined,
+  ): BatchItemError | null {
+    if (!error) return null;
+    return {
+      message: error.message,
+      type: error.type,
+      statusCode: error.statusCode ?? null,
+      data: error.data ?? null,
+    };
+  }
+
+  private toResponse(batchId: string, items: BatchItemResult[]): BatchResponse {
+    const pending = items.filter(
+      (item) => !FINAL_STATES.includes(item.status),
+    ).length;
+    return {
+      batchId,
+      status: pending === 0 ? 'completed' : 'processing',
+      checkStatusUrl: `/batch/${batchId}`,
+      total: items.length,
+      pending,
+      items,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  private parseQuery(searchParams: URLSearchParams): Record<string, any> {
+    const query: Record<string, any> = {};
+    searchParams.forEach((value, key) => {
+      const existing = query[key];
+      if (existing === undefined) query[key] = value;
+      else
+        query[key] = Array.isArray(existing)
+          ? [...existing, value]
+          : [existing, value];
+    });
+    return query;
+  }
+
+  private generateBatchId(): string {
+    const timestamp = new Date()
+      .toISOString()
+      .replace(/[-:T.]/g, '')
+      .slice(0, 14);
+    const random = Math.random().toString(36).substring(2, 8);
+    return `batch_${timestamp}_${random}`;
+  }
+
+  private batchKey(batchId: string) {
+    return `batch:${batchId}`;
+  }
+}
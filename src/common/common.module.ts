@@ -7,6 +7,8 @@ import { WorkerModule } from './workers/worker.module';
 import { MonitoringModule } from './monitoring/monitoring.module';
 import { WebSocketModule } from './websockets/websocket.module';
 import { TestingModule } from './testing/testing.module';
+import { BatchModule } from './batch/batch.module';
+import { RateLimitModule } from './rate-limit/rate-limit.module';
 
 @Global()
 @Module({
@@ -15,8 +17,11 @@ import { TestingModule } from './testing/testing.module';
     QueueModule,
     InterceptorModule,
     // Remover dependencias circulares temporalmente
-    // WorkerModule, MonitoringModule, WebSocketModule se manejan por separado
+    // WorkerModule, WebSocketModule se manejan por separado
+    MonitoringModule,
     TestingModule,
+    BatchModule,
+    RateLimitModule,
   ],
   providers: [PaginationService, IdempotencyService],
   exports: [
@@ -1,4 +1,5 @@
 import {
+  BadRequestException,
   Controller,
   Get,
   Post,
@@ -6,21 +7,49 @@ import {
   Delete,
   Param,
   Body,
+  Query,
 } from '@nestjs/common';
 import { DynamicQueueService } from '../queues/dynamic-queue.service';
-import { Inject } from '@nestjs/common';
-import { IQueueConfigRepository, QUEUE_CONFIG_REPOSITORY } from '../queues/queue-config.repository';
 import { DynamicWorkerService } from '../workers/dynamic-worker.service';
-import { QueueDefinition } from '../queues/queue-config.interface';
+import { QueueConfigSource, QueueDefinition } from '../queues/queue-config.interface';
+import { QueueConfigSyncService } from '../queues/queue-config-sync.service';
+import { envs } from '../../config';
 import { JobData } from '../interceptors/interfaces/job-data.interface';
+import { RequestRoutingService } from '../messaging/request-routing.service';
+import { QueueConfigService } from '../interceptors/queue-config.service';
+import { DeadLetterFilter, DeadLetterService } from '../queues/dead-letter.service';
+import { FairSchedulingService } from '../queues/fair-scheduling.service';
+import { Auth } from '../../auth/decorators';
+import { ValidRoles } from '../../auth/interfaces';
+
+interface RoutingTestRequest {
+  method: string;
+  url: string;
+  body?: any;
+  headers?: Record<string, string>;
+}
+
+interface DeadLetterRequest {
+  /** Entries to act on; when omitted the filter selects them */
+  jobIds?: string[];
+  pattern?: string;
+  errorType?: string;
+  from?: string | number;
+  to?: string | number;
+  /** Replacement payload for the replayed job (single entry only) */
+  payload?: any;
+}
 
 @Controller('admin/queues')
 export class QueueAdminController {
   constructor(
     private readonly queueService: DynamicQueueService,
     private readonly workerService: DynamicWorkerService,
-    @Inject(QUEUE_CONFIG_REPOSITORY)
-    private readonly configRepo: IQueueConfigRepository,
+    private readonly routingService: RequestRoutingService,
+    private readonly queueConfig: QueueConfigService,
+    private readonly configSync: QueueConfigSyncService,
+    private readonly deadLetter: DeadLetterService,
+    private readonly fairness: FairSchedulingService,
   ) {}
 
   // ========== WORKER CONTROL ENDPOINTS (MOST SPECIFIC FIRST) ==========
@@ -177,12 +206,8 @@ export class QueueAdminController {
   /** Create a new queue dynamically */
   @Post()
   async createQueue(@Body() queueDef: QueueDefinition) {
+    // Persists to file and Redis, and notifies the other instances
     const queue = await this.queueService.createQueue(queueDef);
-    // Persist full config to repository as source of truth
-    try {
-      await this.configRepo.saveConfig(this.queueService.getQueueConfig());
-      await this.configRepo.publishUpdate({ type: 'queue-created', queueName: queueDef.name, timestamp: new Date().toISOString() });
-    } catch {}
     // Ensure configured workers are created immediately
     try {
       await this.workerService.ensureWorkersForQueue(queueDef.name);
@@ -230,9 +255,6 @@ export class QueueAdminController {
       if (typeof total === 'number') {
         await this.queueService.setQueueWorkers(queueName, total);
       }
-      // Persist config to repository
-      await this.configRepo.saveConfig(this.queueService.getQueueConfig());
-      await this.configRepo.publishUpdate({ type: 'queue-updated', queueName, timestamp: new Date().toISOString() });
     } catch (err) {
       return {
         message: `Queue '${queueName}' updated (worker reconcile had issues)`,
@@ -255,10 +277,6 @@ export class QueueAdminController {
     // Remove workers first to free resources
     await this.workerService.removeAllWorkersForQueue(queueName).catch(() => undefined);
     await this.queueService.removeQueue(queueName);
-    try {
-      await this.configRepo.saveConfig(this.queueService.getQueueConfig());
-      await this.configRepo.publishUpdate({ type: 'queue-removed', queueName, timestamp: new Date().toISOString() });
-    } catch {}
 
     return {
       message: `Queue '${queueName}' deleted`,
@@ -275,32 +293,53 @@ export class QueueAdminController {
   @Get('config/current')
   async getCurrentConfig() {
     const config = this.queueService.getQueueConfig();
+    const local = this.queueService.getConfigVersion();
+    const clusterVersion = await this.queueService.getClusterConfigVersion();
 
     return {
       message: 'Current queue configuration',
+      instance: {
+        id: envs.instanceId,
+        configVersion: local.version,
+        configVersionUpdatedAt: local.updatedAt ?? null,
+      },
+      cluster: {
+        configVersion: clusterVersion ?? null,
+        inSync: clusterVersion === undefined ? null : clusterVersion === local.version,
+      },
       config,
       timestamp: new Date().toISOString(),
     };
   }
 
   /**
-   * Reload queue configuration
+   * Reload queue configuration from config/queues.json (default) or Redis,
+   * apply the diff to queues and workers and notify the other instances
    */
   @Post('config/reload')
-  async reloadConfig() {
+  async reloadConfig(@Query('source') source?: string) {
+    if (source && source !== 'file' && source !== 'redis') {
+      return {
+        error: `Invalid source '${source}'`,
+        allowedSources: ['file', 'redis'],
+        timestamp: new Date().toISOString(),
+      };
+    }
+
     try {
-      // Note: This method doesn't exist yet in DynamicQueueService
-      // await this.queueService.reloadConfig();
-      const config = this.queueService.getQueueConfig();
+      const result = await this.configSync.reload(source as QueueConfigSource | undefined);
 
       return {
-        message: 'Queue configuration retrieved (reload not implemented yet)',
-        config,
+        message: result.changed
+          ? `Queue configuration reloaded from ${result.source}`
+          : `Queue configuration reloaded from ${result.source} (no changes)`,
+        ...result,
+        config: this.queueService.getQueueConfig(),
         timestamp: new Date().toISOString(),
       };
     } catch (error) {
       return {
-        error: 'Failed to get configuration',
+        error: 'Failed to reload configuration',
         details: error.message,
         timestamp: new Date().toISOString(),
       };
@@ -357,30 +396,148 @@ export class QueueAdminController {
   // ========== ROUTING ENDPOINTS ==========
 
   /**
-   * Get routing patterns (Not implemented yet)
+   * List async routes (from @AsyncRoute metadata) and queue URL patterns
    */
   @Get('routing/patterns')
-  async getRoutingPatterns() {
+  getRoutingPatterns() {
+    const routes = this.routingService.getRoutes().map((route) => ({
+      method: route.method,
+      path: route.path,
+      pattern: route.pattern,
+      completionEvent: route.completionEvent ?? `${route.pattern}.completed`,
+      completion: route.completion ?? 'reply',
+      handler: route.handler,
+    }));
+    const config = this.queueService.getQueueConfig();
+
     return {
-      message: 'Routing patterns not implemented yet',
-      patterns: [],
+      message: 'Routing patterns',
+      totalRoutes: routes.length,
+      routes,
+      queues: config.queues.map((queueDef) => ({
+        name: queueDef.name,
+        enabled: queueDef.enabled ?? false,
+        priority: queueDef.priority,
+        urlPatterns: queueDef.urlPatterns ?? [],
+      })),
+      defaultQueue: config.defaultQueue,
+      exclusions: this.queueConfig.getExclusions(),
       timestamp: new Date().toISOString(),
     };
   }
 
   /**
-   * Test routing for a specific request (Not implemented yet)
+   * Dry-run the interceptor for a request: route match, payload, queue choice
+   * and any reason it would be processed synchronously instead
    */
   @Post('routing/test')
-  async testRouting(@Body() requestData: any) {
+  async testRouting(@Body() requestData: RoutingTestRequest) {
+    if (!requestData?.method || !requestData?.url) {
+      return {
+        error: 'Both method and url are required',
+        example: {
+          method: 'PATCH',
+          url: '/courses/123',
+          body: { name: 'Algebra' },
+          headers: {},
+        },
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    const job = this.buildRoutingTestJob(requestData);
+    const exclusion = this.queueConfig.findExclusion(job.url);
+    const resolution = this.routingService.explain(job);
+    const queue = await this.queueService.explainQueueForUrl(job.url);
+
+    const bypassReasons: string[] = [];
+    if (!this.queueConfig.isQueueEnabled()) {
+      bypassReasons.push('Queue system is disabled');
+    }
+    if (exclusion) {
+      bypassReasons.push(`URL matches queue exclusion '${exclusion}'`);
+    }
+    if (resolution.error) {
+      bypassReasons.push(resolution.error);
+    }
+    if (!this.queueService.isQueueAvailable(queue.selectedQueue)) {
+      bypassReasons.push(`Queue '${queue.selectedQueue}' is not available`);
+    }
+
     return {
-      message: 'Routing test not implemented yet',
+      message: 'Routing test',
       input: requestData,
-      determinedQueue: 'standard', // default queue
+      outcome: bypassReasons.length ? 'synchronous' : 'queued',
+      bypassReasons,
+      exclusion: { excluded: !!exclusion, matchedExclusion: exclusion ?? null },
+      route: resolution.route,
+      params: resolution.params,
+      natsMessage: resolution.message ?? null,
+      payload: resolution.payload ?? null,
+      queue,
       timestamp: new Date().toISOString(),
     };
   }
 
+  private buildRoutingTestJob(requestData: RoutingTestRequest): JobData {
+    const method = requestData.method.toUpperCase();
+    let parsed: URL;
+    try {
+      parsed = new URL(requestData.url, 'http://gateway.local');
+    } catch (error: any) {
+      throw new BadRequestException(
+        `Invalid url '${requestData.url}': ${error?.message || error}`,
+      );
+    }
+    const queryParams: Record<string, any> = {};
+    parsed.searchParams.forEach((value, key) => {
+      const existing = queryParams[key];
+      if (existing === undefined) queryParams[key] = value;
+      else
+        queryParams[key] = Array.isArray(existing)
+          ? [...existing, value]
+          : [existing, value];
+    });
+    const headers: Record<string, string> = {};
+    Object.entries(requestData.headers ?? {}).forEach(([key, value]) => {
+      headers[key.toLowerCase()] = String(value);
+    });
+
+    // JwtAuthGuard normally provides authValidation; decode (without verifying) for the dry run
+    const user = this.decodeBearerToken(headers.authorization);
+
+    return {
+      id: 'routing-test',
+      method,
+      url: parsed.pathname,
+      rawUrl: requestData.url,
+      data: ['POST', 'PUT', 'PATCH'].includes(method)
+        ? (requestData.body ?? {})
+        : undefined,
+      queryParams: Object.keys(queryParams).length ? queryParams : undefined,
+      headers,
+      userId: user ? user.sub || user.userId || user.id : undefined,
+      timestamp: Date.now(),
+      context: user
+        ? {
+            authValidation: { user, token: headers.authorization.substring(7) },
+          }
+        : undefined,
+    };
+  }
+
+  private decodeBearerToken(
+    authHeader?: string,
+  ): Record<string, any> | undefined {
+    if (!authHeader?.startsWith('Bearer ')) return undefined;
+    try {
+      const [, payload] = authHeader.substring(7).split('.');
+      return JSON.parse(Buffer.from(payload, 'base64').toString('utf8'));
+    } catch {
+      return undefined;
+    }
+  }
+
   // ========== GENERAL QUEUE ENDPOINTS (LESS SPECIFIC) ==========
 
   /**
@@ -410,6 +567,154 @@ export class QueueAdminController {
     };
   }
 
+  // ========== DEAD-LETTER QUEUE ==========
+
+  /**
+   * List dead-letter entries of a queue, newest first
+   */
+  @Get(':queueName/dlq')
+  @Auth(ValidRoles.ADMIN)
+  async listDeadLetters(
+    @Param('queueName') queueName: string,
+    @Query('pattern') pattern?: string,
+    @Query('errorType') errorType?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ) {
+    const filter = this.parseDeadLetterFilter({ pattern, errorType, from, to });
+    if ('error' in filter) {
+      return { ...filter, timestamp: new Date().toISOString() };
+    }
+
+    const parsedLimit = Math.min(Math.max(parseInt(limit ?? '', 10) || 50, 1), 500);
+    const parsedOffset = Math.max(parseInt(offset ?? '', 10) || 0, 0);
+    const { total, entries } = await this.deadLetter.list(queueName, filter, parsedLimit, parsedOffset);
+
+    return {
+      message: `Dead-letter entries for queue '${queueName}'`,
+      queueName,
+      entries,
+      meta: { total, limit: parsedLimit, offset: parsedOffset, filter },
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Get a single dead-letter entry
+   */
+  @Get(':queueName/dlq/:jobId')
+  @Auth(ValidRoles.ADMIN)
+  async getDeadLetter(@Param('queueName') queueName: string, @Param('jobId') jobId: string) {
+    const entry = await this.deadLetter.get(queueName, jobId);
+
+    if (!entry) {
+      return {
+        error: `Job '${jobId}' not found in dead-letter queue of '${queueName}'`,
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    return {
+      message: `Dead-letter entry '${jobId}'`,
+      entry,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Replay dead-letter entries (by jobIds or by filter) as new jobs linked to the original
+   */
+  @Post(':queueName/dlq/replay')
+  @Auth(ValidRoles.ADMIN)
+  async replayDeadLetters(@Param('queueName') queueName: string, @Body() body: DeadLetterRequest = {}) {
+    if (!this.queueService.isQueueAvailable(queueName)) {
+      return {
+        error: `Queue '${queueName}' is not available`,
+        availableQueues: this.queueService.getAvailableQueues(),
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    if (body.payload !== undefined && body.jobIds?.length !== 1) {
+      return {
+        error: 'An edited payload can only be replayed for a single jobId',
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    const filter = this.parseDeadLetterFilter(body);
+    if ('error' in filter) {
+      return { ...filter, timestamp: new Date().toISOString() };
+    }
+
+    try {
+      const results = await this.deadLetter.replay(queueName, body.jobIds, filter, body.payload);
+      const replayed = results.filter((r) => r.replayJobId).length;
+
+      return {
+        message: `Replayed ${replayed} of ${results.length} dead-letter entries from '${queueName}'`,
+        queueName,
+        replayed,
+        failed: results.length - replayed,
+        results,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      return {
+        error: 'Failed to replay dead-letter entries',
+        details: error.message,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  /**
+   * Purge dead-letter entries (by jobIds or by filter; everything when both are empty)
+   */
+  @Delete(':queueName/dlq')
+  @Auth(ValidRoles.ADMIN)
+  async purgeDeadLetters(@Param('queueName') queueName: string, @Body() body: DeadLetterRequest = {}) {
+    const filter = this.parseDeadLetterFilter(body);
+    if ('error' in filter) {
+      return { ...filter, timestamp: new Date().toISOString() };
+    }
+
+    const purged = await this.deadLetter.purge(queueName, body.jobIds, filter);
+
+    return {
+      message: `Purged ${purged} dead-letter entries from '${queueName}'`,
+      queueName,
+      purged,
+      remaining: await this.deadLetter.count(queueName),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  private parseDeadLetterFilter(
+    input: Pick<DeadLetterRequest, 'pattern' | 'errorType' | 'from' | 'to'>,
+  ): DeadLetterFilter | { error: string } {
+    const filter: DeadLetterFilter = {};
+    if (input.pattern) filter.pattern = input.pattern;
+    if (input.errorType) filter.errorType = input.errorType;
+
+    for (const bound of ['from', 'to'] as const) {
+      const value = input[bound];
+      if (value === undefined || value === '') continue;
+
+      // Acepta epoch en ms o fecha ISO
+      const time = typeof value === 'number' || /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+      if (Number.isNaN(time)) {
+        return { error: `Invalid '${bound}' date '${value}'` };
+      }
+      filter[bound] = time;
+    }
+
+    return filter;
+  }
+
+
   /**
    * Test queue by adding a sample job
    */
@@ -468,9 +773,11 @@ export class QueueAdminController {
   }
 
   /**
-   * Get specific queue information (MOST GENERIC - MUST BE LAST)
+   * Get specific queue information (MOST GENERIC - MUST BE LAST).
+   * Admins only: the fairness section lists the users with queued jobs
    */
   @Get(':queueName')
+  @Auth(ValidRoles.ADMIN)
   async getQueueInfo(@Param('queueName') queueName: string) {
     const queueDef = this.queueService.getQueueDefinition(queueName);
 
@@ -483,11 +790,13 @@ export class QueueAdminController {
     }
 
     const stats = await this.queueService.getQueuesStats();
+    const fairness = await this.fairness.getQueueFairness(queueName, queueDef);
 
     return {
       message: `Queue '${queueName}' information`,
       queue: queueDef,
       statistics: stats.queues[queueName],
+      fairness,
       timestamp: new Date().toISOString(),
     };
   }
@@ -0,0 +1,144 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import {
+  RecurringJobInput,
+  RecurringJobService,
+} from '../queues/recurring-job.service';
+import { Auth } from '../../auth/decorators';
+import { ValidRoles } from '../../auth/interfaces';
+
+@Controller('admin/schedules')
+@Auth(ValidRoles.ADMIN)
+export class SchedulesAdminController {
+  constructor(private readonly recurringJobs: RecurringJobService) {}
+
+  /**
+   * Register a recurring job (cron expression + NATS pattern + payload + queue)
+   */
+  @Post()
+  async createSchedule(@Body() body: RecurringJobInput) {
+    try {
+      const schedule = await this.recurringJobs.create(body);
+
+      return {
+        message: `Recurring job '${schedule.id}' registered`,
+        schedule,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      return {
+        error: 'Failed to register recurring job',
+        details: error.message,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  /**
+   * List recurring jobs with their next run time
+   */
+  @Get()
+  async listSchedules() {
+    const schedules = await this.recurringJobs.list();
+
+    return {
+      message: 'Recurring jobs',
+      schedules,
+      total: schedules.length,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Get a recurring job and the results of its last runs
+   */
+  @Get(':id')
+  async getSchedule(@Param('id') id: string, @Query('runs') runs?: string) {
+    const schedule = await this.recurringJobs.get(id);
+    if (!schedule) {
+      return this.notFound(id);
+    }
+
+    const limit = Math.min(Math.max(parseInt(runs ?? '', 10) || 10, 1), 100);
+
+    return {
+      message: `Recurring job '${id}'`,
+      schedule,
+      runs: await this.recurringJobs.getRuns(id, limit),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Stop scheduling new runs, keeping the definition
+   */
+  @Post(':id/pause')
+  async pauseSchedule(@Param('id') id: string) {
+    const schedule = await this.recurringJobs.pause(id);
+    if (!schedule) {
+      return this.notFound(id);
+    }
+
+    return {
+      message: `Recurring job '${id}' paused`,
+      schedule,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Register the scheduler again for a paused recurring job
+   */
+  @Post(':id/resume')
+  async resumeSchedule(@Param('id') id: string) {
+    try {
+      const schedule = await this.recurringJobs.resume(id);
+      if (!schedule) {
+        return this.notFound(id);
+      }
+
+      return {
+        message: `Recurring job '${id}' resumed`,
+        schedule,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      return {
+        error: `Failed to resume recurring job '${id}'`,
+        details: error.message,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  /**
+   * Delete a recurring job and its scheduler
+   */
+  @Delete(':id')
+  async deleteSchedule(@Param('id') id: string) {
+    const deleted = await this.recurringJobs.remove(id);
+    if (!deleted) {
+      return this.notFound(id);
+    }
+
+    return {
+      message: `Recurring job '${id}' deleted`,
+      id,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  private notFound(id: string) {
+    return {
+      error: `Recurring job '${id}' not found`,
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
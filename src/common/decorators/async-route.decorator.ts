@@ -0,0 +1,51 @@
+import { SetMetadata } from '@nestjs/common';
+import { RoutePayloadBuilder } from '../messaging/utils/route-payload.util';
+import { RetryPolicy } from '../workers/interfaces/retry-policy.interface';
+import { JobCompletionMode } from '../interceptors/interfaces/job-data.interface';
+
+export const ASYNC_ROUTE_KEY = 'async-route';
+export const SKIP_ASYNC_ROUTE_KEY = 'skip-async-route';
+
+export interface AsyncRouteOptions {
+  /** Builds the microservice payload from the queued job (defaults by HTTP method) */
+  payload?: RoutePayloadBuilder;
+
+  /** Event emitted by the microservice once done (defaults to `<pattern>.completed`) */
+  completionEvent?: string;
+
+  /**
+   * `event` publishes the command and completes the job on `completionEvent`,
+   * for operations that outlast the request timeout (defaults to `reply`).
+   * Their timeouts are only retried with `retry.requireHeader` (idempotency key)
+   */
+  completion?: JobCompletionMode;
+
+  /** Event carrying progress of `event` routes (defaults to `<pattern>.progress`) */
+  progressEvent?: string;
+
+  /** Seconds to wait for the completion event (QUEUE_COMPLETION_EVENT_TIMEOUT by default) */
+  completionTimeout?: number;
+
+  /** Overrides the queue's retry settings and decides which errors are retried */
+  retry?: RetryPolicy;
+}
+
+export interface AsyncRouteMetadata extends AsyncRouteOptions {
+  pattern: string;
+}
+
+/**
+ * Declares the NATS pattern a controller handler is dispatched to when the
+ * request goes through the queue system
+ */
+export const AsyncRoute = (pattern: string, options: AsyncRouteOptions = {}) =>
+  SetMetadata<string, AsyncRouteMetadata>(ASYNC_ROUTE_KEY, {
+    pattern,
+    ...options,
+  });
+
+/**
+ * Marks a controller or handler as synchronous-only: it is never queued and
+ * does not need an async mapping
+ */
+export const SkipAsyncRoute = () => SetMetadata(SKIP_ASYNC_ROUTE_KEY, true);
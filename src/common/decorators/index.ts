@@ -1 +1,3 @@
 export { IdempotencyKey } from './idempotency-key.decorator';
+export { AsyncRoute, SkipAsyncRoute } from './async-route.decorator';
+export { RateLimit } from './rate-limit.decorator';
@@ -0,0 +1,41 @@
+export const RATE_LIMIT_KEY = 'rate-limit';
+
+/**
+ * Who a limit is counted for: the client IP, the user of a valid Bearer token
+ * (the IP for anonymous requests) or every client together
+ */
+export type RateLimitScope = 'ip' | 'user' | 'global';
+
+export interface RateLimitOptions {
+  /** Requests allowed per window */
+  limit: number;
+
+  /** Length of the sliding window in seconds */
+  windowSeconds: number;
+
+  /** Defaults to `ip` */
+  by?: RateLimitScope;
+
+  /** Per-role limits replacing `limit` (the highest one of the user's roles applies) */
+  roleLimits?: Record<string, number>;
+
+  /** Name used in the Redis keys; defaults to the controller and handler */
+  name?: string;
+}
+
+/**
+ * Limits the requests a handler (or every handler of a controller) accepts.
+ * Can be stacked, e.g. a per-IP and a per-user limit on the same route
+ */
+export const RateLimit =
+  (options: RateLimitOptions): ClassDecorator & MethodDecorator =>
+  (target: object, _key?: string | symbol, descriptor?: PropertyDescriptor) => {
+    const metadataTarget = (descriptor?.value as object | undefined) ?? target;
+    const existing = (Reflect.getMetadata(RATE_LIMIT_KEY, metadataTarget) ??
+      []) as RateLimitOptions[];
+    Reflect.defineMetadata(
+      RATE_LIMIT_KEY,
+      [...existing, options],
+      metadataTarget,
+    );
+  };
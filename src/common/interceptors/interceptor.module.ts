@@ -1,15 +1,33 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
 import { QueueInterceptor } from './queue.interceptor';
 import { QueueConfigService } from './queue-config.service';
 import { QueueControlController } from './queue-control.controller';
 import { QueueModule } from '../queues/queue.module';
 import { WebSocketModule } from '../websockets/websocket.module';
 import { RequestRoutingService } from '../messaging/request-routing.service';
+import { RoutePreflightService } from '../messaging/route-preflight.service';
+import { NatsModule } from '../../transports/nats.module';
 
 @Module({
-  imports: [QueueModule, WebSocketModule],
+  imports: [
+    DiscoveryModule,
+    forwardRef(() => QueueModule),
+    WebSocketModule,
+    NatsModule,
+  ],
   controllers: [QueueControlController],
-  providers: [QueueInterceptor, QueueConfigService, RequestRoutingService],
-  exports: [QueueInterceptor, QueueConfigService, RequestRoutingService],
+  providers: [
+    QueueInterceptor,
+    QueueConfigService,
+    RequestRoutingService,
+    RoutePreflightService,
+  ],
+  exports: [
+    QueueInterceptor,
+    QueueConfigService,
+    RequestRoutingService,
+    RoutePreflightService,
+  ],
 })
 export class InterceptorModule {}
@@ -1,9 +1,34 @@
+import { RetryPolicy } from '../../workers/interfaces/retry-policy.interface';
+
+/**
+ * `reply`: the job finishes with the answer to the request.
+ * `event`: the command is published and the job finishes when the
+ * microservice emits `completionEvent` for its job id
+ */
+export type JobCompletionMode = 'reply' | 'event';
+
 export interface JobMessageMetadata {
   /** NATS pattern that must be invoked when processing the job */
   pattern: string;
 
   /** Event that the microservice will emit once the task is completed */
   completionEvent: string;
+
+  /** Defaults to `reply` */
+  completion?: JobCompletionMode;
+
+  /** Event carrying progress updates of `event` jobs */
+  progressEvent?: string;
+
+  /** Seconds an `event` job waits for its completion event */
+  completionTimeout?: number;
+}
+
+export interface JobWorkflowMetadata {
+  workflowId: string;
+  stepId: string;
+  /** Set on the jobs that undo a completed step after the workflow failed */
+  compensation?: boolean;
 }
 
 export interface JobData {
@@ -46,6 +71,27 @@ export interface JobData {
 
   /** Payload that will be sent to the microservice */
   payload?: any;
+
+  /** Status code the handler answers with when processed synchronously (@HttpCode or Nest default) */
+  successStatusCode?: number;
+
+  /** Retry policy of the matched route; the queue settings apply when absent */
+  retryPolicy?: RetryPolicy;
+
+  /** Original job id when this job replays a dead-letter entry */
+  replayOf?: string;
+
+  /** Epoch ms the job was scheduled for (X-Execute-At / X-Delay-Ms) */
+  executeAt?: number;
+
+  /** Recurring schedule (`/admin/schedules`) that produced this job */
+  scheduleId?: string;
+
+  /** Parent id when the job is an item of a `POST /batch` request */
+  batchId?: string;
+
+  /** Workflow step this job runs (`POST /workflows`) */
+  workflow?: JobWorkflowMetadata;
 }
 
 export interface QueueResponse {
@@ -53,11 +99,17 @@ export interface QueueResponse {
   jobId: string;
 
   /** Current status of the job */
-  status: 'queued' | 'processing' | 'completed' | 'failed';
+  status: 'queued' | 'scheduled' | 'processing' | 'completed' | 'failed';
 
-  /** Estimated processing time */
+  /** When a scheduled job will run (ISO timestamp) */
+  scheduledFor?: string;
+
+  /** Estimated wait, from the live queue depth and throughput (config text without data) */
   estimatedTime: string;
 
+  /** Same estimate in seconds, when there is throughput data */
+  estimatedWaitSeconds?: number;
+
   /** URL to check job status */
   checkStatusUrl: string;
 
@@ -8,6 +8,7 @@ export class QueueConfigService {
   private readonly defaultExclusions = [
     '/queues/', // Consulta de estado de colas
     '/admin/queues', // Administración de workers y colas - NO debe ir a cola
+    '/admin/schedules', // Administración de jobs recurrentes (cron)
     '/health', // Health checks para load balancers
     '/metrics', // Métricas de Prometheus
     '/queue-dashboard', // Dashboard de monitoreo
@@ -46,17 +47,34 @@ export class QueueConfigService {
     return this.queueEnabled;
   }
 
+  /**
+   * Máximo de segundos que una petición puede esperar su job (Prefer: wait=N)
+   */
+  getMaxSyncWaitSeconds(): number {
+    const parsed = parseInt(process.env.QUEUE_SYNC_WAIT_MAX_SECONDS ?? '', 10);
+    return Number.isNaN(parsed) || parsed < 0 ? 30 : parsed;
+  }
+
   /**
    * Verificar si una URL debe excluirse del sistema de colas
    */
   shouldExcludeFromQueue(url: string): boolean {
+    return this.findExclusion(url) !== undefined;
+  }
+
+  /**
+   * Devuelve la exclusión que aplica a la URL, si existe
+   */
+  findExclusion(url: string): string | undefined {
     const allExclusions = [...this.defaultExclusions, ...this.customExclusions];
     
     // También considerar exclusiones desde variables de entorno
     const envExclusions = process.env.QUEUE_EXCLUSIONS?.split(',') || [];
     allExclusions.push(...envExclusions);
 
-    return allExclusions.some((exclusion) => url.startsWith(exclusion.trim()));
+    return allExclusions
+      .map((exclusion) => exclusion.trim())
+      .find((exclusion) => exclusion && url.startsWith(exclusion));
   }
 
   /**
@@ -4,8 +4,15 @@ import {
   ExecutionContext,
   CallHandler,
   Logger,
+  HttpException,
+  HttpStatus,
+  BadRequestException,
+  RequestMethod,
+  ServiceUnavailableException,
 } from '@nestjs/common';
-import { Observable, of } from 'rxjs';
+import { HTTP_CODE_METADATA } from '@nestjs/common/constants';
+import { Reflector } from '@nestjs/core';
+import { Observable, of, throwError } from 'rxjs';
 import { Request, Response } from 'express';
 import { DynamicQueueService } from '../queues/dynamic-queue.service';
 import { QueueConfigService } from './queue-config.service';
@@ -13,6 +20,12 @@ import { JobStatusService } from '../websockets/job-status.service';
 import { JobData, QueueResponse } from './interfaces/job-data.interface';
 import { RequestRoutingService } from '../messaging/request-routing.service';
 import { QueueDefinition } from '../queues/queue-config.interface';
+import { SKIP_ASYNC_ROUTE_KEY } from '../decorators/async-route.decorator';
+import { JobCompletionEvent, JobCompletionService } from '../queues/job-completion.service';
+import { JobSchedule, resolveJobSchedule } from '../queues/utils/job-schedule.util';
+import { BackpressureService, QueuePressure } from '../queues/backpressure.service';
+import { CircuitBreakerService, CircuitOpenError } from '../../transports/circuit-breaker.service';
+import { normalizeHeaders, parsePreferredWait, verifiedUserId } from './utils/request-context.util';
 
 @Injectable()
 export class QueueInterceptor implements NestInterceptor {
@@ -23,6 +36,10 @@ export class QueueInterceptor implements NestInterceptor {
     private readonly queueConfig: QueueConfigService,
     private readonly jobStatusService: JobStatusService,
     private readonly routingService: RequestRoutingService,
+    private readonly reflector: Reflector,
+    private readonly jobCompletion: JobCompletionService,
+    private readonly backpressure: BackpressureService,
+    private readonly circuitBreaker: CircuitBreakerService,
   ) {}
 
   async intercept(
@@ -42,6 +59,10 @@ export class QueueInterceptor implements NestInterceptor {
 
     // All requests pass through the queue system. No internal bypass.
 
+    if (this.isSyncOnlyHandler(context)) {
+      return next.handle(); // Handler marcado con @SkipAsyncRoute()
+    }
+
     if (this.shouldExcludeFromQueue(path)) {
       this.logger.debug(`Excluded from queue: ${method} ${path}`); // Ruta excluida
       return next.handle(); // Procesa directo
@@ -61,6 +82,18 @@ export class QueueInterceptor implements NestInterceptor {
 
       jobData.message = routeResolution.message; // Asigna patrón
       jobData.payload = routeResolution.payload; // Asigna payload
+      jobData.retryPolicy = routeResolution.retry; // Política de reintentos de la ruta
+      jobData.successStatusCode = this.getSuccessStatus(context); // Código HTTP de éxito del handler
+
+      let schedule: JobSchedule | null; // Ejecución diferida (X-Execute-At / X-Delay-Ms)
+      try {
+        schedule = resolveJobSchedule(this.getHeader(request, 'x-execute-at'), this.getHeader(request, 'x-delay-ms'));
+      } catch (error) {
+        return throwError(() => new BadRequestException(error.message)); // Cabecera inválida → 400
+      }
+      if (schedule) {
+        jobData.executeAt = schedule.executeAt;
+      }
 
       const queueName = await this.queueService.determineQueueForUrl(jobData.url); // Elige cola
       const queueDef = this.queueService.getQueueDefinition(queueName); // Lee definición de la cola
@@ -70,19 +103,69 @@ export class QueueInterceptor implements NestInterceptor {
         return next.handle();
       }
 
-      await this.queueService.addJobToQueue(queueName, jobData, {
-        priority: queueDef?.priority, // Prioridad
-        timeout: queueDef ? queueDef.timeout * 1000 : 60000, // Timeout ms
-      });
+      // Servicio destino caído: no se acepta un job que fallaría al despacharse
+      const openCircuit = schedule ? null : this.circuitBreaker.openFor(jobData.message.pattern);
+      if (openCircuit) {
+        response.setHeader('Retry-After', String(openCircuit.retryAfterSeconds));
+        return throwError(
+          () => new CircuitOpenError(openCircuit.circuit, openCircuit.retryAfterSeconds),
+        );
+      }
+
+      // Cola saturada: 503 + Retry-After en lugar de aceptar trabajo que no se atenderá a tiempo
+      const decision = schedule ? undefined : await this.backpressure.evaluate(queueName, queueDef, jobData.url);
+      if (decision && decision.action !== 'accepted') {
+        response.setHeader('Retry-After', String(decision.retryAfterSeconds));
+        return throwError(
+          () =>
+            new ServiceUnavailableException({
+              statusCode: HttpStatus.SERVICE_UNAVAILABLE,
+              error: 'Service Unavailable',
+              message: decision.reason,
+              queue: queueName,
+              retryAfter: decision.retryAfterSeconds,
+            }),
+        );
+      }
+
+      // El waiter se registra antes de encolar para no perder jobs rápidos (no aplica a jobs programados)
+      const waitSeconds = schedule ? 0 : this.resolvePreferredWait(request);
+      const completion = waitSeconds > 0 ? this.jobCompletion.waitFor(jobId, waitSeconds * 1000) : undefined;
+
+      // Autor y estado inicial antes de encolar: el worker puede publicar en cuanto se añade
+      await this.jobStatusService.setOwner(jobId, jobData.userId); // Sala y historial del autor
+      if (schedule) {
+        await this.jobStatusService.markJobScheduled(jobId, queueName, schedule.executeAt); // Marca estado 'scheduled'
+      } else {
+        await this.jobStatusService.markJobQueued(jobId, queueName); // Marca estado 'queued'
+      }
+
+      try {
+        await this.queueService.addJobToQueue(queueName, jobData, {
+          timeout: queueDef ? queueDef.timeout * 1000 : 60000, // Timeout ms
+          ...(schedule && { delay: schedule.delay }), // Retraso hasta X-Execute-At
+        });
+      } catch (error) {
+        this.jobCompletion.cancelWait(jobId);
+        await this.jobStatusService.discardJob(jobId); // El job no existe
+        throw error;
+      }
 
       this.logger.log(
         `Job ${jobId} queued in '${queueName}' queue for ${method} ${request.originalUrl ?? url}`, // Log encolado
       );
 
-      this.jobStatusService.markJobQueued(jobId, queueName); // Marca estado 'queued'
+      if (completion) {
+        response.setHeader('Preference-Applied', `wait=${waitSeconds}`);
+        const outcome = await completion;
+        if (outcome) {
+          return this.buildCompletedResponse(context, response, outcome); // Resultado real del microservicio
+        }
+        this.logger.debug(`Job ${jobId} still running after ${waitSeconds}s wait, answering 202`);
+      }
 
       response.status(202); // 202 Accepted
-      return of(this.buildQueueResponse(jobId, queueName, queueDef)); // Devuelve metadata del job
+      return of(this.buildQueueResponse(jobId, queueName, queueDef, schedule, decision?.pressure)); // Devuelve metadata del job
     } catch (error) {
       this.logger.error(
         `Error intercepting request ${method} ${url}:`, // Log de error
@@ -95,9 +178,9 @@ export class QueueInterceptor implements NestInterceptor {
   private buildJobData(request: Request, method: string, url: string, jobId: string): JobData {
     const queryParams = Object.keys(request.query).length > 0 ? request.query : undefined;
     const routeParams = Object.keys(request.params || {}).length > 0 ? request.params : undefined;
-    const headers = this.normalizeHeaders(request.headers);
-    const userId = this.extractUserId(request.headers);
+    const headers = normalizeHeaders(request.headers);
     const context = this.extractRequestContext(request);
+    const userId = verifiedUserId(context?.authValidation);
 
     return {
       id: jobId,
@@ -114,11 +197,19 @@ export class QueueInterceptor implements NestInterceptor {
     };
   }
 
-  private buildQueueResponse(jobId: string, queueName: string, queueDef?: QueueDefinition): QueueResponse {
+  private buildQueueResponse(
+    jobId: string,
+    queueName: string,
+    queueDef?: QueueDefinition,
+    schedule?: JobSchedule | null,
+    pressure?: QueuePressure,
+  ): QueueResponse {
     return {
       jobId,
-      status: 'queued',
-      estimatedTime: queueDef?.estimatedTime || 'Unknown',
+      status: schedule ? 'scheduled' : 'queued',
+      ...(schedule && { scheduledFor: new Date(schedule.executeAt).toISOString() }),
+      estimatedTime: this.backpressure.describeEstimatedTime(pressure, queueDef), // Según profundidad y throughput reales
+      ...(pressure?.estimatedWaitSeconds !== undefined && { estimatedWaitSeconds: pressure.estimatedWaitSeconds }),
       checkStatusUrl: `/queues/job/${jobId}/status`,
       queueType: queueName as any,
       timestamp: new Date().toISOString(),
@@ -130,10 +221,66 @@ export class QueueInterceptor implements NestInterceptor {
     };
   }
 
+  /**
+   * Segundos pedidos con `Prefer: wait=N` (RFC 7240), limitados por configuración.
+   * 0 si el cliente no pidió esperar o la espera síncrona no está disponible
+   */
+  private resolvePreferredWait(request: Request): number {
+    if (!this.jobCompletion.isAvailable()) {
+      return 0;
+    }
+    const seconds = parsePreferredWait(request.headers.prefer) ?? 0;
+    return Math.min(seconds, this.queueConfig.getMaxSyncWaitSeconds());
+  }
+
+  private buildCompletedResponse(
+    context: ExecutionContext,
+    response: Response,
+    outcome: JobCompletionEvent,
+  ): Observable<any> {
+    if (outcome.status !== 'completed') {
+      const status =
+        outcome.statusCode ??
+        (outcome.error?.type === 'timeout' ? HttpStatus.GATEWAY_TIMEOUT : HttpStatus.INTERNAL_SERVER_ERROR);
+      const body = outcome.error?.data ?? {
+        status,
+        message: outcome.error?.message ?? 'Job failed',
+      };
+      return throwError(() => new HttpException(body, status));
+    }
+
+    response.status(outcome.statusCode ?? this.getSuccessStatus(context));
+    return of(outcome.result);
+  }
+
+  /** Código que el handler devolvería de forma síncrona (@HttpCode o el de Nest por método) */
+  private getSuccessStatus(context: ExecutionContext): number {
+    const httpCode = this.reflector.get<number>(HTTP_CODE_METADATA, context.getHandler());
+    if (httpCode) {
+      return httpCode;
+    }
+    const method = context.switchToHttp().getRequest<Request>().method;
+    return method === RequestMethod[RequestMethod.POST] ? HttpStatus.CREATED : HttpStatus.OK;
+  }
+
+  private getHeader(request: Request, name: string): string | undefined {
+    const value = request.headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  }
+
   private shouldExcludeFromQueue(url: string): boolean {
     return this.queueConfig.shouldExcludeFromQueue(url);
   }
 
+  private isSyncOnlyHandler(context: ExecutionContext): boolean {
+    return (
+      this.reflector.getAllAndOverride<boolean>(SKIP_ASYNC_ROUTE_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]) === true
+    );
+  }
+
   private generateJobId(): string {
     const timestamp = new Date()
       .toISOString()
@@ -143,37 +290,6 @@ export class QueueInterceptor implements NestInterceptor {
     return `${timestamp}_${random}`;
   }
 
-  private extractUserId(headers: any): string | undefined {
-    try {
-      const authHeader = headers.authorization ?? headers.Authorization;
-      if (!authHeader?.toString().startsWith('Bearer ')) return undefined;
-
-      const token = authHeader.toString().substring(7);
-      const parts = token.split('.');
-      if (parts.length < 2) return undefined;
-      const payloadJson = Buffer.from(parts[1], 'base64').toString('utf8');
-      const payload = JSON.parse(payloadJson);
-      return payload.sub || payload.userId || payload.id;
-    } catch {
-      return undefined;
-    }
-  }
-
-  private normalizeHeaders(headers: Request['headers']): Record<string, string> {
-    const normalized: Record<string, string> = {};
-    Object.entries(headers || {}).forEach(([key, value]) => {
-      if (value === undefined) {
-        return;
-      }
-      if (Array.isArray(value)) {
-        normalized[key.toLowerCase()] = value.join(', ');
-      } else {
-        normalized[key.toLowerCase()] = value.toString();
-      }
-    });
-    return normalized;
-  }
-
   private extractRequestContext(request: Request): Record<string, any> | undefined {
     const context: Record<string, any> = {};
     const authValidation = (request as any)['authValidation'];
@@ -0,0 +1,31 @@
+import { parsePreferredWait } from './request-context.util';
+
+describe('parsePreferredWait', () => {
+  it('is undefined without the header', () => {
+    expect(parsePreferredWait(undefined)).toBeUndefined();
+    expect(parsePreferredWait('')).toBeUndefined();
+  });
+
+  it('is undefined when there is no wait preference', () => {
+    expect(parsePreferredWait('respond-async')).toBeUndefined();
+    expect(parsePreferredWait('return=minimal, wait')).toBeUndefined();
+  });
+
+  it('reads the wait among other preferences', () => {
+    expect(parsePreferredWait('wait=10')).toBe(10);
+    expect(parsePreferredWait('respond-async, WAIT = 5')).toBe(5);
+    expect(parsePreferredWait('wait="7"')).toBe(7);
+  });
+
+  it('reads repeated headers', () => {
+    expect(parsePreferredWait(['return=minimal', 'wait=3'])).toBe(3);
+  });
+
+  it('uses the first wait preference', () => {
+    expect(parsePreferredWait('wait=2, wait=9')).toBe(2);
+  });
+
+  it.each(['wait=abc', 'wait=0', 'wait=-4'])('is 0 for %p', (header) => {
+    expect(parsePreferredWait(header)).toBe(0);
+  });
+});
@@ -0,0 +1,96 @@
+import type { IncomingHttpHeaders } from 'http';
+
+/** Lower-cased header map with multi-value headers joined, as stored in JobData */
+export function normalizeHeaders(
+  headers: IncomingHttpHeaders | undefined,
+): Record<string, string> {
+  const normalized: Record<string, string> = {};
+  Object.entries(headers || {}).forEach(([key, value]) => {
+    if (value === undefined) {
+      return;
+    }
+    normalized[key.toLowerCase()] = Array.isArray(value)
+      ? value.join(', ')
+      : value.toString();
+  });
+  return normalized;
+}
+
+/**
+ * User id of a token the gateway verified (`authValidation`, set by
+ * JwtAuthGuard or RateLimitGuard). Undefined for anonymous requests: an
+ * unverified token must not decide who owns a job
+ */
+export function verifiedUserId(authValidation: unknown): string | undefined {
+  const id = (authValidation as { user?: { id?: unknown } } | undefined)?.user
+    ?.id;
+  return typeof id === 'string' && id ? id : undefined;
+}
+
+/** Upper-cased roles (`role` and `roles`) from the Bearer token payload, unverified */
+export function extractUserRoles(
+  headers: IncomingHttpHeaders | Record<string, string>,
+): string[] {
+  return rolesOf(decodeTokenPayload(headers));
+}
+
+/** Upper-cased roles (`role` and `roles`) of a token payload */
+export function rolesOf(
+  payload: { role?: unknown; roles?: unknown } | undefined,
+): string[] {
+  const roles = [
+    payload?.role,
+    ...(Array.isArray(payload?.roles) ? (payload.roles as unknown[]) : []),
+  ];
+  return [
+    ...new Set(
+      roles
+        .filter((role): role is string => typeof role === 'string')
+        .map((role) => role.toUpperCase()),
+    ),
+  ];
+}
+
+function decodeTokenPayload(
+  headers: IncomingHttpHeaders | Record<string, string>,
+): Record<string, any> | undefined {
+  try {
+    const authHeader = headers.authorization ?? headers.Authorization;
+    if (!authHeader?.toString().startsWith('Bearer ')) return undefined;
+
+    const token = authHeader.toString().substring(7);
+    const parts = token.split('.');
+    if (parts.length < 2) return undefined;
+    return JSON.parse(
+      Buffer.from(parts[1], 'base64').toString('utf8'),
+    ) as Record<string, any>;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Seconds asked for with `Prefer: wait=N` (RFC 7240); undefined when the
+ * header has no wait preference and 0 when the value is not valid
+ */
+export function parsePreferredWait(
+  header: string | string[] | undefined,
+): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const preferences = (Array.isArray(header) ? header.join(',') : header).split(
+    ',',
+  );
+  for (const preference of preferences) {
+    const [name, value] = preference.split('=').map((part) => part.trim());
+    if (name.toLowerCase() !== 'wait' || !value) {
+      continue;
+    }
+    const seconds = parseInt(value.replace(/"/g, ''), 10);
+    return Number.isNaN(seconds) || seconds <= 0 ? 0 : seconds;
+  }
+
+  return undefined;
+}
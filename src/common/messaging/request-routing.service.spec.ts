@@ -0,0 +1,94 @@
+import { Controller, Delete, Get, Patch } from '@nestjs/common';
+import { DiscoveryService, MetadataScanner, Reflector } from '@nestjs/core';
+import { AsyncRoute } from '../decorators/async-route.decorator';
+import { QueueConfigService } from '../interceptors/queue-config.service';
+import { RequestRoutingService } from './request-routing.service';
+
+@Controller('courses')
+class CoursesController {
+  @Get(':id')
+  @AsyncRoute('courses.findOne')
+  findOne() {}
+
+  @Get('stats')
+  @AsyncRoute('courses.stats')
+  stats() {}
+
+  @Patch(':id')
+  @AsyncRoute('courses.update')
+  update() {}
+
+  @Delete(':courseId/students/:studentId')
+  @AsyncRoute('courses.removeStudent')
+  removeStudent() {}
+}
+
+describe('RequestRoutingService', () => {
+  let service: RequestRoutingService;
+
+  beforeEach(() => {
+    const discovery = {
+      getControllers: () => [{ metatype: CoursesController }],
+    } as unknown as DiscoveryService;
+    const queueConfig = {
+      shouldExcludeFromQueue: () => false,
+    } as unknown as QueueConfigService;
+
+    service = new RequestRoutingService(
+      discovery,
+      new MetadataScanner(),
+      new Reflector(),
+      queueConfig,
+    );
+    service.onModuleInit();
+  });
+
+  describe('match', () => {
+    it('matches by method and extracts the params of the template', () => {
+      const match = service.match('patch', '/courses/42');
+
+      expect(match?.route.pattern).toBe('courses.update');
+      expect(match?.params).toEqual({ id: '42' });
+    });
+
+    it('prefers static segments over params', () => {
+      expect(service.match('GET', '/courses/stats')?.route.pattern).toBe(
+        'courses.stats',
+      );
+      expect(service.match('GET', '/courses/7')?.route.pattern).toBe(
+        'courses.findOne',
+      );
+    });
+
+    it('extracts several params', () => {
+      const match = service.match('DELETE', '/courses/c1/students/s2');
+
+      expect(match?.params).toEqual({ courseId: 'c1', studentId: 's2' });
+    });
+
+    it('ignores the query string and a trailing slash', () => {
+      const match = service.match('GET', '/courses/42/?include=students');
+
+      expect(match?.route.pattern).toBe('courses.findOne');
+      expect(match?.params).toEqual({ id: '42' });
+    });
+
+    it('decodes the params', () => {
+      expect(service.match('GET', '/courses/caf%C3%A9%20b')?.params).toEqual({
+        id: 'café b',
+      });
+    });
+
+    it('keeps malformed escapes as sent', () => {
+      expect(service.match('GET', '/courses/%E0%A4%A')?.params).toEqual({
+        id: '%E0%A4%A',
+      });
+    });
+
+    it('is null without a route for the method and path', () => {
+      expect(service.match('POST', '/courses/42')).toBeNull();
+      expect(service.match('GET', '/courses/42/extra')).toBeNull();
+      expect(service.match('GET', '/teachers/42')).toBeNull();
+    });
+  });
+});
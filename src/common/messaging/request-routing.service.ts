@@ -1,421 +1,308 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { JobData, JobMessageMetadata } from '../interceptors/interfaces/job-data.interface';
+import { Injectable, Logger, OnModuleInit, RequestMethod, Type } from '@nestjs/common';
+import { METHOD_METADATA, PATH_METADATA } from '@nestjs/common/constants';
+import { DiscoveryService, MetadataScanner, Reflector } from '@nestjs/core';
+import { JobCompletionMode, JobData, JobMessageMetadata } from '../interceptors/interfaces/job-data.interface';
+import { QueueConfigService } from '../interceptors/queue-config.service';
+import {
+  ASYNC_ROUTE_KEY,
+  AsyncRouteMetadata,
+  SKIP_ASYNC_ROUTE_KEY,
+} from '../decorators/async-route.decorator';
+import { RoutePayloadBuilder, defaultPayloadFor } from './utils/route-payload.util';
+import { RetryPolicy } from '../workers/interfaces/retry-policy.interface';
 
 export interface RouteResolution {
   message: JobMessageMetadata;
   payload: any;
+  retry?: RetryPolicy;
 }
 
-interface RouteConfig {
+export interface RouteConfig {
   method: string;
   path: string;
   pattern: string;
   completionEvent?: string;
-  buildPayload: (job: JobData) => any;
+  completion?: JobCompletionMode;
+  progressEvent?: string;
+  completionTimeout?: number;
+  retry?: RetryPolicy;
+  buildPayload: RoutePayloadBuilder;
+  /** Controller handler that declared the route, e.g. `CoursesController.update` */
+  handler: string;
+  /** Controller class and method name of the handler, to run its guards and pipes */
+  controller: Type<any>;
+  methodName: string;
 }
 
+export interface RouteMatch {
+  route: RouteConfig;
+  /** Route params extracted from the matched template */
+  params: Record<string, string>;
+}
+
+export interface RouteExplanation {
+  method: string;
+  path: string;
+  route: Omit<RouteConfig, 'buildPayload' | 'controller' | 'methodName'> | null;
+  /** Route params extracted from the matched template */
+  params: Record<string, string>;
+  message?: JobMessageMetadata;
+  payload?: any;
+  error?: string;
+}
+
+/**
+ * Resolves queued HTTP jobs to NATS messages. The routing table is built at
+ * startup from the `@AsyncRoute()` metadata on controller handlers.
+ */
 @Injectable()
-export class RequestRoutingService {
+export class RequestRoutingService implements OnModuleInit {
   private readonly logger = new Logger(RequestRoutingService.name);
 
-  private readonly routes: RouteConfig[] = [
-    // ===== Enrollments =====
-    ...this.buildEnrollmentRoutes(),
-    // ===== Programs =====
-    { method: 'POST', path: '/degree-programs', pattern: 'programs.degreePrograms.create', buildPayload: (job) => job.data ?? {} },
-    { method: 'GET', path: '/degree-programs', pattern: 'programs.degreePrograms.list', buildPayload: (job) => job.queryParams ?? {} },
-    { method: 'GET', path: '/degree-programs/:id', pattern: 'programs.degreePrograms.findOne', buildPayload: (job) => this.requireParam(job, 'id') },
-    {
-      method: 'PATCH',
-      path: '/degree-programs/:id',
-      pattern: 'programs.degreePrograms.update',
-      buildPayload: (job) => ({
-        id: this.requireParam(job, 'id'),
-        updateDegreeProgramDto: job.data ?? {},
-      }),
-    },
-    { method: 'DELETE', path: '/degree-programs/:id', pattern: 'programs.degreePrograms.remove', buildPayload: (job) => this.requireParam(job, 'id') },
-    { method: 'POST', path: '/study-plans', pattern: 'programs.studyPlans.create', buildPayload: (job) => job.data ?? {} },
-    { method: 'GET', path: '/study-plans', pattern: 'programs.studyPlans.list', buildPayload: (job) => job.queryParams ?? {} },
-    { method: 'GET', path: '/study-plans/:id', pattern: 'programs.studyPlans.findOne', buildPayload: (job) => this.requireParam(job, 'id') },
-    {
-      method: 'PATCH',
-      path: '/study-plans/:id',
-      pattern: 'programs.studyPlans.update',
-      buildPayload: (job) => ({
-        id: this.requireParam(job, 'id'),
-        updateStudyPlanDto: job.data ?? {},
-      }),
-    },
-    { method: 'DELETE', path: '/study-plans/:id', pattern: 'programs.studyPlans.remove', buildPayload: (job) => this.requireParam(job, 'id') },
-    { method: 'POST', path: '/levels', pattern: 'programs.levels.create', buildPayload: (job) => job.data ?? {} },
-    { method: 'GET', path: '/levels', pattern: 'programs.levels.list', buildPayload: (job) => job.queryParams ?? {} },
-    { method: 'GET', path: '/levels/:id', pattern: 'programs.levels.findOne', buildPayload: (job) => this.requireParam(job, 'id') },
-    {
-      method: 'PATCH',
-      path: '/levels/:id',
-      pattern: 'programs.levels.update',
-      buildPayload: (job) => ({
-        id: this.requireParam(job, 'id'),
-        updateLevelDto: job.data ?? {},
-      }),
-    },
-    { method: 'DELETE', path: '/levels/:id', pattern: 'programs.levels.remove', buildPayload: (job) => this.requireParam(job, 'id') },
-    { method: 'POST', path: '/courses', pattern: 'programs.courses.create', buildPayload: (job) => job.data ?? {} },
-    { method: 'GET', path: '/courses', pattern: 'programs.courses.list', buildPayload: (job) => job.queryParams ?? {} },
-    { method: 'GET', path: '/courses/:id', pattern: 'programs.courses.findOne', buildPayload: (job) => this.requireParam(job, 'id') },
-    {
-      method: 'PATCH',
-      path: '/courses/:id',
-      pattern: 'programs.courses.update',
-      buildPayload: (job) => ({
-        id: this.requireParam(job, 'id'),
-        updateCourseDto: job.data ?? {},
-      }),
-    },
-    { method: 'DELETE', path: '/courses/:id', pattern: 'programs.courses.remove', buildPayload: (job) => this.requireParam(job, 'id') },
-    { method: 'POST', path: '/prerequisites', pattern: 'programs.prerequisites.create', buildPayload: (job) => job.data ?? {} },
-    { method: 'GET', path: '/prerequisites', pattern: 'programs.prerequisites.list', buildPayload: (job) => job.queryParams ?? {} },
-    { method: 'GET', path: '/prerequisites/:id', pattern: 'programs.prerequisites.findOne', buildPayload: (job) => this.requireParam(job, 'id') },
-    {
-      method: 'PATCH',
-      path: '/prerequisites/:id',
-      pattern: 'programs.prerequisites.update',
-      buildPayload: (job) => ({
-        id: this.requireParam(job, 'id'),
-        updatePrerequisiteDto: job.data ?? {},
-      }),
-    },
-    { method: 'DELETE', path: '/prerequisites/:id', pattern: 'programs.prerequisites.remove', buildPayload: (job) => this.requireParam(job, 'id') },
-
-    // ===== Calendar =====
-    { method: 'POST', path: '/academic-years', pattern: 'calendar.academicYears.create', buildPayload: (job) => job.data ?? {} },
-    { method: 'GET', path: '/academic-years', pattern: 'calendar.academicYears.list', buildPayload: (job) => job.queryParams ?? {} },
-    { method: 'GET', path: '/academic-years/:id', pattern: 'calendar.academicYears.findOne', buildPayload: (job) => this.requireParam(job, 'id') },
-    {
-      method: 'PATCH',
-      path: '/academic-years/:id',
-      pattern: 'calendar.academicYears.update',
-      buildPayload: (job) => ({
-        id: this.requireParam(job, 'id'),
-        updateAcademicYearDto: job.data ?? {},
-      }),
-    },
-    { method: 'DELETE', path: '/academic-years/:id', pattern: 'calendar.academicYears.remove', buildPayload: (job) => this.requireParam(job, 'id') },
-    { method: 'POST', path: '/terms', pattern: 'calendar.terms.create', buildPayload: (job) => job.data ?? {} },
-    { method: 'GET', path: '/terms', pattern: 'calendar.terms.list', buildPayload: (job) => job.queryParams ?? {} },
-    { method: 'GET', path: '/terms/:id', pattern: 'calendar.terms.findOne', buildPayload: (job) => this.requireParam(job, 'id') },
-    {
-      method: 'PATCH',
-      path: '/terms/:id',
-      pattern: 'calendar.terms.update',
-      buildPayload: (job) => ({
-        id: this.requireParam(job, 'id'),
-        updateTermDto: job.data ?? {},
-      }),
-    },
-    { method: 'DELETE', path: '/terms/:id', pattern: 'calendar.terms.remove', buildPayload: (job) => this.requireParam(job, 'id') },
-    { method: 'POST', path: '/calendar/managements', pattern: 'calendar.academicYears.create', buildPayload: (job) => job.data ?? {} },
-    { method: 'GET', path: '/calendar/managements', pattern: 'calendar.academicYears.list', buildPayload: (job) => job.queryParams ?? {} },
-    { method: 'GET', path: '/calendar/managements/:id', pattern: 'calendar.academicYears.findOne', buildPayload: (job) => this.requireParam(job, 'id') },
-    {
-      method: 'PATCH',
-      path: '/calendar/managements/:id',
-      pattern: 'calendar.academicYears.update',
-      buildPayload: (job) => ({
-        id: this.requireParam(job, 'id'),
-        updateAcademicYearDto: job.data ?? {},
-      }),
-    },
-    { method: 'DELETE', path: '/calendar/managements/:id', pattern: 'calendar.academicYears.remove', buildPayload: (job) => this.requireParam(job, 'id') },
-    { method: 'POST', path: '/calendar/periods', pattern: 'calendar.terms.create', buildPayload: (job) => job.data ?? {} },
-    { method: 'GET', path: '/calendar/periods', pattern: 'calendar.terms.list', buildPayload: (job) => job.queryParams ?? {} },
-    { method: 'GET', path: '/calendar/periods/:id', pattern: 'calendar.terms.findOne', buildPayload: (job) => this.requireParam(job, 'id') },
-    {
-      method: 'PATCH',
-      path: '/calendar/periods/:id',
-      pattern: 'calendar.terms.update',
-      buildPayload: (job) => ({
-        id: this.requireParam(job, 'id'),
-        updateTermDto: job.data ?? {},
-      }),
-    },
-    { method: 'DELETE', path: '/calendar/periods/:id', pattern: 'calendar.terms.remove', buildPayload: (job) => this.requireParam(job, 'id') },
-    // ===== Facilities =====
-    { method: 'POST', path: '/classrooms', pattern: 'facilities.classrooms.create', buildPayload: (job) => job.data ?? {} },
-    { method: 'GET', path: '/classrooms', pattern: 'facilities.classrooms.list', buildPayload: (job) => job.queryParams ?? {} },
-    { method: 'GET', path: '/classrooms/:id', pattern: 'facilities.classrooms.findOne', buildPayload: (job) => this.requireParam(job, 'id') },
-    {
-      method: 'PATCH',
-      path: '/classrooms/:id',
-      pattern: 'facilities.classrooms.update',
-      buildPayload: (job) => ({
-        id: this.requireParam(job, 'id'),
-        updateClassroomDto: job.data ?? {},
-      }),
-    },
-    { method: 'DELETE', path: '/classrooms/:id', pattern: 'facilities.classrooms.remove', buildPayload: (job) => this.requireParam(job, 'id') },
-
-    // ===== Teaching =====
-    { method: 'POST', path: '/course-sections', pattern: 'teaching.courseSections.create', buildPayload: (job) => job.data ?? {} },
-    { method: 'GET', path: '/course-sections', pattern: 'teaching.courseSections.list', buildPayload: (job) => job.queryParams ?? {} },
-    { method: 'GET', path: '/course-sections/:id', pattern: 'teaching.courseSections.findOne', buildPayload: (job) => this.requireParam(job, 'id') },
-    {
-      method: 'PATCH',
-      path: '/course-sections/:id',
-      pattern: 'teaching.courseSections.update',
-      buildPayload: (job) => ({
-        id: this.requireParam(job, 'id'),
-        updateCourseSectionDto: job.data ?? {},
-      }),
-    },
-    { method: 'DELETE', path: '/course-sections/:id', pattern: 'teaching.courseSections.remove', buildPayload: (job) => this.requireParam(job, 'id') },
-    { method: 'POST', path: '/schedules', pattern: 'teaching.schedules.create', buildPayload: (job) => job.data ?? {} },
-    { method: 'GET', path: '/schedules', pattern: 'teaching.schedules.list', buildPayload: (job) => job.queryParams ?? {} },
-    { method: 'GET', path: '/schedules/:id', pattern: 'teaching.schedules.findOne', buildPayload: (job) => this.requireParam(job, 'id') },
-    {
-      method: 'PATCH',
-      path: '/schedules/:id',
-      pattern: 'teaching.schedules.update',
-      buildPayload: (job) => ({
-        id: this.requireParam(job, 'id'),
-        updateScheduleDto: job.data ?? {},
-      }),
-    },
-    { method: 'DELETE', path: '/schedules/:id', pattern: 'teaching.schedules.remove', buildPayload: (job) => this.requireParam(job, 'id') },
-
-    // ===== Assessments =====
-    { method: 'POST', path: '/grades', pattern: 'grades.create', buildPayload: (job) => job.data ?? {} },
-    { method: 'GET', path: '/grades', pattern: 'grades.list', buildPayload: (job) => job.queryParams ?? {} },
-    { method: 'GET', path: '/grades/:id', pattern: 'grades.findOne', buildPayload: (job) => this.requireParam(job, 'id') },
-    {
-      method: 'PATCH',
-      path: '/grades/:id',
-      pattern: 'grades.update',
-      buildPayload: (job) => ({
-        id: this.requireParam(job, 'id'),
-        updateGradeDto: job.data ?? {},
-      }),
-    },
-    { method: 'DELETE', path: '/grades/:id', pattern: 'grades.remove', buildPayload: (job) => this.requireParam(job, 'id') },
-
-    // ===== Auth =====
-    { method: 'POST', path: '/auth/register', pattern: 'auth.register', buildPayload: (job) => job.data ?? {} },
-    { method: 'POST', path: '/auth/login', pattern: 'auth.login', buildPayload: (job) => job.data ?? {} },
-    { method: 'GET', path: '/auth/users', pattern: 'auth.get-users', buildPayload: () => ({}) },
-    {
-      method: 'PATCH',
-      path: '/auth/update-user',
-      pattern: 'auth.update-user',
-      buildPayload: (job) => ({
-        userId: this.requireUserId(job),
-        updateUserDto: job.data ?? {},
-      }),
-    },
-    {
-      method: 'PUT',
-      path: '/auth/change-password',
-      pattern: 'auth.change-password',
-      buildPayload: (job) => ({
-        userId: this.requireUserId(job),
-        changePasswordDto: job.data ?? {},
-      }),
-    },
-    {
-      method: 'POST',
-      path: '/auth/logout',
-      pattern: 'auth.logout',
-      buildPayload: (job) => {
-        const validation = this.requireAuthValidation(job);
-        return {
-          jti: validation.user?.jti ?? validation.user?.tokenId,
-          exp: validation.user?.exp,
-        };
-      },
-    },
-    {
-      method: 'POST',
-      path: '/auth/logout-all',
-      pattern: 'auth.logout-all',
-      buildPayload: (job) => ({ userId: this.requireUserId(job) }),
-    },
-  ];
-
-  private buildEnrollmentRoutes(): RouteConfig[] {
-    return [
-      { method: 'POST', path: '/enrollments', pattern: 'enrollments.create', buildPayload: (job) => job.data ?? {} },
-      { method: 'GET', path: '/enrollments', pattern: 'enrollments.list', buildPayload: (job) => job.queryParams ?? {} },
-      { method: 'GET', path: '/enrollments/:id', pattern: 'enrollments.findOne', buildPayload: (job) => this.requireParam(job, 'id') },
-      {
-        method: 'PATCH',
-        path: '/enrollments/:id',
-        pattern: 'enrollments.update',
-        buildPayload: (job) => ({ id: this.requireParam(job, 'id'), updateEnrollmentDto: job.data ?? {} }),
-      },
-      { method: 'DELETE', path: '/enrollments/:id', pattern: 'enrollments.remove', buildPayload: (job) => this.requireParam(job, 'id') },
-      { method: 'POST', path: '/enrollment-details', pattern: 'enrollment-details.create', buildPayload: (job) => job.data ?? {} },
-      { method: 'GET', path: '/enrollment-details', pattern: 'enrollment-details.list', buildPayload: (job) => job.queryParams ?? {} },
-      { method: 'GET', path: '/enrollment-details/:id', pattern: 'enrollment-details.findOne', buildPayload: (job) => this.requireParam(job, 'id') },
-      {
-        method: 'PATCH',
-        path: '/enrollment-details/:id',
-        pattern: 'enrollment-details.update',
-        buildPayload: (job) => ({ id: this.requireParam(job, 'id'), updateEnrollmentDetailDto: job.data ?? {} }),
-      },
-      { method: 'DELETE', path: '/enrollment-details/:id', pattern: 'enrollment-details.remove', buildPayload: (job) => this.requireParam(job, 'id') },
-      {
-        method: 'GET',
-        path: '/academic-validations/prerequisites/check',
-        pattern: 'enrollments.academic.checkPrerequisites',
-        buildPayload: (job) => ({
-          studentId: this.requireQuery(job, 'studentId'),
-          courseId: this.requireQuery(job, 'courseId'),
-        }),
-      },
-      {
-        method: 'GET',
-        path: '/academic-validations/enrollment/validate',
-        pattern: 'enrollments.academic.validateEnrollment',
-        buildPayload: (job) => ({
-          studentId: this.requireQuery(job, 'studentId'),
-          courseSectionId: this.requireQuery(job, 'courseSectionId'),
-          termId: this.requireQuery(job, 'termId'),
-        }),
-      },
-      {
-        method: 'GET',
-        path: '/students/recommended-courses',
-        pattern: 'enrollments.students.recommendedCourses',
-        buildPayload: (job) => {
-          const studentIdRaw = job.queryParams?.studentId;
-          const studentCodeRaw = job.queryParams?.studentCode;
-          const studentId = Array.isArray(studentIdRaw) ? studentIdRaw[0] : studentIdRaw;
-          const studentCode = Array.isArray(studentCodeRaw) ? studentCodeRaw[0] : studentCodeRaw;
-          const normalizedStudentId = typeof studentId === 'string' && studentId.trim().length > 0 ? studentId.trim() : undefined;
-          const normalizedStudentCode = typeof studentCode === 'string' && studentCode.trim().length > 0 ? studentCode.trim() : undefined;
-          if (!normalizedStudentId && !normalizedStudentCode) {
-            throw new Error('Provide studentId or studentCode');
-          }
-          return {
-            studentId: normalizedStudentId,
-            studentCode: normalizedStudentCode,
-          };
-        },
-      },
-      {
-        method: 'POST',
-        path: '/atomic-enrollment/enroll',
-        pattern: 'enrollments.atomic.enroll',
-        buildPayload: (job) => ({
-          data: job.data ?? {},
-          idempotencyKey: this.requireHeader(job, 'x-idempotency-key'),
-        }),
-      },
-      {
-        method: 'POST',
-        path: '/atomic-enrollment/enroll/batch',
-        pattern: 'enrollments.atomic.enrollBatch',
-        buildPayload: (job) => ({
-          data: job.data ?? {},
-          idempotencyKey: this.requireHeader(job, 'x-idempotency-key'),
-        }),
-      },
-      {
-        method: 'GET',
-        path: '/atomic-enrollment/course-section/:id/quota-status',
-        pattern: 'enrollments.atomic.quotaStatus',
-        buildPayload: (job) => ({ courseSectionId: this.requireParam(job, 'id') }),
-      },
-      { method: 'GET', path: '/atomic-enrollment/idempotency/stats', pattern: 'enrollments.atomic.idempotencyStats', buildPayload: () => ({}) },
-      { method: 'GET', path: '/database-performance/prerequisites', pattern: 'enrollments.performance.prerequisites', buildPayload: (job) => ({ courseId: this.requireQuery(job, 'courseId') }) },
-      {
-        method: 'GET',
-        path: '/database-performance/approved-courses',
-        pattern: 'enrollments.performance.approvedCourses',
-        buildPayload: (job) => ({
-          studentId: this.requireQuery(job, 'studentId'),
-          courseIds: this.requireQuery(job, 'courseIds'),
-        }),
-      },
-      {
-        method: 'GET',
-        path: '/database-performance/schedules',
-        pattern: 'enrollments.performance.schedules',
-        buildPayload: (job) => ({ courseSectionIds: this.requireQuery(job, 'courseSectionIds') }),
-      },
-      {
-        method: 'GET',
-        path: '/database-performance/enrollment-count',
-        pattern: 'enrollments.performance.enrollmentCount',
-        buildPayload: (job) => ({
-          studentId: this.requireQuery(job, 'studentId'),
-          termId: this.requireQuery(job, 'termId'),
-        }),
-      },
-      {
-        method: 'GET',
-        path: '/database-performance/batch-prerequisites',
-        pattern: 'enrollments.performance.batchPrerequisites',
-        buildPayload: (job) => ({
-          studentId: this.requireQuery(job, 'studentId'),
-          courseIds: this.requireQuery(job, 'courseIds'),
-        }),
-      },
-      {
-        method: 'GET',
-        path: '/database-performance/has-passed',
-        pattern: 'enrollments.performance.hasPassed',
-        buildPayload: (job) => ({
-          studentId: this.requireQuery(job, 'studentId'),
-          courseId: this.requireQuery(job, 'courseId'),
-        }),
-      },
-      {
-        method: 'GET',
-        path: '/database-performance/student-enrollment-details',
-        pattern: 'enrollments.performance.studentEnrollmentDetails',
-        buildPayload: (job) => ({
-          studentId: this.requireQuery(job, 'studentId'),
-          termId: this.requireQuery(job, 'termId'),
-        }),
-      },
-    ];
+  private routes: RouteConfig[] = [];
+
+  constructor(
+    private readonly discoveryService: DiscoveryService,
+    private readonly metadataScanner: MetadataScanner,
+    private readonly reflector: Reflector,
+    private readonly queueConfigService: QueueConfigService,
+  ) {}
+
+  onModuleInit() {
+    const { routes, unmapped } = this.discoverRoutes();
+
+    // Rutas estáticas primero para que '/x/stats' gane sobre '/x/:id'
+    this.routes = routes.sort((a, b) => this.countParams(a.path) - this.countParams(b.path));
+    this.logger.log(`Registered ${this.routes.length} async routes from controller metadata`);
+
+    if (unmapped.length > 0) {
+      this.reportUnmappedRoutes(unmapped);
+    }
+  }
+
+  getRoutes(): RouteConfig[] {
+    return [...this.routes];
+  }
+
+  /** Route that would handle `method url`, with the params taken from its template */
+  match(method: string, url: string): RouteMatch | null {
+    const path = this.normalizePath(url);
+    const route = this.findRoute(method.toUpperCase(), path);
+    return route ? { route, params: this.extractParams(route.path, path) } : null;
+  }
+
+  /** First route dispatched to the given NATS pattern */
+  findByPattern(pattern: string): RouteConfig | null {
+    return this.routes.find((route) => route.pattern === pattern) ?? null;
   }
 
   resolve(job: JobData): RouteResolution | null {
     const method = job.method.toUpperCase();
     const path = this.normalizePath(job.url);
 
-    for (const route of this.routes) {
-      if (route.method !== method) {
-        continue;
+    const route = this.findRoute(method, path);
+    if (!route) {
+      this.logger.warn(`No async routing rule registered for '${method} ${path}'`);
+      return null;
+    }
+
+    try {
+      const payload = route.buildPayload(job);
+      if (payload === undefined) {
+        this.logger.warn(`Route '${method} ${path}' matched but payload builder returned undefined`);
+        return null;
       }
 
-      if (!this.matchPath(route.path, path)) {
+      return { message: this.messageFor(route), payload, retry: route.retry };
+    } catch (error: any) {
+      this.logger.error(`Failed to build payload for route '${method} ${path}': ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Dry-run of resolve(): reports the matched route, the params taken from
+   * its template and the payload it would send (or why it could not)
+   */
+  explain(job: JobData): RouteExplanation {
+    const method = job.method.toUpperCase();
+    const path = this.normalizePath(job.url);
+    const route = this.findRoute(method, path);
+
+    if (!route) {
+      return {
+        method,
+        path,
+        route: null,
+        params: {},
+        error: 'No @AsyncRoute() mapping for this method and path; the request is processed synchronously',
+      };
+    }
+
+    const { buildPayload, controller, methodName, ...summary } = route;
+    const params = { ...this.extractParams(route.path, path), ...(job.params ?? {}) };
+    const explanation: RouteExplanation = {
+      method,
+      path,
+      route: { ...summary, completionEvent: route.completionEvent ?? `${route.pattern}.completed` },
+      params,
+    };
+
+    try {
+      const payload = buildPayload({ ...job, params });
+      if (payload === undefined) {
+        explanation.error = 'Payload builder returned undefined';
+        return explanation;
+      }
+      explanation.message = this.messageFor(route);
+      explanation.payload = payload;
+    } catch (error: any) {
+      explanation.error = `Failed to build payload: ${error.message}`;
+    }
+
+    return explanation;
+  }
+
+  /** Message metadata of the jobs dispatched to a route */
+  messageFor(route: RouteConfig): JobMessageMetadata {
+    const message: JobMessageMetadata = {
+      pattern: route.pattern,
+      completionEvent: route.completionEvent ?? `${route.pattern}.completed`,
+    };
+    if (route.completion === 'event') {
+      message.completion = 'event';
+      message.progressEvent = route.progressEvent ?? `${route.pattern}.progress`;
+      if (route.completionTimeout) {
+        message.completionTimeout = route.completionTimeout;
+      }
+    }
+    return message;
+  }
+
+  private findRoute(method: string, path: string): RouteConfig | undefined {
+    return this.routes.find((route) => route.method === method && this.matchPath(route.path, path));
+  }
+
+  private discoverRoutes(): { routes: RouteConfig[]; unmapped: string[] } {
+    const routes: RouteConfig[] = [];
+    const unmapped: string[] = [];
+    const seen = new Map<string, string>();
+
+    for (const wrapper of this.discoveryService.getControllers()) {
+      const { metatype } = wrapper;
+      if (!metatype || !metatype.prototype) {
         continue;
       }
 
-      try {
-        const payload = route.buildPayload(job);
-        if (payload === undefined) {
-          this.logger.warn(`Route '${method} ${path}' matched but payload builder returned undefined`);
-          return null;
+      const controllerPaths = this.toPaths(this.reflector.get(PATH_METADATA, metatype));
+      const controllerSkipped = this.reflector.get<boolean>(SKIP_ASYNC_ROUTE_KEY, metatype) === true;
+      const prototype = metatype.prototype;
+
+      for (const methodName of this.metadataScanner.getAllMethodNames(prototype)) {
+        const handler = prototype[methodName];
+        const requestMethod = this.reflector.get<RequestMethod>(METHOD_METADATA, handler);
+        if (requestMethod === undefined) {
+          continue;
         }
 
-        const message: JobMessageMetadata = {
-          pattern: route.pattern,
-          completionEvent: route.completionEvent ?? `${route.pattern}.completed`,
-        };
+        const method = RequestMethod[requestMethod];
+        const handlerName = `${metatype.name}.${methodName}`;
+        const asyncRoute = this.reflector.get<AsyncRouteMetadata>(ASYNC_ROUTE_KEY, handler);
+        const skipped =
+          controllerSkipped || this.reflector.get<boolean>(SKIP_ASYNC_ROUTE_KEY, handler) === true;
 
-        return { message, payload };
-      } catch (error: any) {
-        this.logger.error(`Failed to build payload for route '${method} ${path}': ${error.message}`);
-        return null;
+        for (const controllerPath of controllerPaths) {
+          for (const methodPath of this.toPaths(this.reflector.get(PATH_METADATA, handler))) {
+            const path = this.joinPaths(controllerPath, methodPath);
+
+            if (!asyncRoute) {
+              if (!skipped && !this.queueConfigService.shouldExcludeFromQueue(path)) {
+                unmapped.push(`${method} ${path} (${handlerName})`);
+              }
+              continue;
+            }
+
+            const key = `${method} ${path}`;
+            const previous = seen.get(key);
+            if (previous) {
+              this.logger.warn(`Async route '${key}' declared by ${handlerName} is already mapped by ${previous}; ignoring`);
+              continue;
+            }
+            seen.set(key, handlerName);
+
+            routes.push({
+              method,
+              path,
+              pattern: asyncRoute.pattern,
+              completionEvent: asyncRoute.completionEvent,
+              completion: asyncRoute.completion,
+              progressEvent: asyncRoute.progressEvent,
+              completionTimeout: asyncRoute.completionTimeout,
+              retry: asyncRoute.retry,
+              buildPayload: asyncRoute.payload ?? defaultPayloadFor(method),
+              handler: handlerName,
+              controller: metatype as Type<any>,
+              methodName,
+            });
+          }
+        }
       }
     }
 
-    this.logger.warn(`No async routing rule registered for '${method} ${path}'`);
-    return null;
+    return { routes, unmapped };
+  }
+
+  private reportUnmappedRoutes(unmapped: string[]) {
+    const message =
+      `${unmapped.length} queueable route(s) have no @AsyncRoute() mapping and will be answered synchronously:\n  ` +
+      unmapped.join('\n  ');
+
+    if (process.env.QUEUE_ROUTES_STRICT === 'true') {
+      throw new Error(message);
+    }
+    this.logger.warn(message);
+  }
+
+  private toPaths(metadata: string | string[] | undefined): string[] {
+    if (metadata === undefined) {
+      return ['/'];
+    }
+    return Array.isArray(metadata) ? metadata : [metadata];
+  }
+
+  private joinPaths(...parts: string[]): string {
+    const joined = parts
+      .map((part) => part.replace(/^\/+|\/+$/g, ''))
+      .filter(Boolean)
+      .join('/');
+    return `/${joined}`;
+  }
+
+  private countParams(path: string): number {
+    return path.split('/').filter((segment) => segment.startsWith(':') || segment === '*').length;
+  }
+
+  private extractParams(template: string, actual: string): Record<string, string> {
+    const templateSegments = template.split('/').filter(Boolean);
+    const actualSegments = actual.split('/').filter(Boolean);
+    const params: Record<string, string> = {};
+
+    templateSegments.forEach((segment, i) => {
+      if (segment.startsWith(':')) {
+        params[segment.slice(1)] = this.decodeSegment(actualSegments[i]);
+      }
+    });
+
+    return params;
+  }
+
+  /** Malformed escapes (`%E0%A4%A`) are kept as sent instead of throwing URIError */
+  private decodeSegment(segment: string): string {
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      return segment;
+    }
   }
 
   private normalizePath(url: string): string {
@@ -458,51 +345,4 @@ export class RequestRoutingService {
 
     return true;
   }
-
-  private requireParam(job: JobData, param: string): string {
-    const value = job.params?.[param];
-    if (!value) {
-      throw new Error(`Missing route param '${param}'`);
-    }
-    return value;
-  }
-
-  private requireQuery(job: JobData, key: string): string {
-    const value = job.queryParams?.[key];
-    if (value === undefined || value === null || value === '') {
-      throw new Error(`Missing query parameter '${key}'`);
-    }
-    if (Array.isArray(value)) {
-      return value[0];
-    }
-    return value;
-  }
-
-  private requireHeader(job: JobData, header: string): string {
-    const value = job.headers[header];
-    if (!value) {
-      throw new Error(`Missing header '${header}'`);
-    }
-    return value;
-  }
-
-  private requireUserId(job: JobData): string {
-    if (job.userId) {
-      return job.userId;
-    }
-    const validation = job.context?.authValidation;
-    const userId = validation?.user?.sub || validation?.user?.id;
-    if (!userId) {
-      throw new Error('Missing user identifier for auth-protected route');
-    }
-    return userId;
-  }
-
-  private requireAuthValidation(job: JobData): any {
-    const validation = job.context?.authValidation;
-    if (!validation) {
-      throw new Error('Missing auth validation context');
-    }
-    return validation;
-  }
 }
@@ -0,0 +1,202 @@
+import {
+  ArgumentMetadata,
+  CanActivate,
+  ForbiddenException,
+  HttpStatus,
+  Injectable,
+  PipeTransform,
+  RequestMethod,
+  Type,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  GUARDS_METADATA,
+  HTTP_CODE_METADATA,
+  PIPES_METADATA,
+  ROUTE_ARGS_METADATA,
+} from '@nestjs/common/constants';
+import { RouteParamtypes } from '@nestjs/common/enums/route-paramtypes.enum';
+import { ModuleRef } from '@nestjs/core';
+import { ExecutionContextHost } from '@nestjs/core/helpers/execution-context-host';
+import { RouteConfig } from './request-routing.service';
+import { RateLimitGuard } from '../rate-limit/rate-limit.guard';
+import { validationPipeOptions } from '../../config';
+
+/** Minimal request a route's guards and pipes are evaluated against */
+export interface PreflightRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: any;
+  query: Record<string, any>;
+  params: Record<string, string>;
+  /** Address of the client, counted by the IP rate limits */
+  ip?: string;
+  /** Filled by the guards, e.g. `authValidation` from JwtAuthGuard */
+  [key: string]: any;
+}
+
+const VALIDATED_PARAMS: Partial<
+  Record<RouteParamtypes, ArgumentMetadata['type']>
+> = {
+  [RouteParamtypes.BODY]: 'body',
+  [RouteParamtypes.QUERY]: 'query',
+  [RouteParamtypes.PARAM]: 'param',
+};
+
+/** Global guards (APP_GUARD) are not part of the route metadata */
+const GLOBAL_GUARDS: Type<CanActivate>[] = [RateLimitGuard];
+
+/**
+ * Runs the guards and pipes of a route handler outside of the HTTP pipeline,
+ * for requests that reach the queue without going through their own route
+ * (e.g. the items of `POST /batch`). Errors are the same HttpExceptions the
+ * route would have answered with.
+ */
+@Injectable()
+export class RoutePreflightService {
+  private readonly globalValidation = new ValidationPipe(validationPipeOptions);
+  private readonly instances = new Map<Type<any>, any>();
+
+  constructor(private readonly moduleRef: ModuleRef) {}
+
+  /** Same checks as a request of its own: global guards, route guards and pipes */
+  async check(route: RouteConfig, request: PreflightRequest) {
+    await this.admit(route, request);
+    await this.validate(route, request);
+  }
+
+  /** Global guards (rate limits) and the route's guards, without the pipes */
+  async admit(route: RouteConfig, request: PreflightRequest) {
+    await this.runGuards(route, request, GLOBAL_GUARDS);
+    await this.authorize(route, request);
+  }
+
+  /** Runs only the guards, for requests whose arguments are not known yet */
+  async authorize(route: RouteConfig, request: PreflightRequest) {
+    const handler = this.getHandler(route);
+    await this.runGuards(route, request, [
+      ...this.getMetadata<CanActivate>(GUARDS_METADATA, route.controller),
+      ...this.getMetadata<CanActivate>(GUARDS_METADATA, handler),
+    ]);
+  }
+
+  /** Status the handler answers with on success (@HttpCode or Nest's default) */
+  getSuccessStatus(route: RouteConfig): number {
+    const httpCode = Reflect.getMetadata(
+      HTTP_CODE_METADATA,
+      this.getHandler(route),
+    ) as number | undefined;
+    if (httpCode) {
+      return httpCode;
+    }
+    return route.method === RequestMethod[RequestMethod.POST]
+      ? HttpStatus.CREATED
+      : HttpStatus.OK;
+  }
+
+  private async runGuards(
+    route: RouteConfig,
+    request: PreflightRequest,
+    guards: (Type<CanActivate> | CanActivate)[],
+  ) {
+    if (guards.length === 0) return;
+
+    // Sin respuesta HTTP propia: las cabeceras que pongan los guards se descartan
+    const response = { setHeader: () => undefined };
+    const context = new ExecutionContextHost(
+      [request, response, () => undefined],
+      route.controller,
+      this.getHandler(route),
+    );
+    context.setType('http');
+
+    for (const guard of guards) {
+      const instance = await this.getInstance(guard);
+      if (!(await instance.canActivate(context))) {
+        // Mismo mensaje que Nest cuando un guard devuelve false
+        throw new ForbiddenException('Forbidden resource');
+      }
+    }
+  }
+
+  /** Runs the pipes of the handler arguments; only their errors matter */
+  async validate(route: RouteConfig, request: PreflightRequest) {
+    const handler = this.getHandler(route);
+    const args = (Reflect.getMetadata(
+      ROUTE_ARGS_METADATA,
+      route.controller,
+      route.methodName,
+    ) ?? {}) as Record<
+      string,
+      {
+        index: number;
+        data?: string;
+        pipes?: (Type<PipeTransform> | PipeTransform)[];
+      }
+    >;
+    const paramTypes = (Reflect.getMetadata(
+      'design:paramtypes',
+      route.controller.prototype,
+      route.methodName,
+    ) ?? []) as Type<any>[];
+    const sharedPipes = [
+      ...this.getMetadata<PipeTransform>(PIPES_METADATA, route.controller),
+      ...this.getMetadata<PipeTransform>(PIPES_METADATA, handler),
+    ];
+
+    for (const [key, arg] of Object.entries(args)) {
+      // Los decoradores personalizados (@GetUser...) tienen claves no numéricas
+      const type =
+        VALIDATED_PARAMS[Number(key.split(':')[0]) as RouteParamtypes];
+      if (!type) continue;
+
+      const source =
+        type === 'body'
+          ? request.body
+          : type === 'query'
+            ? request.query
+            : request.params;
+      let value = arg.data ? source?.[arg.data] : source;
+      const metadata: ArgumentMetadata = {
+        type,
+        metatype: paramTypes[arg.index],
+        data: arg.data,
+      };
+
+      value = await this.globalValidation.transform(value, metadata);
+      for (const pipe of [...sharedPipes, ...(arg.pipes ?? [])]) {
+        const instance = await this.getInstance(pipe);
+        value = await instance.transform(value, metadata);
+      }
+    }
+  }
+
+  private getHandler(route: RouteConfig): (...args: any[]) => any {
+    return route.controller.prototype[route.methodName];
+  }
+
+  private getMetadata<T>(key: string, target: object): (Type<T> | T)[] {
+    return (Reflect.getMetadata(key, target) ?? []) as (Type<T> | T)[];
+  }
+
+  /** Guards and pipes may be declared as classes or as instances */
+  private async getInstance<T>(enhancer: Type<T> | T): Promise<T> {
+    if (typeof enhancer !== 'function') {
+      return enhancer;
+    }
+
+    const type = enhancer as Type<T>;
+    let instance = this.instances.get(type) as T | undefined;
+    if (!instance) {
+      try {
+        instance = this.moduleRef.get(type, { strict: false });
+      } catch {
+        // No registrado como provider: se instancia con sus dependencias
+        instance = await this.moduleRef.create(type);
+      }
+      this.instances.set(type, instance);
+    }
+    return instance as T;
+  }
+}
@@ -0,0 +1,100 @@
+import { JobData } from '../../interceptors/interfaces/job-data.interface';
+
+export type RoutePayloadBuilder = (job: JobData) => any;
+
+export function requireParam(job: JobData, param: string): string {
+  const value = job.params?.[param];
+  if (!value) {
+    throw new Error(`Missing route param '${param}'`);
+  }
+  return value;
+}
+
+export function requireQuery(job: JobData, key: string): string {
+  const value = job.queryParams?.[key];
+  if (value === undefined || value === null || value === '') {
+    throw new Error(`Missing query parameter '${key}'`);
+  }
+  if (Array.isArray(value)) {
+    return value[0];
+  }
+  return value;
+}
+
+export function requireHeader(job: JobData, header: string): string {
+  const value = job.headers[header];
+  if (!value) {
+    throw new Error(`Missing header '${header}'`);
+  }
+  return value;
+}
+
+export function requireUserId(job: JobData): string {
+  if (job.userId) {
+    return job.userId;
+  }
+  const validation = job.context?.authValidation;
+  const userId = validation?.user?.sub || validation?.user?.id;
+  if (!userId) {
+    throw new Error('Missing user identifier for auth-protected route');
+  }
+  return userId;
+}
+
+export function requireAuthValidation(job: JobData): any {
+  const validation = job.context?.authValidation;
+  if (!validation) {
+    throw new Error('Missing auth validation context');
+  }
+  return validation;
+}
+
+/**
+ * Payload builders for the shapes shared by most gateway routes
+ */
+export const RoutePayload = {
+  body: (): RoutePayloadBuilder => (job) => job.data ?? {},
+
+  query: (): RoutePayloadBuilder => (job) => job.queryParams ?? {},
+
+  empty: (): RoutePayloadBuilder => () => ({}),
+
+  param:
+    (name: string): RoutePayloadBuilder =>
+    (job) =>
+      requireParam(job, name),
+
+  /** `{ [name]: param, [bodyKey]: body }`, e.g. `{ id, updateCourseDto }` */
+  paramWithBody:
+    (name: string, bodyKey: string): RoutePayloadBuilder =>
+    (job) => ({
+      [name]: requireParam(job, name),
+      [bodyKey]: job.data ?? {},
+    }),
+
+  /** Object with every listed query parameter, all of them required */
+  queryFields:
+    (...keys: string[]): RoutePayloadBuilder =>
+    (job) =>
+      Object.fromEntries(keys.map((key) => [key, requireQuery(job, key)])),
+
+  user: (): RoutePayloadBuilder => (job) => ({ userId: requireUserId(job) }),
+
+  userWithBody:
+    (bodyKey: string): RoutePayloadBuilder =>
+    (job) => ({
+      userId: requireUserId(job),
+      [bodyKey]: job.data ?? {},
+    }),
+};
+
+/**
+ * Payload used when a route does not declare one: the body for write
+ * methods and the query string for everything else
+ */
+export function defaultPayloadFor(method: string): RoutePayloadBuilder {
+  const normalized = method.toUpperCase();
+  return normalized === 'POST' || normalized === 'PUT' || normalized === 'PATCH'
+    ? RoutePayload.body()
+    : RoutePayload.query();
+}
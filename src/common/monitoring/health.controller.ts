@@ -0,0 +1,42 @@
+import { Controller, Get, HttpStatus, Res } from '@nestjs/common';
+import type { Response } from 'express';
+import { SkipAsyncRoute } from '../decorators/async-route.decorator';
+import { ServiceHealthService } from './service-health.service';
+
+// Sondas de Kubernetes: nunca se encolan
+@SkipAsyncRoute()
+@Controller('health')
+export class HealthController {
+  constructor(private readonly serviceHealth: ServiceHealthService) {}
+
+  /**
+   * Liveness: the process answers. Downstream services are not checked, a
+   * restart would not bring them back
+   */
+  @Get('live')
+  getLiveness() {
+    return {
+      status: 'alive',
+      uptime: process.uptime(),
+      pid: process.pid,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Readiness: 503 while Redis or NATS is unreachable from this instance, so
+   * it is taken out of the load balancer. Downstream services are not checked
+   */
+  @Get('ready')
+  async getReadiness(@Res({ passthrough: true }) res: Response) {
+    const readiness = await this.serviceHealth.getReadiness();
+    if (!readiness.ready) {
+      res.status(HttpStatus.SERVICE_UNAVAILABLE);
+    }
+    return {
+      status: readiness.status,
+      checks: readiness.checks,
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
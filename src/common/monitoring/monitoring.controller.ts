@@ -4,6 +4,10 @@ import { ConnectionPoolService } from './connection-pool.service';
 import { DynamicWorkerService } from '../workers/dynamic-worker.service';
 import { WebSocketGateway } from '../websockets/websocket.gateway';
 import { JobStatusService } from '../websockets/job-status.service';
+import { BackpressureService } from '../queues/backpressure.service';
+import { DynamicQueueService } from '../queues/dynamic-queue.service';
+import { CircuitBreakerService } from '../../transports/circuit-breaker.service';
+import { ServiceHealthService } from './service-health.service';
 
 @Controller('monitoring')
 export class MonitoringController {
@@ -13,6 +17,10 @@ export class MonitoringController {
     private readonly workerService: DynamicWorkerService,
     private readonly webSocketGateway: WebSocketGateway,
     private readonly jobStatusService: JobStatusService,
+    private readonly backpressure: BackpressureService,
+    private readonly queueService: DynamicQueueService,
+    private readonly circuitBreaker: CircuitBreakerService,
+    private readonly serviceHealth: ServiceHealthService,
   ) {}
 
   /**
@@ -63,11 +71,15 @@ export class MonitoringController {
   getSystemHealth() {
     const memoryHealth = this.resourceMonitor.getHealthStatus();
     const poolHealth = this.connectionPool.getHealthStatus();
+    const circuitHealth = this.circuitBreaker.getHealthStatus();
+    const servicesHealth = this.serviceHealth.getHealthStatus();
 
     // Determinar estado general del sistema
     const overallStatus = this.determineOverallStatus([
       memoryHealth.status,
       poolHealth.status,
+      circuitHealth.status,
+      servicesHealth.status,
     ]);
 
     return {
@@ -75,6 +87,27 @@ export class MonitoringController {
       components: {
         memory: memoryHealth,
         connectionPool: poolHealth,
+        circuitBreakers: circuitHealth,
+        services: servicesHealth,
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Estado de cada microservicio de dominio según los pings por NATS
+   */
+  @Get('services')
+  getServicesHealth() {
+    const reports = this.serviceHealth.getReports();
+    return {
+      status: this.serviceHealth.getHealthStatus().status,
+      services: reports,
+      summary: {
+        total: reports.length,
+        up: reports.filter((r) => r.status === 'up').length,
+        degraded: reports.filter((r) => r.status === 'degraded').length,
+        down: reports.filter((r) => r.status === 'down').length,
       },
       timestamp: new Date().toISOString(),
     };
@@ -366,13 +399,45 @@ export class MonitoringController {
     return { status, issues };
   }
 
+  /**
+   * Live load of each queue and the load-shedding decisions taken so far
+   */
+  @Get('backpressure')
+  async getBackpressure() {
+    const queues = await Promise.all(
+      this.queueService.getAvailableQueues().map(async (queueName) => {
+        const queueDef = this.queueService.getQueueDefinition(queueName);
+        try {
+          const pressure = await this.backpressure.getPressure(queueName);
+          return {
+            ...pressure,
+            lowPriorityPatterns: queueDef?.lowPriorityPatterns ?? [],
+            estimatedTime: this.backpressure.describeEstimatedTime(
+              pressure,
+              queueDef,
+            ),
+          };
+        } catch (error) {
+          return { queueName, error: error.message };
+        }
+      }),
+    );
+
+    return {
+      queues,
+      shedding: this.backpressure.getCounters(),
+      settings: this.backpressure.getSettings(),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
   /**
    * Obtiene estadÃ­sticas de conexiones WebSocket
    */
   @Get('websocket/stats')
   async getWebSocketStats() {
     const gatewayStats = this.webSocketGateway.getGatewayStats();
-    const jobStats = this.jobStatusService.getJobStatistics();
+    const jobStats = await this.jobStatusService.getJobStatistics();
 
     return {
       websocket: gatewayStats,
@@ -4,14 +4,32 @@ import { ConnectionPoolService } from './connection-pool.service';
 import { MonitoringController } from './monitoring.controller';
 import { WorkerModule } from '../workers/worker.module';
 import { WebSocketModule } from '../websockets/websocket.module';
+import { QueueModule } from '../queues/queue.module';
+import { NatsModule } from '../../transports/nats.module';
+import { InterceptorModule } from '../interceptors/interceptor.module';
+import { RedisModule } from '../redis/redis.module';
+import { ServiceHealthService } from './service-health.service';
+import { HealthController } from './health.controller';
 
 @Module({
   imports: [
     forwardRef(() => WorkerModule),
     forwardRef(() => WebSocketModule),
+    forwardRef(() => QueueModule),
+    forwardRef(() => InterceptorModule),
+    NatsModule,
+    RedisModule,
+  ],
+  providers: [
+    ResourceMonitorService,
+    ConnectionPoolService,
+    ServiceHealthService,
+  ],
+  controllers: [MonitoringController, HealthController],
+  exports: [
+    ResourceMonitorService,
+    ConnectionPoolService,
+    ServiceHealthService,
   ],
-  providers: [ResourceMonitorService, ConnectionPoolService],
-  controllers: [MonitoringController],
-  exports: [ResourceMonitorService, ConnectionPoolService],
 })
 export class MonitoringModule {}
@@ -0,0 +1,98 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from '@nestjs/common';
+
+/** Domain microservice pinged by the gateway */
+export interface MonitoredService {
+  name: string;
+
+  /**
+   * NATS pattern used as ping. Any answer counts as alive, errors included:
+   * only timeouts and transport failures mark the service down
+   */
+  pattern: string;
+
+  payload?: unknown;
+
+  /** `/monitoring/health` is critical while a required service is down */
+  required?: boolean;
+
+  /** Breaker circuits served by the service; the pattern's prefix when omitted */
+  circuits?: string[];
+}
+
+export interface ServiceHealthConfig {
+  enabled: boolean;
+  intervalMs: number;
+  timeoutMs: number;
+
+  /** Checks kept per service for latency and availability */
+  historySize: number;
+
+  /** Consecutive failed checks before a service is reported down */
+  unhealthyAfter: number;
+
+  /** Latency above which an answering service is reported degraded */
+  degradedLatencyMs: number;
+
+  services: MonitoredService[];
+}
+
+const logger = new Logger('ServiceHealthConfig');
+
+const DEFAULTS: Omit<ServiceHealthConfig, 'services'> = {
+  enabled: true,
+  intervalMs: 15000,
+  timeoutMs: 3000,
+  historySize: 60,
+  unhealthyAfter: 2,
+  degradedLatencyMs: 1000,
+};
+
+/**
+ * Load the monitored services from SERVICE_HEALTH_CONFIG_PATH or
+ * config/services.json. Entries without name or pattern are skipped
+ */
+export function loadServiceHealthConfig(): ServiceHealthConfig {
+  const configPath =
+    process.env.SERVICE_HEALTH_CONFIG_PATH ||
+    path.join(process.cwd(), 'config', 'services.json');
+
+  let fileConfig: Partial<ServiceHealthConfig> = {};
+  try {
+    if (fs.existsSync(configPath)) {
+      fileConfig = JSON.parse(
+        fs.readFileSync(configPath, 'utf8'),
+      ) as Partial<ServiceHealthConfig>;
+    }
+  } catch (error: any) {
+    logger.warn(
+      `Failed to load ${configPath}: ${error?.message || error}. No downstream services will be checked`,
+    );
+  }
+
+  const services = (fileConfig.services ?? []).filter((service, index) => {
+    const valid = !!(service.name && service.pattern);
+    if (!valid) {
+      logger.warn(
+        `Monitored service #${index} ignored: it needs name and pattern`,
+      );
+    }
+    return valid;
+  });
+
+  return {
+    ...DEFAULTS,
+    ...fileConfig,
+    enabled:
+      process.env.SERVICE_HEALTH_ENABLED !== undefined
+        ? process.env.SERVICE_HEALTH_ENABLED === 'true'
+        : (fileConfig.enabled ?? DEFAULTS.enabled),
+    intervalMs: parseInt(
+      process.env.SERVICE_HEALTH_INTERVAL_MS ||
+        String(fileConfig.intervalMs ?? DEFAULTS.intervalMs),
+      10,
+    ),
+    services,
+  };
+}
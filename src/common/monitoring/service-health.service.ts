@@ -0,0 +1,323 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ClientProxy } from '@nestjs/microservices';
+import Redis from 'ioredis';
+import type { NatsConnection } from 'nats';
+import { firstValueFrom, from } from 'rxjs';
+import { timeout } from 'rxjs/operators';
+import { NATS_TRANSPORT } from '../../config';
+import { CircuitBreakerService } from '../../transports/circuit-breaker.service';
+import { RequestRoutingService } from '../messaging/request-routing.service';
+import {
+  MonitoredService,
+  ServiceHealthConfig,
+  loadServiceHealthConfig,
+} from './service-health.config';
+
+export type ServiceStatus = 'up' | 'degraded' | 'down' | 'unknown';
+
+export interface ServiceCheck {
+  timestamp: number;
+  ok: boolean;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface ServiceHealthReport {
+  name: string;
+  status: ServiceStatus;
+  required: boolean;
+  pattern: string;
+  circuits: string[];
+  consecutiveFailures: number;
+  lastCheckAt?: string;
+  lastError?: string;
+  latency: { lastMs?: number; avgMs?: number; p95Ms?: number };
+  /** Share of successful checks in the history, 0-100 */
+  availability?: number;
+  checks: number;
+  /** Async routes answered by the service, `METHOD /path` */
+  routes: string[];
+}
+
+interface ServiceState {
+  history: ServiceCheck[];
+  consecutiveFailures: number;
+  down: boolean;
+}
+
+/**
+ * Pings every domain microservice over NATS on a schedule and keeps a short
+ * latency/availability history per service. A service that stops answering
+ * opens its breaker circuits, so the routes depending on it fail fast until
+ * it is back.
+ */
+@Injectable()
+export class ServiceHealthService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ServiceHealthService.name);
+  private readonly config: ServiceHealthConfig = loadServiceHealthConfig();
+  private readonly states = new Map<string, ServiceState>();
+  private checkInterval: NodeJS.Timeout | null = null;
+  private checking = false;
+
+  constructor(
+    // Cliente sin breaker: los pings deben llegar aunque el circuito esté abierto
+    @Inject(NATS_TRANSPORT) private readonly client: ClientProxy,
+    @Inject('REDIS_CLIENT') private readonly redis: Redis,
+    private readonly circuitBreaker: CircuitBreakerService,
+    private readonly routingService: RequestRoutingService,
+  ) {}
+
+  onModuleInit() {
+    if (!this.config.enabled || this.config.services.length === 0) {
+      this.logger.warn('Downstream service health checks disabled');
+      return;
+    }
+    this.checkInterval = setInterval(() => {
+      void this.checkAll();
+    }, this.config.intervalMs);
+    // Primer chequeo sin esperar al intervalo
+    void this.checkAll();
+    this.logger.log(
+      `Checking ${this.config.services.length} services every ${this.config.intervalMs}ms`,
+    );
+  }
+
+  onModuleDestroy() {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+  }
+
+  async checkAll(): Promise<void> {
+    // Un ciclo lento no se solapa con el siguiente
+    if (this.checking) return;
+    this.checking = true;
+    try {
+      await Promise.all(
+        this.config.services.map((service) => this.check(service)),
+      );
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  getReports(): ServiceHealthReport[] {
+    return this.config.services.map((service) => this.report(service));
+  }
+
+  /** Overall status in the vocabulary of `/monitoring/health` */
+  getHealthStatus(): {
+    status: 'healthy' | 'warning' | 'critical';
+    services: Record<string, ServiceStatus>;
+  } {
+    const reports = this.getReports();
+    const services = Object.fromEntries(
+      reports.map((report) => [report.name, report.status]),
+    );
+    let status: 'healthy' | 'warning' | 'critical' = 'healthy';
+    if (reports.some((r) => r.status === 'down' && r.required)) {
+      status = 'critical';
+    } else if (
+      reports.some((r) => r.status === 'down' || r.status === 'degraded')
+    ) {
+      status = 'warning';
+    }
+    return { status, services };
+  }
+
+  /**
+   * Readiness of the gateway: only its own dependencies, Redis and its NATS
+   * connection. A downstream service that is down must not take every
+   * replica out of the load balancer: its routes fail fast through the
+   * breakers and it is reported by `/monitoring/services`
+   */
+  async getReadiness(): Promise<{
+    ready: boolean;
+    status: 'ready' | 'not_ready';
+    checks: Record<string, string>;
+  }> {
+    const checks: Record<string, string> = {};
+
+    try {
+      // Con la conexión caída ioredis encola el comando en vez de fallar
+      await this.withTimeout(this.redis.ping());
+      checks.redis = 'up';
+    } catch {
+      checks.redis = 'down';
+    }
+
+    try {
+      // connect() devuelve la promesa de la primera conexión aunque luego se
+      // haya caído: el estado real lo da un RTT sobre esa misma conexión
+      await this.withTimeout(
+        this.client
+          .connect()
+          .then(() => this.client.unwrap<NatsConnection>().rtt()),
+      );
+      checks.nats = 'up';
+    } catch {
+      checks.nats = 'down';
+    }
+
+    const ready = Object.values(checks).every((check) => check === 'up');
+    return { ready, status: ready ? 'ready' : 'not_ready', checks };
+  }
+
+  private withTimeout<T>(promise: Promise<T>): Promise<T> {
+    return firstValueFrom(
+      from(promise).pipe(timeout({ first: this.config.timeoutMs })),
+    );
+  }
+
+  private async check(service: MonitoredService): Promise<void> {
+    const startedAt = Date.now();
+    let error: string | undefined;
+
+    try {
+      await firstValueFrom(
+        this.client
+          .send(service.pattern, service.payload ?? {})
+          .pipe(timeout({ first: this.config.timeoutMs })),
+      );
+    } catch (err: unknown) {
+      // Un error respondido por el servicio demuestra que está vivo
+      if (this.circuitBreaker.isDownstreamFailure(err)) {
+        const failure = err as Error;
+        error =
+          failure.name === 'TimeoutError'
+            ? `No answer within ${this.config.timeoutMs}ms`
+            : failure.message || failure.name;
+      }
+    }
+
+    this.record(service, {
+      timestamp: startedAt,
+      ok: error === undefined,
+      latencyMs: Date.now() - startedAt,
+      error,
+    });
+  }
+
+  private record(service: MonitoredService, check: ServiceCheck) {
+    const state = this.getState(service.name);
+    state.history.push(check);
+    if (state.history.length > this.config.historySize) {
+      state.history = state.history.slice(-this.config.historySize);
+    }
+
+    if (check.ok) {
+      state.consecutiveFailures = 0;
+      if (state.down) {
+        state.down = false;
+        this.logger.log(`Service '${service.name}' is back up`);
+        for (const circuit of this.circuitsOf(service)) {
+          this.circuitBreaker.forceClose(
+            circuit,
+            `service '${service.name}' answers again`,
+          );
+        }
+      }
+      return;
+    }
+
+    state.consecutiveFailures++;
+    if (state.consecutiveFailures < this.config.unhealthyAfter) return;
+
+    if (!state.down) {
+      state.down = true;
+      this.logger.error(
+        `Service '${service.name}' is down after ${state.consecutiveFailures} failed checks: ${check.error}`,
+      );
+    }
+    // Mantiene el circuito abierto mientras el servicio no responda
+    for (const circuit of this.circuitsOf(service)) {
+      this.circuitBreaker.forceOpen(
+        circuit,
+        `health check of '${service.name}' failed: ${check.error}`,
+      );
+    }
+  }
+
+  private report(service: MonitoredService): ServiceHealthReport {
+    const state = this.getState(service.name);
+    const last = state.history[state.history.length - 1];
+    const latencies = state.history
+      .filter((check) => check.ok)
+      .map((check) => check.latencyMs)
+      .sort((a, b) => a - b);
+    const lastFailure = [...state.history].reverse().find((c) => !c.ok);
+    const circuits = this.circuitsOf(service);
+
+    let status: ServiceStatus = 'unknown';
+    if (state.down) {
+      status = 'down';
+    } else if (last) {
+      status =
+        !last.ok || last.latencyMs > this.config.degradedLatencyMs
+          ? 'degraded'
+          : 'up';
+    }
+
+    return {
+      name: service.name,
+      status,
+      required: service.required ?? false,
+      pattern: service.pattern,
+      circuits,
+      consecutiveFailures: state.consecutiveFailures,
+      lastCheckAt: last ? new Date(last.timestamp).toISOString() : undefined,
+      lastError: lastFailure?.error,
+      latency: {
+        lastMs: last?.ok ? last.latencyMs : undefined,
+        avgMs: latencies.length
+          ? Math.round(
+              latencies.reduce((sum, ms) => sum + ms, 0) / latencies.length,
+            )
+          : undefined,
+        p95Ms: latencies.length
+          ? latencies[
+              Math.min(
+                latencies.length - 1,
+                Math.floor(latencies.length * 0.95),
+              )
+            ]
+          : undefined,
+      },
+      availability: state.history.length
+        ? Math.round(
+            (state.history.filter((c) => c.ok).length / state.history.length) *
+              1000,
+          ) / 10
+        : undefined,
+      checks: state.history.length,
+      routes: this.routingService
+        .getRoutes()
+        .filter((route) =>
+          circuits.includes(this.circuitBreaker.circuitFor(route.pattern)),
+        )
+        .map((route) => `${route.method} ${route.path}`),
+    };
+  }
+
+  private circuitsOf(service: MonitoredService): string[] {
+    return service.circuits?.length
+      ? service.circuits
+      : [this.circuitBreaker.circuitFor(service.pattern)];
+  }
+
+  private getState(name: string): ServiceState {
+    let state = this.states.get(name);
+    if (!state) {
+      state = { history: [], consecutiveFailures: 0, down: false };
+      this.states.set(name, state);
+    }
+    return state;
+  }
+}
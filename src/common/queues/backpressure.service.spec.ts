@@ -0,0 +1,128 @@
+import { BackpressureService } from './backpressure.service';
+import { DynamicQueueService } from './dynamic-queue.service';
+import { QueueDefinition } from './queue-config.interface';
+
+// El servicio real valida la configuración de entorno al importarse
+jest.mock('./dynamic-queue.service', () => ({
+  DynamicQueueService: class {},
+}));
+
+describe('BackpressureService', () => {
+  const queueDef = {
+    name: 'standard',
+    maxWaiting: 100,
+    lowPriorityPatterns: ['/reports/*'],
+  } as QueueDefinition;
+
+  let waiting: number;
+  let completedPerMinute: number[];
+  let service: BackpressureService;
+
+  beforeEach(() => {
+    waiting = 0;
+    completedPerMinute = [];
+    const queueService = {
+      getQueueDefinition: () => queueDef,
+      getQueueLoad: () => Promise.resolve({ waiting, active: 2, delayed: 0 }),
+      getCompletedPerMinute: () => Promise.resolve(completedPerMinute),
+    } as unknown as DynamicQueueService;
+    service = new BackpressureService(queueService);
+  });
+
+  describe('evaluate', () => {
+    it('accepts while the queue is under its limit', async () => {
+      waiting = 50;
+
+      const decision = await service.evaluate('standard', queueDef, '/courses');
+
+      expect(decision.action).toBe('accepted');
+      expect(decision.pressure).toMatchObject({
+        waiting: 50,
+        maxWaiting: 100,
+        utilization: 0.5,
+      });
+    });
+
+    it('accepts any load on a queue without maxWaiting', async () => {
+      waiting = 10_000;
+
+      const decision = await service.evaluate(
+        'standard',
+        { ...queueDef, maxWaiting: undefined },
+        '/courses',
+      );
+
+      expect(decision.action).toBe('accepted');
+    });
+
+    it('sheds every request once the queue is full', async () => {
+      waiting = 100;
+
+      const decision = await service.evaluate('standard', queueDef, '/courses');
+
+      expect(decision.action).toBe('shed');
+      expect(decision.reason).toContain('100/100 jobs waiting');
+    });
+
+    it('rejects low-priority requests from the low-priority ratio', async () => {
+      waiting = 80;
+
+      const lowPriority = await service.evaluate(
+        'standard',
+        queueDef,
+        '/reports/monthly',
+      );
+      const regular = await service.evaluate('standard', queueDef, '/courses');
+
+      expect(lowPriority.action).toBe('degraded');
+      expect(regular.action).toBe('accepted');
+    });
+
+    it('derives Retry-After from the throughput', async () => {
+      waiting = 110;
+      // 60 jobs por minuto en la ventana de 5 minutos
+      completedPerMinute = [60, 60, 60, 60, 60];
+
+      const decision = await service.evaluate('standard', queueDef, '/courses');
+
+      // 11 jobs por encima del límite a 1 job por segundo
+      expect(decision.retryAfterSeconds).toBe(11);
+      expect(decision.pressure.estimatedWaitSeconds).toBe(111);
+    });
+
+    it('uses the default Retry-After without throughput data', async () => {
+      waiting = 100;
+
+      const decision = await service.evaluate('standard', queueDef, '/courses');
+
+      expect(decision.retryAfterSeconds).toBe(30);
+      expect(decision.pressure.estimatedWaitSeconds).toBeUndefined();
+    });
+
+    it('accepts when the load cannot be sampled', async () => {
+      const failing = {
+        getQueueDefinition: () => queueDef,
+        getQueueLoad: () => Promise.reject(new Error('Redis down')),
+        getCompletedPerMinute: () => Promise.resolve([]),
+      } as unknown as DynamicQueueService;
+      service = new BackpressureService(failing);
+
+      const decision = await service.evaluate('standard', queueDef, '/courses');
+
+      expect(decision.action).toBe('accepted');
+      expect(decision.pressure.waiting).toBe(0);
+    });
+
+    it('counts the decisions per queue', async () => {
+      waiting = 100;
+      await service.evaluate('standard', queueDef, '/courses');
+      await service.evaluate('standard', queueDef, '/reports/x');
+
+      expect(service.getCounters().standard).toMatchObject({
+        accepted: 0,
+        degraded: 0,
+        shed: 2,
+      });
+    });
+  });
+});
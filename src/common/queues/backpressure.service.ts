@@ -0,0 +1,246 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DynamicQueueService } from './dynamic-queue.service';
+import { QueueDefinition } from './queue-config.interface';
+import { matchesUrlPattern } from './utils/queue-routing.util';
+
+export interface QueuePressure {
+  queueName: string;
+  /** Jobs waiting to start (FIFO and prioritized) */
+  waiting: number;
+  active: number;
+  delayed: number;
+  maxWaiting?: number;
+  /** waiting / maxWaiting, when the queue has a limit */
+  utilization?: number;
+  /** Completed jobs per minute over the throughput window */
+  throughputPerMinute: number;
+  /** Time a new job waits before starting; undefined without throughput data */
+  estimatedWaitSeconds?: number;
+  sampledAt: string;
+}
+
+export type ShedAction = 'accepted' | 'degraded' | 'shed';
+
+export interface ShedDecision {
+  action: ShedAction;
+  pressure: QueuePressure;
+  /** Seconds until the queue is expected to take the request (503 only) */
+  retryAfterSeconds?: number;
+  reason?: string;
+}
+
+export interface QueueShedCounters {
+  accepted: number;
+  /** Low-priority requests rejected before the queue was full */
+  degraded: number;
+  /** Requests rejected because the queue was full */
+  shed: number;
+  lastShedAt?: string;
+}
+
+/**
+ * Load shedding in front of the queues. A queue with `maxWaiting` rejects new
+ * requests once that many jobs are waiting; requests matching its
+ * `lowPriorityPatterns` are rejected earlier, from QUEUE_SHED_LOW_PRIORITY_RATIO
+ * of the limit. Wait estimates come from the live depth and the completed
+ * jobs per minute recorded by the workers.
+ */
+@Injectable()
+export class BackpressureService {
+  private readonly logger = new Logger(BackpressureService.name);
+  private readonly lowPriorityRatio = Math.min(
+    1,
+    Math.max(
+      0,
+      parseFloat(process.env.QUEUE_SHED_LOW_PRIORITY_RATIO || '0.8') || 0.8,
+    ),
+  );
+  private readonly throughputWindowMinutes = Math.max(
+    1,
+    parseInt(process.env.QUEUE_THROUGHPUT_WINDOW_MINUTES || '5', 10) || 5,
+  );
+  /** Load samples are reused for this long to keep Redis out of the hot path */
+  private readonly sampleTtlMs = Math.max(
+    0,
+    parseInt(process.env.QUEUE_BACKPRESSURE_SAMPLE_MS || '1000', 10) || 0,
+  );
+  private readonly defaultRetryAfterSeconds = Math.max(
+    1,
+    parseInt(process.env.QUEUE_SHED_RETRY_AFTER || '30', 10) || 30,
+  );
+  private readonly maxRetryAfterSeconds = Math.max(
+    1,
+    parseInt(process.env.QUEUE_SHED_MAX_RETRY_AFTER || '300', 10) || 300,
+  );
+
+  private readonly samples = new Map<
+    string,
+    { pressure: QueuePressure; expiresAt: number }
+  >();
+  private readonly counters = new Map<string, QueueShedCounters>();
+
+  constructor(private readonly queueService: DynamicQueueService) {}
+
+  /**
+   * Whether a request for `url` may be queued. Sampling errors never block
+   * traffic: the request is accepted
+   */
+  async evaluate(
+    queueName: string,
+    queueDef: QueueDefinition | undefined,
+    url: string,
+  ): Promise<ShedDecision> {
+    let pressure: QueuePressure;
+    try {
+      pressure = await this.getPressure(queueName);
+    } catch (err: any) {
+      this.logger.warn(
+        `Could not sample load of '${queueName}': ${err?.message || err}`,
+      );
+      return this.record(queueName, {
+        action: 'accepted',
+        pressure: this.emptyPressure(queueName, queueDef),
+      });
+    }
+
+    const maxWaiting = queueDef?.maxWaiting;
+    if (!maxWaiting) {
+      return this.record(queueName, { action: 'accepted', pressure });
+    }
+
+    if (pressure.waiting >= maxWaiting) {
+      return this.record(queueName, {
+        action: 'shed',
+        pressure,
+        retryAfterSeconds: this.retryAfter(pressure, maxWaiting),
+        reason: `Queue '${queueName}' is saturated (${pressure.waiting}/${maxWaiting} jobs waiting)`,
+      });
+    }
+
+    const lowPriorityLimit = Math.floor(maxWaiting * this.lowPriorityRatio);
+    const lowPriority = queueDef?.lowPriorityPatterns?.some((pattern) =>
+      matchesUrlPattern(url, pattern),
+    );
+    if (lowPriority && pressure.waiting >= lowPriorityLimit) {
+      return this.record(queueName, {
+        action: 'degraded',
+        pressure,
+        retryAfterSeconds: this.retryAfter(pressure, lowPriorityLimit),
+        reason: `Low-priority requests are paused while '${queueName}' is under load (${pressure.waiting}/${maxWaiting} jobs waiting)`,
+      });
+    }
+
+    return this.record(queueName, { action: 'accepted', pressure });
+  }
+
+  /** Live load of a queue, sampled at most every QUEUE_BACKPRESSURE_SAMPLE_MS */
+  async getPressure(queueName: string): Promise<QueuePressure> {
+    const cached = this.samples.get(queueName);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.pressure;
+    }
+
+    const queueDef = this.queueService.getQueueDefinition(queueName);
+    const [load, completed] = await Promise.all([
+      this.queueService.getQueueLoad(queueName),
+      this.queueService.getCompletedPerMinute(
+        queueName,
+        this.throughputWindowMinutes,
+      ),
+    ]);
+
+    const throughputPerMinute =
+      completed.reduce((total, count) => total + count, 0) /
+      this.throughputWindowMinutes;
+    const maxWaiting = queueDef?.maxWaiting;
+    const pressure: QueuePressure = {
+      queueName,
+      ...load,
+      ...(maxWaiting && {
+        maxWaiting,
+        utilization: Math.round((load.waiting / maxWaiting) * 100) / 100,
+      }),
+      throughputPerMinute: Math.round(throughputPerMinute * 100) / 100,
+      estimatedWaitSeconds:
+        throughputPerMinute > 0
+          ? Math.ceil(((load.waiting + 1) / throughputPerMinute) * 60)
+          : undefined,
+      sampledAt: new Date().toISOString(),
+    };
+
+    this.samples.set(queueName, {
+      pressure,
+      expiresAt: Date.now() + this.sampleTtlMs,
+    });
+    return pressure;
+  }
+
+  /** Live estimate as shown to clients; the configured text when there is no data */
+  describeEstimatedTime(
+    pressure: QueuePressure | undefined,
+    queueDef?: QueueDefinition,
+  ): string {
+    const seconds = pressure?.estimatedWaitSeconds;
+    if (seconds === undefined) {
+      return queueDef?.estimatedTime || 'Unknown';
+    }
+    if (seconds < 60) {
+      return `~${seconds} seconds`;
+    }
+    return `~${Math.ceil(seconds / 60)} minutes`;
+  }
+
+  getCounters(): Record<string, QueueShedCounters> {
+    return Object.fromEntries(this.counters);
+  }
+
+  getSettings() {
+    return {
+      lowPriorityRatio: this.lowPriorityRatio,
+      throughputWindowMinutes: this.throughputWindowMinutes,
+      sampleTtlMs: this.sampleTtlMs,
+      defaultRetryAfterSeconds: this.defaultRetryAfterSeconds,
+      maxRetryAfterSeconds: this.maxRetryAfterSeconds,
+    };
+  }
+
+  /** Time for the backlog to drop below `limit` at the current throughput */
+  private retryAfter(pressure: QueuePressure, limit: number): number {
+    if (pressure.throughputPerMinute <= 0) {
+      return this.defaultRetryAfterSeconds;
+    }
+    const excess = pressure.waiting - limit + 1;
+    const seconds = Math.ceil((excess / pressure.throughputPerMinute) * 60);
+    return Math.min(Math.max(seconds, 1), this.maxRetryAfterSeconds);
+  }
+
+  private record(queueName: string, decision: ShedDecision): ShedDecision {
+    const counters = this.counters.get(queueName) ?? {
+      accepted: 0,
+      degraded: 0,
+      shed: 0,
+    };
+    counters[decision.action]++;
+    if (decision.action !== 'accepted') {
+      counters.lastShedAt = new Date().toISOString();
+      this.logger.debug(decision.reason);
+    }
+    this.counters.set(queueName, counters);
+    return decision;
+  }
+
+  private emptyPressure(
+    queueName: string,
+    queueDef?: QueueDefinition,
+  ): QueuePressure {
+    return {
+      queueName,
+      waiting: 0,
+      active: 0,
+      delayed: 0,
+      maxWaiting: queueDef?.maxWaiting,
+      throughputPerMinute: 0,
+      sampledAt: new Date().toISOString(),
+    };
+  }
+}
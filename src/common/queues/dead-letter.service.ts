@@ -0,0 +1,324 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Job } from 'bullmq';
+import Redis from 'ioredis';
+import { DynamicQueueService } from './dynamic-queue.service';
+import { JobData } from '../interceptors/interfaces/job-data.interface';
+import { JobErrorInfo } from '../workers/interfaces/job-result.interface';
+import { JobStatusService } from '../websockets/job-status.service';
+
+export interface DeadLetterEntry {
+  jobId: string;
+  queueName: string;
+  /** NATS pattern the job was dispatched to */
+  pattern: string | null;
+  method: string;
+  url: string;
+  error: JobErrorInfo | null;
+  attemptsMade: number;
+  failedAt: string;
+  /** Without credentials: no `Authorization`/`Cookie` header, no token in the auth context */
+  jobData: JobData;
+}
+
+export interface DeadLetterFilter {
+  /** Exact NATS pattern, or a prefix ending in `*` (e.g. `enrollments.*`) */
+  pattern?: string;
+  /** Matches the error type (`http`, `timeout`...) or its class (`business`...) */
+  errorType?: string;
+  /** Epoch ms bounds on the failure time */
+  from?: number;
+  to?: number;
+}
+
+export interface DeadLetterReplayResult {
+  jobId: string;
+  replayJobId?: string;
+  error?: string;
+}
+
+/** Request headers that carry the caller's credentials */
+const CREDENTIAL_HEADERS = ['authorization', 'cookie'];
+
+/**
+ * Dead-letter store for jobs that exhausted their attempts. BullMQ queue
+ * names cannot contain ':', so `<queue>:dlq` lives in Redis as a sorted set
+ * (by failure time) plus a hash with the entries.
+ */
+@Injectable()
+export class DeadLetterService {
+  private readonly logger = new Logger(DeadLetterService.name);
+  private readonly keyPrefix = process.env.QUEUE_DLQ_PREFIX || 'queues:';
+  private readonly maxEntries = Math.max(
+    1,
+    parseInt(process.env.QUEUE_DLQ_MAX_ENTRIES || '1000', 10) || 1000,
+  );
+
+  constructor(
+    @Inject('REDIS_CLIENT') private readonly redis: Redis,
+    private readonly queueService: DynamicQueueService,
+    private readonly jobStatusService: JobStatusService,
+  ) {}
+
+  isEnabled(): boolean {
+    return process.env.QUEUE_DLQ_ENABLED !== 'false';
+  }
+
+  /**
+   * Stores a job that failed for good and removes it from BullMQ's failed set
+   */
+  async moveToDeadLetter(
+    job: Job,
+    queueName: string,
+    error: JobErrorInfo | null,
+  ) {
+    const jobData = job.data as JobData;
+    const failedAt = job.finishedOn ?? Date.now();
+    const entry: DeadLetterEntry = {
+      jobId: job.id!,
+      queueName,
+      pattern: jobData.message?.pattern ?? null,
+      method: jobData.method,
+      url: jobData.rawUrl ?? jobData.url,
+      error: error ?? {
+        message: job.failedReason || 'Job failed',
+        type: 'unknown',
+      },
+      attemptsMade: job.attemptsMade,
+      failedAt: new Date(failedAt).toISOString(),
+      jobData: this.withoutCredentials(jobData),
+    };
+
+    const indexKey = this.indexKey(queueName);
+    await this.redis
+      .multi()
+      .zadd(indexKey, failedAt, entry.jobId)
+      .hset(this.entriesKey(queueName), entry.jobId, JSON.stringify(entry))
+      .exec();
+    await this.trim(queueName);
+
+    try {
+      await job.remove();
+    } catch (err: any) {
+      this.logger.warn(
+        `Job ${job.id} stored in '${indexKey}' but could not be removed from '${queueName}': ${err?.message || err}`,
+      );
+    }
+
+    this.logger.warn(
+      `Job ${entry.jobId} moved to dead-letter queue '${indexKey}'`,
+    );
+    return entry;
+  }
+
+  /** Newest first */
+  async list(
+    queueName: string,
+    filter: DeadLetterFilter = {},
+    limit = 50,
+    offset = 0,
+  ): Promise<{ total: number; entries: DeadLetterEntry[] }> {
+    const matching = await this.findEntries(queueName, filter);
+    return {
+      total: matching.length,
+      entries: matching.slice(offset, offset + limit),
+    };
+  }
+
+  async get(queueName: string, jobId: string): Promise<DeadLetterEntry | null> {
+    const raw = await this.redis.hget(this.entriesKey(queueName), jobId);
+    return raw ? this.parseEntry(raw) : null;
+  }
+
+  async count(queueName: string): Promise<number> {
+    return this.redis.zcard(this.indexKey(queueName));
+  }
+
+  /**
+   * Re-enqueues entries as new jobs linked to the original `jobId`. With no
+   * `jobIds`, every entry matching the filter is replayed.
+   *
+   * The replay runs as the original author: it keeps the user that the
+   * gateway verified when the job was first queued, but not the token, which
+   * may have expired or been revoked since. Replaying is an ADMIN action
+   */
+  async replay(
+    queueName: string,
+    jobIds: string[] | undefined,
+    filter: DeadLetterFilter = {},
+    payload?: any,
+  ): Promise<DeadLetterReplayResult[]> {
+    const entries = await this.selectEntries(queueName, jobIds, filter);
+    const results: DeadLetterReplayResult[] = [];
+
+    for (const { jobId, entry } of entries) {
+      if (!entry) {
+        results.push({ jobId, error: 'Not found in dead-letter queue' });
+        continue;
+      }
+
+      // El enlace apunta siempre al job que conoce el cliente, aunque sea una re-ejecución
+      const replayOf = entry.jobData.replayOf ?? entry.jobId;
+      const replayJobId = `${replayOf}_replay_${Date.now().toString(36)}${Math.random().toString(36).substring(2, 5)}`;
+      const jobData: JobData = {
+        ...entry.jobData,
+        id: replayJobId,
+        timestamp: Date.now(),
+        payload: payload ?? entry.jobData.payload,
+        replayOf,
+      };
+
+      try {
+        await this.jobStatusService.setOwner(replayJobId, jobData.userId);
+        await this.jobStatusService.markJobQueued(
+          replayJobId,
+          queueName,
+          replayOf,
+        );
+        try {
+          await this.queueService.addJobToQueue(queueName, jobData);
+        } catch (error) {
+          // El original vuelve a su estado de fallo
+          await this.jobStatusService.discardJob(replayJobId);
+          this.jobStatusService.markJobFailed(
+            replayOf,
+            entry.error?.message ?? 'Job failed',
+            undefined,
+            entry.error ?? undefined,
+          );
+          throw error;
+        }
+        await this.remove(queueName, [jobId]);
+        results.push({ jobId, replayJobId });
+      } catch (err: any) {
+        results.push({ jobId, error: err?.message || `${err}` });
+      }
+    }
+
+    return results;
+  }
+
+  /** Deletes the given entries, or every entry matching the filter */
+  async purge(
+    queueName: string,
+    jobIds: string[] | undefined,
+    filter: DeadLetterFilter = {},
+  ): Promise<number> {
+    const ids = jobIds?.length
+      ? jobIds
+      : (await this.findEntries(queueName, filter)).map((entry) => entry.jobId);
+    return this.remove(queueName, ids);
+  }
+
+  private async selectEntries(
+    queueName: string,
+    jobIds: string[] | undefined,
+    filter: DeadLetterFilter,
+  ): Promise<{ jobId: string; entry: DeadLetterEntry | null }[]> {
+    if (!jobIds?.length) {
+      const entries = await this.findEntries(queueName, filter);
+      return entries.map((entry) => ({ jobId: entry.jobId, entry }));
+    }
+
+    return Promise.all(
+      jobIds.map(async (jobId) => ({
+        jobId,
+        entry: await this.get(queueName, jobId),
+      })),
+    );
+  }
+
+  private async findEntries(
+    queueName: string,
+    filter: DeadLetterFilter,
+  ): Promise<DeadLetterEntry[]> {
+    const ids = await this.redis.zrevrangebyscore(
+      this.indexKey(queueName),
+      filter.to ?? '+inf',
+      filter.from ?? '-inf',
+    );
+    if (ids.length === 0) return [];
+
+    const raw = await this.redis.hmget(this.entriesKey(queueName), ...ids);
+    return raw
+      .map((value) => (value ? this.parseEntry(value) : null))
+      .filter(
+        (entry): entry is DeadLetterEntry =>
+          !!entry && this.matchesFilter(entry, filter),
+      );
+  }
+
+  private matchesFilter(entry: DeadLetterEntry, filter: DeadLetterFilter) {
+    if (filter.pattern) {
+      const pattern = entry.pattern ?? '';
+      const matches = filter.pattern.endsWith('*')
+        ? pattern.startsWith(filter.pattern.slice(0, -1))
+        : pattern === filter.pattern;
+      if (!matches) return false;
+    }
+
+    if (filter.errorType) {
+      const { type, errorClass } = entry.error ?? {};
+      if (filter.errorType !== type && filter.errorType !== errorClass) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  private async remove(queueName: string, jobIds: string[]): Promise<number> {
+    if (jobIds.length === 0) return 0;
+    const [[, removed]] = (await this.redis
+      .multi()
+      .zrem(this.indexKey(queueName), ...jobIds)
+      .hdel(this.entriesKey(queueName), ...jobIds)
+      .exec()) as [Error | null, number][];
+    return removed;
+  }
+
+  private async trim(queueName: string) {
+    const overflow = (await this.count(queueName)) - this.maxEntries;
+    if (overflow <= 0) return;
+
+    // Descarta las entradas más antiguas
+    const oldest = await this.redis.zrange(
+      this.indexKey(queueName),
+      0,
+      overflow - 1,
+    );
+    await this.remove(queueName, oldest);
+  }
+
+  /** Entries stored before credentials were stripped are cleaned on read */
+  private parseEntry(raw: string): DeadLetterEntry | null {
+    try {
+      const entry = JSON.parse(raw) as DeadLetterEntry;
+      return { ...entry, jobData: this.withoutCredentials(entry.jobData) };
+    } catch (err: any) {
+      this.logger.warn(`Invalid dead-letter entry: ${err?.message || err}`);
+      return null;
+    }
+  }
+
+  private withoutCredentials(jobData: JobData): JobData {
+    const headers = { ...jobData.headers };
+    for (const header of CREDENTIAL_HEADERS) delete headers[header];
+
+    const validation = jobData.context?.authValidation as
+      | { user?: unknown }
+      | undefined;
+    const context = jobData.context && {
+      ...jobData.context,
+      ...(validation && { authValidation: { user: validation.user } }),
+    };
+    return { ...jobData, headers, context };
+  }
+
+  private indexKey(queueName: string) {
+    return `${this.keyPrefix}${queueName}:dlq`;
+  }
+
+  private entriesKey(queueName: string) {
+    return `${this.indexKey(queueName)}:entries`;
+  }
+}
@@ -5,14 +5,27 @@ import {
   Logger,
   Inject,
 } from '@nestjs/common';
-import { Queue } from 'bullmq';
+import { FlowJob, FlowProducer, Job, Queue, RepeatOptions } from 'bullmq';
 import { RedisService } from '../redis/redis.service';
-import { IQueueConfigRepository, QUEUE_CONFIG_REPOSITORY } from './queue-config.repository';
+import { IQueueConfigRepository, QUEUE_CONFIG_REPOSITORY, QueueConfigEvent } from './queue-config.repository';
 import { JobData } from '../interceptors/interfaces/job-data.interface';
-import { QueueSystemConfig, QueueDefinition, loadQueueConfig } from './queue-config.interface';
-import { buildQueueConfig as buildQueueConfigUtil } from './utils/queue-config.util';
-import { QueueRouter } from './utils/queue-routing.util';
+import {
+  QueueSystemConfig,
+  QueueDefinition,
+  QueueConfigDiff,
+  QueueConfigSource,
+  loadQueueConfig,
+} from './queue-config.interface';
+import {
+  buildQueueConfig as buildQueueConfigUtil,
+  getRedisConnectionOptions,
+  getRetryJobOptions,
+} from './utils/queue-config.util';
+import { QueueRouter, QueueRoutingDecision } from './utils/queue-routing.util';
 import { JobHistoryRepository } from './utils/job-history.repository';
+import { FairSchedulingService } from './fair-scheduling.service';
+import { diffQueueConfig } from './utils/queue-config-diff.util';
+import { envs } from '../../config';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -32,10 +45,16 @@ export class DynamicQueueService implements OnModuleInit, OnModuleDestroy {
   private readonly resultHistoryLimit: number;
   private router!: QueueRouter;
   private historyRepo!: JobHistoryRepository;
+  private flowProducer?: FlowProducer;
+  private configVersion = 0;
+  private configVersionUpdatedAt?: string;
+  /** Tail of the config changes being applied, one after another */
+  private pendingConfigChange: Promise<unknown> = Promise.resolve();
 
   constructor(
     private readonly redisService: RedisService,
     @Inject(QUEUE_CONFIG_REPOSITORY) private readonly configRepo: IQueueConfigRepository,
+    private readonly fairness: FairSchedulingService,
   ) {
     this.queueConfig = loadQueueConfig();
     this.resultHistoryLimit = this.resolveHistoryLimit();
@@ -58,6 +77,7 @@ export class DynamicQueueService implements OnModuleInit, OnModuleDestroy {
   async onModuleDestroy() {
     const closePromises = Array.from(this.queues.values()).map((queue) => queue.close());
     await Promise.all(closePromises);
+    await this.flowProducer?.close();
     this.logger.log(`All ${this.queues.size} queues closed`);
   }
 
@@ -109,11 +129,25 @@ export class DynamicQueueService implements OnModuleInit, OnModuleDestroy {
     }
 
     const queueDef = this.queueDefinitions.get(queueName);
-    const job = await queue.add('process-request', jobData, {
-      ...options,
-      jobId: jobData.id,
-      priority: options?.priority || queueDef?.priority || 1,
-    });
+    // Reparto justo entre usuarios: la prioridad depende de su cola pendiente
+    const fairPriority = options?.priority
+      ? undefined
+      : await this.fairness.assignPriority(queueName, jobData);
+    let job: Job;
+    try {
+      job = await queue.add('process-request', jobData, {
+        ...(queueDef ? getRetryJobOptions(queueDef, jobData.retryPolicy) : {}),
+        ...options,
+        jobId: jobData.id,
+        priority: options?.priority || fairPriority || queueDef?.priority || 1,
+      });
+    } catch (error) {
+      // El job no llegó a la cola: no cuenta como pendiente del usuario
+      if (fairPriority !== undefined) {
+        await this.fairness.forget(queueName, jobData);
+      }
+      throw error;
+    }
 
     this.logger.log(`Job ${job.id} queued in '${queueName}' queue`);
     return job;
@@ -123,10 +157,85 @@ export class DynamicQueueService implements OnModuleInit, OnModuleDestroy {
     return this.router.determineQueueForUrl(url);
   }
 
+  async explainQueueForUrl(url: string): Promise<QueueRoutingDecision> {
+    return this.router.explainQueueForUrl(url);
+  }
+
   async getJobStatus(jobId: string) {
     return this.historyRepo.getJobStatus(jobId);
   }
 
+  /** Delayed jobs of every queue, including retries waiting on their backoff */
+  async getDelayedJobs(): Promise<{ job: Job; queueName: string }[]> {
+    const delayed: { job: Job; queueName: string }[] = [];
+    for (const [queueName, queue] of this.queues) {
+      const jobs = await queue.getDelayed();
+      delayed.push(...jobs.map((job) => ({ job: job as Job, queueName })));
+    }
+    return delayed;
+  }
+
+  async findJob(jobId: string): Promise<{ job: Job; queueName: string } | null> {
+    for (const [queueName, queue] of this.queues) {
+      const job = await queue.getJob(jobId);
+      if (job) return { job, queueName };
+    }
+    return null;
+  }
+
+  /**
+   * Adds a BullMQ flow: every parent job waits until its children completed.
+   * Job options are not taken from the queues' defaults, the caller sets them
+   */
+  async addFlow(flow: FlowJob) {
+    if (!this.flowProducer) {
+      this.flowProducer = new FlowProducer({ connection: getRedisConnectionOptions() });
+    }
+    return this.flowProducer.add(flow);
+  }
+
+  /**
+   * Creates or replaces a BullMQ job scheduler. Idempotent by `schedulerId`,
+   * so every gateway replica can register the same definition safely
+   */
+  async upsertJobScheduler(queueName: string, schedulerId: string, repeat: RepeatOptions, jobData: JobData) {
+    const queue = this.queues.get(queueName);
+    if (!queue) {
+      throw new Error(`Queue '${queueName}' not found`);
+    }
+
+    const queueDef = this.queueDefinitions.get(queueName);
+    return queue.upsertJobScheduler(schedulerId, repeat, {
+      name: 'process-request',
+      data: jobData,
+      opts: {
+        ...(queueDef ? getRetryJobOptions(queueDef, jobData.retryPolicy) : {}),
+        priority: queueDef?.priority || 1,
+      },
+    });
+  }
+
+  async removeJobScheduler(queueName: string, schedulerId: string): Promise<boolean> {
+    const queue = this.queues.get(queueName);
+    return queue ? queue.removeJobScheduler(schedulerId) : false;
+  }
+
+  /** Epoch ms of the next run, or null when the scheduler is not registered */
+  async getJobSchedulerNextRun(queueName: string, schedulerId: string): Promise<number | null> {
+    const queue = this.queues.get(queueName);
+    const scheduler = queue ? await queue.getJobScheduler(schedulerId) : undefined;
+    return scheduler?.next ?? null;
+  }
+
+  /** Latest job results of a queue, newest first */
+  async getQueueHistory(queueName: string, limit?: number) {
+    return this.historyRepo.getQueueHistory(queueName, limit);
+  }
+
+  async getScheduleHistory(scheduleId: string, limit?: number) {
+    return this.historyRepo.getScheduleHistory(scheduleId, limit);
+  }
+
   async getQueuesStats() {
     const stats: Record<string, any> = {};
 
@@ -154,6 +263,28 @@ export class DynamicQueueService implements OnModuleInit, OnModuleDestroy {
     };
   }
 
+  /** Jobs waiting to start (FIFO and prioritized), running and delayed */
+  async getQueueLoad(queueName: string) {
+    const queue = this.queues.get(queueName);
+    if (!queue) throw new Error(`Queue '${queueName}' not found`);
+
+    const counts = await queue.getJobCounts('waiting', 'prioritized', 'active', 'delayed');
+    return {
+      waiting: (counts.waiting ?? 0) + (counts.prioritized ?? 0),
+      active: counts.active ?? 0,
+      delayed: counts.delayed ?? 0,
+    };
+  }
+
+  /** Jobs completed in each of the last minutes, newest first (worker metrics) */
+  async getCompletedPerMinute(queueName: string, minutes: number): Promise<number[]> {
+    const queue = this.queues.get(queueName);
+    if (!queue) throw new Error(`Queue '${queueName}' not found`);
+
+    const metrics = await queue.getMetrics('completed', 0, minutes - 1);
+    return metrics.data;
+  }
+
   async getCompletedJobResults(limit = 50, queueName?: string) {
     return this.historyRepo.getCompletedJobResults(limit, queueName);
   }
@@ -171,6 +302,14 @@ export class DynamicQueueService implements OnModuleInit, OnModuleDestroy {
   }
 
   async setQueueWorkers(queueName: string, workers: number, persist = true): Promise<QueueDefinition> {
+    if (persist) {
+      return this.runConfigChange(async () => {
+        const updated = await this.setQueueWorkers(queueName, workers, false);
+        await this.persistConfig('queue-updated', queueName, updated);
+        return updated;
+      });
+    }
+
     const existing = this.queueDefinitions.get(queueName);
     if (!existing) throw new Error(`Queue '${queueName}' not found`);
 
@@ -181,17 +320,19 @@ export class DynamicQueueService implements OnModuleInit, OnModuleDestroy {
     const idx = this.queueConfig.queues.findIndex((q) => q.name === queueName);
     if (idx >= 0) this.queueConfig.queues[idx] = updated;
 
-    if (persist) {
-      await this.configRepo.saveConfig(this.queueConfig);
-      await this.saveConfigToFile();
-      await this.configRepo.publishUpdate({ type: 'queue-updated', queueName, timestamp: new Date().toISOString() });
-    }
-
     this.logger.log(`Queue '${queueName}' workers updated in config: ${existing.workers ?? 0} -> ${sanitized}`);
     return updated;
   }
 
   async setQueueConcurrency(queueName: string, concurrency: number, persist = true): Promise<QueueDefinition> {
+    if (persist) {
+      return this.runConfigChange(async () => {
+        const updated = await this.setQueueConcurrency(queueName, concurrency, false);
+        await this.persistConfig('queue-updated', queueName, updated);
+        return updated;
+      });
+    }
+
     const existing = this.queueDefinitions.get(queueName);
     if (!existing) throw new Error(`Queue '${queueName}' not found`);
 
@@ -202,12 +343,6 @@ export class DynamicQueueService implements OnModuleInit, OnModuleDestroy {
     const idx = this.queueConfig.queues.findIndex((q) => q.name === queueName);
     if (idx >= 0) this.queueConfig.queues[idx] = updated;
 
-    if (persist) {
-      await this.configRepo.saveConfig(this.queueConfig);
-      await this.saveConfigToFile();
-      await this.configRepo.publishUpdate({ type: 'queue-updated', queueName, timestamp: new Date().toISOString() });
-    }
-
     this.logger.log(`Queue '${queueName}' concurrency updated in config: ${existing.concurrency ?? 1} -> ${sanitized}`);
     return updated;
   }
@@ -233,7 +368,15 @@ export class DynamicQueueService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
-  async createQueue(queueDef: QueueDefinition, persist = true) {
+  async createQueue(queueDef: QueueDefinition, persist = true): Promise<QueueDefinition> {
+    if (persist) {
+      return this.runConfigChange(async () => {
+        const created = await this.createQueue(queueDef, false);
+        await this.persistConfig('queue-created', created.name, created);
+        return created;
+      });
+    }
+
     if (this.queues.has(queueDef.name)) {
       throw new Error(`Queue '${queueDef.name}' already exists`);
     }
@@ -245,15 +388,18 @@ export class DynamicQueueService implements OnModuleInit, OnModuleDestroy {
     this.queueDefinitions.set(queueDef.name, queueDef);
     this.queueConfig.queues.push(queueDef);
 
-    if (persist) {
-      await this.saveConfigToFile();
-    }
-
     this.logger.log(`Queue '${queueDef.name}' created dynamically`);
     return queueDef;
   }
 
-  async removeQueue(queueName: string, persist = true) {
+  async removeQueue(queueName: string, persist = true): Promise<void> {
+    if (persist) {
+      return this.runConfigChange(async () => {
+        await this.removeQueue(queueName, false);
+        await this.persistConfig('queue-removed', queueName);
+      });
+    }
+
     const queue = this.queues.get(queueName);
     if (!queue) throw new Error(`Queue '${queueName}' not found`);
 
@@ -262,14 +408,18 @@ export class DynamicQueueService implements OnModuleInit, OnModuleDestroy {
     this.queueDefinitions.delete(queueName);
     this.queueConfig.queues = this.queueConfig.queues.filter((q) => q.name !== queueName);
 
-    if (persist) {
-      await this.saveConfigToFile();
-    }
-
     this.logger.log(`Queue '${queueName}' removed dynamically`);
   }
 
-  async updateQueue(queueName: string, newDef: Partial<QueueDefinition>, persist = true) {
+  async updateQueue(queueName: string, newDef: Partial<QueueDefinition>, persist = true): Promise<QueueDefinition> {
+    if (persist) {
+      return this.runConfigChange(async () => {
+        const updated = await this.updateQueue(queueName, newDef, false);
+        await this.persistConfig('queue-updated', queueName, updated);
+        return updated;
+      });
+    }
+
     const existing = this.queueDefinitions.get(queueName);
     if (!existing) throw new Error(`Queue '${queueName}' not found`);
 
@@ -277,15 +427,141 @@ export class DynamicQueueService implements OnModuleInit, OnModuleDestroy {
     await this.removeQueue(queueName, false);
     await this.createQueue(updatedDef, false);
 
-    if (persist) {
+    this.logger.log(`Queue '${queueName}' updated dynamically`);
+    return updatedDef;
+  }
+
+  /**
+   * Re-read the configuration (config/queues.json or the Redis copy) and
+   * apply it to the live queues
+   */
+  async reloadConfiguration(source: QueueConfigSource = 'file'): Promise<QueueConfigDiff> {
+    const next = source === 'redis' ? await this.configRepo.getConfig() : loadQueueConfig();
+    if (!next) {
+      throw new Error(`No queue configuration available in ${source}`);
+    }
+
+    const diff = await this.applyConfiguration(next);
+
+    if (source === 'file') {
+      await this.configRepo.saveConfig(this.queueConfig);
+    } else {
       await this.saveConfigToFile();
     }
 
-    this.logger.log(`Queue '${queueName}' updated dynamically`);
-    return updatedDef;
+    this.logger.log(
+      `Queue configuration reloaded from ${source}: +${diff.added.length} -${diff.removed.length} ~${diff.updated.length}`,
+    );
+    return diff;
+  }
+
+  /**
+   * Apply a queue change published by another instance. The event carries
+   * the full definition, so Redis is not read again.
+   */
+  async applyQueueEvent(event: QueueConfigEvent): Promise<QueueConfigDiff> {
+    const name = event.queueName;
+    if (!name) throw new Error(`Config event '${event.type}' has no queueName`);
+
+    let queues = this.queueConfig.queues.filter((q) => q.name !== name);
+    if (event.type !== 'queue-removed') {
+      if (!event.definition) throw new Error(`Config event '${event.type}' for '${name}' has no definition`);
+      const index = this.queueConfig.queues.findIndex((q) => q.name === name);
+      queues = [...this.queueConfig.queues];
+      if (index >= 0) queues[index] = event.definition;
+      else queues.push(event.definition);
+    }
+
+    const diff = await this.applyConfiguration({ ...this.queueConfig, queues });
+    await this.saveConfigToFile();
+    return diff;
+  }
+
+  async publishConfigChange(type: QueueConfigEvent['type'], queueName?: string, definition?: QueueDefinition) {
+    const version = await this.configRepo.publishUpdate({
+      type,
+      queueName,
+      definition,
+      timestamp: new Date().toISOString(),
+      instanceId: envs.instanceId,
+    });
+    if (version !== undefined) this.recordConfigVersion(version);
+  }
+
+  /** Config version this instance has applied (0 = only the startup file) */
+  recordConfigVersion(version: number) {
+    if (version > this.configVersion) {
+      this.configVersion = version;
+      this.configVersionUpdatedAt = new Date().toISOString();
+    }
+  }
+
+  getConfigVersion(): { version: number; updatedAt?: string } {
+    return { version: this.configVersion, updatedAt: this.configVersionUpdatedAt };
+  }
+
+  async getClusterConfigVersion(): Promise<number | undefined> {
+    try {
+      return await this.configRepo.getVersion();
+    } catch (error: any) {
+      this.logger.warn(`Failed to read cluster config version: ${error.message}`);
+      return undefined;
+    }
   }
 
-  // Removed reloadConfiguration(): not used by controllers
+  /**
+   * Runs config changes one at a time (local ones and those from other
+   * instances), so an older change never overwrites a newer one that was
+   * applied while it was in progress
+   */
+  runConfigChange<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.pendingConfigChange.then(task);
+    this.pendingConfigChange = run.catch(() => undefined);
+    return run;
+  }
+
+  private async persistConfig(type: QueueConfigEvent['type'], queueName: string, definition?: QueueDefinition) {
+    await this.saveConfigToFile();
+    try {
+      // Solo se escribe la cola cambiada: los cambios de otras instancias se conservan
+      await this.configRepo.seedConfig(this.queueConfig);
+      if (definition) {
+        await this.configRepo.saveQueue(definition);
+      } else {
+        await this.configRepo.removeQueue(queueName);
+      }
+    } catch (error: any) {
+      this.logger.warn(`Queue '${queueName}' change not saved to the shared config: ${error.message}`);
+    }
+    await this.publishConfigChange(type, queueName, definition);
+  }
+
+  /**
+   * Create, close or rebuild the local Queue handles so they match `next`.
+   * Jobs already stored in Redis are untouched.
+   */
+  private async applyConfiguration(next: QueueSystemConfig): Promise<QueueConfigDiff> {
+    const diff = diffQueueConfig(this.queueConfig, next);
+
+    for (const name of diff.removed) {
+      if (this.queues.has(name)) await this.removeQueue(name, false);
+    }
+    for (const { name } of diff.updated) {
+      await this.updateQueue(name, next.queues.find((q) => q.name === name)!, false);
+    }
+    for (const name of diff.added) {
+      await this.createQueue(next.queues.find((q) => q.name === name)!, false);
+    }
+
+    // Same object: QueueRouter keeps a reference to it
+    this.queueConfig.queues = next.queues.map((q) => this.queueDefinitions.get(q.name) ?? q);
+    this.queueConfig.defaultQueue = next.defaultQueue;
+    this.queueConfig.jobTtl = next.jobTtl;
+    this.queueConfig.enabled = next.enabled;
+    this.queueConfig.pollingTimeout = next.pollingTimeout;
+
+    return diff;
+  }
 
   private resolveHistoryLimit(): number {
     const raw = process.env.QUEUE_RESULT_HISTORY_LIMIT;
@@ -0,0 +1,90 @@
+import Redis from 'ioredis';
+import { FairSchedulingService } from './fair-scheduling.service';
+import { JobData } from '../interceptors/interfaces/job-data.interface';
+
+describe('FairSchedulingService', () => {
+  let position: number;
+  let hincrby: jest.Mock;
+  let service: FairSchedulingService;
+
+  const jobFor = (user?: { id?: unknown; role?: string; roles?: string[] }) =>
+    ({
+      id: 'job-1',
+      context: user ? { authValidation: { user } } : {},
+    }) as unknown as JobData;
+
+  beforeEach(() => {
+    position = 1;
+    const multi = {} as Record<'hincrby' | 'expire' | 'exec', jest.Mock>;
+    multi.hincrby = jest.fn().mockReturnValue(multi);
+    multi.expire = jest.fn().mockReturnValue(multi);
+    multi.exec = jest.fn(() => Promise.resolve([[null, position]]));
+    hincrby = multi.hincrby;
+    const redis = { multi: () => multi } as unknown as Redis;
+    service = new FairSchedulingService(redis);
+  });
+
+  describe('assignPriority', () => {
+    it("counts the job as pending for the token's user", async () => {
+      await service.assignPriority('standard', jobFor({ id: 'u1' }));
+
+      expect(hincrby).toHaveBeenCalledWith(
+        'queue:fairness:standard:pending',
+        'u1',
+        1,
+      );
+    });
+
+    it('places each waiting job of a user behind the previous one', async () => {
+      const first = await service.assignPriority(
+        'standard',
+        jobFor({ id: 'u1' }),
+      );
+      position = 4;
+      const fourth = await service.assignPriority(
+        'standard',
+        jobFor({ id: 'u1' }),
+      );
+
+      // Sin boost la prioridad parte del boost máximo (10)
+      expect(first).toBe(11);
+      expect(fourth).toBe(14);
+    });
+
+    it('applies the highest boost among the roles', async () => {
+      const teacher = await service.assignPriority(
+        'standard',
+        jobFor({ id: 'u1', role: 'teacher' }),
+      );
+      const admin = await service.assignPriority(
+        'standard',
+        jobFor({ id: 'u2', roles: ['TEACHER', 'ADMIN'] }),
+      );
+
+      expect(teacher).toBe(6);
+      expect(admin).toBe(1);
+    });
+
+    it('keeps the priority within the BullMQ range', async () => {
+      position = 3_000_000;
+
+      const priority = await service.assignPriority(
+        'standard',
+        jobFor({ id: 'u1' }),
+      );
+
+      expect(priority).toBe(2_097_152);
+    });
+
+    it.each([
+      ['without a verified token', undefined],
+      ['without a user id', { role: 'ADMIN' }],
+      ['with a non-string user id', { id: 42 }],
+    ])('is undefined %s', async (_, user) => {
+      const priority = await service.assignPriority('standard', jobFor(user));
+
+      expect(priority).toBeUndefined();
+      expect(hincrby).not.toHaveBeenCalled();
+    });
+  });
+});
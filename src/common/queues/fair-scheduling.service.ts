@@ -0,0 +1,287 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import Redis from 'ioredis';
+import { QueueDefinition } from './queue-config.interface';
+import { JobData } from '../interceptors/interfaces/job-data.interface';
+import { rolesOf } from '../interceptors/utils/request-context.util';
+
+/** Highest priority value BullMQ accepts (lower value = picked first) */
+const MAX_BULLMQ_PRIORITY = 2_097_152;
+
+/**
+ * Takes an in-flight slot if the user is under the cap; on its first attempt
+ * the job also leaves `pending`. Slots are per job and expire with their
+ * lease, so a worker that dies mid-job does not keep them; a job that comes
+ * back after a stall reuses its own
+ */
+const ACQUIRE_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now)
+local limit = tonumber(ARGV[2])
+if not redis.call('ZSCORE', KEYS[1], ARGV[5]) then
+  if limit > 0 and redis.call('ZCARD', KEYS[1]) >= limit then
+    return 0
+  end
+end
+local lease = tonumber(ARGV[6])
+redis.call('ZADD', KEYS[1], now + lease, ARGV[5])
+if redis.call('PTTL', KEYS[1]) < lease then
+  redis.call('PEXPIRE', KEYS[1], lease)
+end
+redis.call('SADD', KEYS[3], ARGV[1])
+redis.call('EXPIRE', KEYS[3], ARGV[3])
+if ARGV[4] == '1' then
+  local pending = tonumber(redis.call('HGET', KEYS[2], ARGV[1]) or '0')
+  if pending > 1 then
+    redis.call('HINCRBY', KEYS[2], ARGV[1], -1)
+  else
+    redis.call('HDEL', KEYS[2], ARGV[1])
+  end
+end
+return 1
+`;
+
+/** Decrements a per-user counter without going below zero */
+const DECREMENT_SCRIPT = `
+local current = tonumber(redis.call('HGET', KEYS[1], ARGV[1]) or '0')
+if current > 1 then
+  return redis.call('HINCRBY', KEYS[1], ARGV[1], -1)
+end
+redis.call('HDEL', KEYS[1], ARGV[1])
+return 0
+`;
+
+/** Margin over the job deadline before an unreleased slot is given up */
+const SLOT_LEASE_MARGIN_MS = 30_000;
+
+export interface UserQueueUsage {
+  userId: string;
+  /** Jobs of the user being processed right now */
+  inFlight: number;
+  /** Jobs of the user waiting for their first attempt */
+  pending: number;
+}
+
+export interface QueueFairnessInfo {
+  enabled: boolean;
+  maxInFlightPerUser: number;
+  roleBoost: Record<string, number>;
+  users: UserQueueUsage[];
+}
+
+/**
+ * Fair scheduling between users of a queue. A user's n-th waiting job gets
+ * BullMQ priority n (minus the boost of their role), so new users are served
+ * before the backlog of heavy ones (round-robin). Workers also cap the jobs
+ * a user has in flight; jobs over the cap go back to the queue for a while.
+ * The user and roles are those of the token verified when the job was
+ * queued (`context.authValidation`); jobs without it (anonymous routes,
+ * internal jobs) are not throttled.
+ */
+@Injectable()
+export class FairSchedulingService {
+  private readonly logger = new Logger(FairSchedulingService.name);
+  private readonly enabled = process.env.QUEUE_FAIRNESS_ENABLED !== 'false';
+  private readonly maxInFlightPerUser = Math.max(
+    0,
+    parseInt(process.env.QUEUE_FAIRNESS_MAX_INFLIGHT || '2', 10) || 0,
+  );
+  private readonly stateTtlSeconds = Math.max(
+    60,
+    parseInt(process.env.QUEUE_FAIRNESS_STATE_TTL || '3600', 10) || 3600,
+  );
+  /** How long a job over the user's cap waits before being retried */
+  readonly throttleDelayMs = Math.max(
+    50,
+    parseInt(process.env.QUEUE_FAIRNESS_THROTTLE_DELAY_MS || '1000', 10) ||
+      1000,
+  );
+  private readonly roleBoost = this.parseRoleBoost(
+    process.env.QUEUE_FAIRNESS_ROLE_BOOST || 'ADMIN:10,TEACHER:5',
+  );
+  private readonly maxBoost = Math.max(0, ...Object.values(this.roleBoost));
+
+  constructor(@Inject('REDIS_CLIENT') private readonly redis: Redis) {}
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Priority for a job about to be queued; registers it as pending for its
+   * user. Undefined when fairness does not apply (the queue priority is used)
+   */
+  async assignPriority(
+    queueName: string,
+    jobData: JobData,
+  ): Promise<number | undefined> {
+    const user = this.verifiedUser(jobData);
+    if (!this.enabled || !user) return undefined;
+
+    const key = this.pendingKey(queueName);
+    const [[, position]] = (await this.redis
+      .multi()
+      .hincrby(key, user.id, 1)
+      .expire(key, this.stateTtlSeconds)
+      .exec()) as [[Error | null, number]];
+
+    // Los trabajos ya en espera del usuario van antes que este
+    const priority =
+      1 + this.maxBoost + (position - 1) - this.getBoost(user.roles);
+    return Math.min(Math.max(priority, 1), MAX_BULLMQ_PRIORITY);
+  }
+
+  /**
+   * Takes one of the user's in-flight slots. False when the user is at the
+   * cap, in which case the job must be put back without consuming an attempt.
+   * `deadlineMs` is how long the attempt may run: the slot is held that long
+   * (plus a margin) if it is never released
+   */
+  async acquire(
+    queueName: string,
+    queueDef: QueueDefinition,
+    jobData: JobData,
+    firstAttempt: boolean,
+    deadlineMs: number,
+  ): Promise<boolean> {
+    const user = this.verifiedUser(jobData);
+    if (!this.enabled || !user) return true;
+
+    const acquired = await this.redis.eval(
+      ACQUIRE_SCRIPT,
+      3,
+      this.inFlightKey(queueName, user.id),
+      this.pendingKey(queueName),
+      this.usersKey(queueName),
+      user.id,
+      this.getMaxInFlight(queueDef),
+      this.stateTtlSeconds,
+      firstAttempt ? '1' : '0',
+      jobData.id,
+      deadlineMs + SLOT_LEASE_MARGIN_MS,
+    );
+    return acquired === 1;
+  }
+
+  /** Frees the slot taken by `acquire` once the attempt finished */
+  async release(queueName: string, jobData: JobData) {
+    const user = this.verifiedUser(jobData);
+    if (!this.enabled || !user) return;
+
+    const key = this.inFlightKey(queueName, user.id);
+    try {
+      await this.redis.zrem(key, jobData.id);
+    } catch (err: any) {
+      this.logger.warn(
+        `Could not release fairness slot of job ${jobData.id} in ${key}: ${err?.message || err}`,
+      );
+    }
+  }
+
+  /** For waiting jobs removed before they ever ran (e.g. cancelled) */
+  async forget(queueName: string, jobData: JobData) {
+    const user = this.verifiedUser(jobData);
+    if (!this.enabled || !user) return;
+    await this.decrement(this.pendingKey(queueName), user.id);
+  }
+
+  /** User the job counts against: only a token verified by the gateway */
+  verifiedUser(jobData: JobData): { id: string; roles: string[] } | undefined {
+    const validation = jobData.context?.authValidation as
+      | { user?: { id?: unknown; role?: unknown; roles?: unknown } }
+      | undefined;
+    const user = validation?.user;
+    if (typeof user?.id !== 'string' || !user.id) return undefined;
+    return { id: user.id, roles: rolesOf(user) };
+  }
+
+  async getQueueFairness(
+    queueName: string,
+    queueDef: QueueDefinition,
+  ): Promise<QueueFairnessInfo> {
+    const [withSlots, pending] = await Promise.all([
+      this.redis.smembers(this.usersKey(queueName)),
+      this.redis.hgetall(this.pendingKey(queueName)),
+    ]);
+
+    // Solo cuentan los slots cuyo lease no ha vencido
+    const now = Date.now();
+    const inFlight: Record<string, number> = {};
+    for (const userId of withSlots) {
+      const count = await this.redis.zcount(
+        this.inFlightKey(queueName, userId),
+        now,
+        '+inf',
+      );
+      if (count > 0) {
+        inFlight[userId] = count;
+      } else {
+        await this.redis.srem(this.usersKey(queueName), userId);
+      }
+    }
+
+    const userIds = new Set([
+      ...Object.keys(inFlight),
+      ...Object.keys(pending),
+    ]);
+    const users = [...userIds]
+      .map((userId) => ({
+        userId,
+        inFlight: inFlight[userId] ?? 0,
+        pending: parseInt(pending[userId] ?? '0', 10),
+      }))
+      .sort((a, b) => b.inFlight - a.inFlight || b.pending - a.pending);
+
+    return {
+      enabled: this.enabled,
+      maxInFlightPerUser: this.getMaxInFlight(queueDef),
+      roleBoost: this.roleBoost,
+      users,
+    };
+  }
+
+  /** 0 means no cap */
+  private getMaxInFlight(queueDef: QueueDefinition): number {
+    return queueDef.maxInFlightPerUser ?? this.maxInFlightPerUser;
+  }
+
+  private getBoost(roles: string[]): number {
+    return Math.max(0, ...roles.map((role) => this.roleBoost[role] ?? 0));
+  }
+
+  private async decrement(key: string, userId: string) {
+    try {
+      await this.redis.eval(DECREMENT_SCRIPT, 1, key, userId);
+    } catch (err: any) {
+      this.logger.warn(
+        `Could not update fairness counter ${key} for ${userId}: ${err?.message || err}`,
+      );
+    }
+  }
+
+  /** `ADMIN:10,TEACHER:5` -> { ADMIN: 10, TEACHER: 5 } */
+  private parseRoleBoost(value: string): Record<string, number> {
+    const boost: Record<string, number> = {};
+    for (const entry of value.split(',')) {
+      const [role, amount] = entry.split(':').map((part) => part.trim());
+      const parsed = parseInt(amount, 10);
+      if (!role || Number.isNaN(parsed) || parsed < 0) continue;
+      boost[role.toUpperCase()] = parsed;
+    }
+    return boost;
+  }
+
+  /** Sorted set of the user's jobs in flight, scored by lease expiry */
+  private inFlightKey(queueName: string, userId: string) {
+    return `queue:fairness:${queueName}:inflight:${userId}`;
+  }
+
+  /** Users that may hold slots, for the admin view */
+  private usersKey(queueName: string) {
+    return `queue:fairness:${queueName}:inflight-users`;
+  }
+
+  private pendingKey(queueName: string) {
+    return `queue:fairness:${queueName}:pending`;
+  }
+}
@@ -0,0 +1,194 @@
+import {
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Job } from 'bullmq';
+import Redis from 'ioredis';
+import { DynamicQueueService } from './dynamic-queue.service';
+import { JobCompletionService } from './job-completion.service';
+import { FairSchedulingService } from './fair-scheduling.service';
+import { JobData } from '../interceptors/interfaces/job-data.interface';
+import { JobResultRecord } from '../workers/interfaces/job-result.interface';
+import { MessageDispatcherService } from '../workers/processing/message-dispatcher.service';
+import { JobStatusService } from '../websockets/job-status.service';
+import type { JwtPayload } from '../../auth/interfaces';
+import { ValidRoles } from '../../auth/interfaces';
+
+export interface JobCancelRequester {
+  userId?: string;
+  isAdmin: boolean;
+}
+
+export interface JobCancellationResult {
+  jobId: string;
+  queueName: string;
+  previousState: string;
+  /** `removed` for jobs that never started, `aborting` for active ones */
+  outcome: 'removed' | 'aborting';
+}
+
+/** Only the user who created a job (`JobData.userId`) or an admin may manage it */
+export function canManageJob(
+  jobData: Pick<JobData, 'userId'>,
+  requester: JobCancelRequester,
+) {
+  return (
+    requester.isAdmin ||
+    (!!jobData.userId && jobData.userId === requester.userId)
+  );
+}
+
+/** Flag checked by the processor right before dispatching a job */
+export const jobCancelledKey = (jobId: string) => `job:cancelled:${jobId}`;
+
+/**
+ * Cancels queued jobs on behalf of their author or an admin. Active jobs are
+ * aborted through a Redis channel, since the worker running them may live in
+ * another gateway instance.
+ */
+@Injectable()
+export class JobCancellationService implements OnModuleInit {
+  private readonly logger = new Logger(JobCancellationService.name);
+  private readonly channel =
+    process.env.QUEUE_CANCEL_CHANNEL || 'queues:jobs:cancel';
+  private readonly resultTtlSeconds = parseInt(
+    process.env.QUEUE_RESULT_TTL || '86400',
+    10,
+  );
+
+  constructor(
+    @Inject('REDIS_CLIENT') private readonly redis: Redis,
+    @Inject('REDIS_SUBSCRIBER') private readonly subscriber: Redis,
+    private readonly queueService: DynamicQueueService,
+    private readonly dispatcher: MessageDispatcherService,
+    private readonly jobStatusService: JobStatusService,
+    private readonly jobCompletion: JobCompletionService,
+    private readonly fairness: FairSchedulingService,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      await this.subscriber.subscribe(this.channel);
+      this.subscriber.on('message', (channel, jobId) => {
+        // La conexión de suscripción es compartida: ignorar otros canales
+        if (channel !== this.channel) return;
+        if (this.dispatcher.abort(jobId)) {
+          this.logger.log(`Aborted pending request of cancelled job ${jobId}`);
+        }
+      });
+    } catch (err: any) {
+      this.logger.warn(
+        `Active jobs can only be cancelled on this instance: ${err?.message || err}`,
+      );
+    }
+  }
+
+  requesterFrom(user: JwtPayload): JobCancelRequester {
+    const roles = [user.role, ...(user.roles ?? [])]
+      .filter((role): role is string => typeof role === 'string')
+      .map((role) => role.toUpperCase());
+
+    return {
+      userId: user.id,
+      isAdmin: roles.includes(ValidRoles.ADMIN),
+    };
+  }
+
+  async cancel(
+    jobId: string,
+    requester: JobCancelRequester,
+  ): Promise<JobCancellationResult> {
+    const found = await this.queueService.findJob(jobId);
+    if (!found) {
+      throw new NotFoundException(`Job '${jobId}' not found`);
+    }
+
+    const { job, queueName } = found;
+    if (!canManageJob(job.data as JobData, requester)) {
+      throw new ForbiddenException(
+        'Only the user who created the job or an ADMIN can cancel it',
+      );
+    }
+
+    const previousState = await job.getState();
+    if (previousState === 'completed' || previousState === 'failed') {
+      throw new ConflictException(`Job '${jobId}' already ${previousState}`);
+    }
+
+    if (previousState !== 'active' && (await this.tryRemove(job))) {
+      await this.finishRemoved(job, queueName);
+      return { jobId, queueName, previousState, outcome: 'removed' };
+    }
+
+    await this.redis.set(
+      jobCancelledKey(jobId),
+      '1',
+      'EX',
+      this.resultTtlSeconds,
+    );
+    await this.redis.publish(this.channel, jobId);
+    this.logger.log(`Cancellation of active job ${jobId} requested`);
+
+    return { jobId, queueName, previousState, outcome: 'aborting' };
+  }
+
+  private async tryRemove(job: Job): Promise<boolean> {
+    try {
+      await job.remove();
+      return true;
+    } catch (err: any) {
+      // Un worker lo tomó mientras tanto: se cancela como activo
+      this.logger.debug(
+        `Job ${job.id} could not be removed (${err?.message || err}), aborting instead`,
+      );
+      return false;
+    }
+  }
+
+  private async finishRemoved(job: Job, queueName: string) {
+    const jobData = job.data as JobData;
+    if (!job.attemptsMade) {
+      await this.fairness.forget(queueName, jobData);
+    }
+    const error = {
+      message: `Job ${job.id} was cancelled`,
+      type: 'cancelled' as const,
+      statusCode: 409,
+      retryable: false,
+    };
+    const record: JobResultRecord = {
+      jobId: job.id!,
+      queueName,
+      method: jobData.method,
+      url: jobData.rawUrl ?? jobData.url,
+      status: 'cancelled',
+      success: false,
+      statusCode: error.statusCode,
+      executedAt: new Date(jobData.timestamp).toISOString(),
+      requestBody: jobData.data,
+      query: jobData.queryParams,
+      error,
+      attemptsMade: job.attemptsMade ?? 0,
+      finishedAt: new Date().toISOString(),
+    };
+
+    await this.redis.setex(
+      `job:result:${job.id}`,
+      this.resultTtlSeconds,
+      JSON.stringify(record),
+    );
+    this.jobStatusService.markJobCancelled(job.id!, jobData.replayOf);
+    await this.jobCompletion.publish({
+      jobId: job.id!,
+      status: 'cancelled',
+      statusCode: error.statusCode,
+      error,
+    });
+    this.logger.log(`Job ${job.id} removed from '${queueName}' (cancelled)`);
+  }
+}
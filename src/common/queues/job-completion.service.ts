@@ -0,0 +1,119 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import Redis from 'ioredis';
+import { envs } from '../../config';
+import { JobErrorInfo } from '../workers/interfaces/job-result.interface';
+
+export interface JobCompletionEvent {
+  jobId: string;
+  status: 'completed' | 'failed' | 'cancelled';
+  statusCode?: number;
+  result?: any;
+  error?: JobErrorInfo | null;
+  /** Gateway instance whose worker finished the job */
+  instanceId?: string;
+  timestamp: string;
+}
+
+type CompletionWaiter = (event: JobCompletionEvent | null) => void;
+
+/**
+ * Broadcasts job outcomes over Redis pub/sub so that any gateway replica can
+ * answer a request that is waiting on a job processed by another one
+ */
+@Injectable()
+export class JobCompletionService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(JobCompletionService.name);
+  private readonly channel =
+    process.env.QUEUE_COMPLETION_CHANNEL || 'queues:jobs:completion';
+  private readonly waiters = new Map<string, CompletionWaiter>();
+  private subscribed = false;
+
+  constructor(
+    @Inject('REDIS_CLIENT') private readonly redis: Redis,
+    @Inject('REDIS_SUBSCRIBER') private readonly subscriber: Redis,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      await this.subscriber.subscribe(this.channel);
+      this.subscriber.on('message', (channel, message) => {
+        // La conexión de suscripción es compartida: ignorar otros canales
+        if (channel !== this.channel) return;
+        try {
+          const event = JSON.parse(message) as JobCompletionEvent;
+          this.settle(event.jobId, event);
+        } catch (err: any) {
+          this.logger.warn(
+            `Invalid job completion payload: ${err?.message || err}`,
+          );
+        }
+      });
+      this.subscribed = true;
+    } catch (err: any) {
+      this.logger.warn(
+        `Synchronous wait disabled, could not subscribe to '${this.channel}': ${err?.message || err}`,
+      );
+    }
+  }
+
+  onModuleDestroy() {
+    for (const jobId of [...this.waiters.keys()]) {
+      this.settle(jobId, null);
+    }
+  }
+
+  isAvailable(): boolean {
+    return this.subscribed;
+  }
+
+  async publish(event: Omit<JobCompletionEvent, 'instanceId' | 'timestamp'>) {
+    const payload: JobCompletionEvent = {
+      ...event,
+      instanceId: envs.instanceId,
+      timestamp: new Date().toISOString(),
+    };
+
+    try {
+      await this.redis.publish(this.channel, JSON.stringify(payload));
+    } catch (err: any) {
+      this.logger.warn(
+        `Failed to publish completion of job ${event.jobId}: ${err?.message || err}`,
+      );
+    }
+  }
+
+  /**
+   * Resolves with the outcome of the job, or null once the wait elapses.
+   * Must be called before the job is enqueued so a fast job is not missed
+   */
+  waitFor(
+    jobId: string,
+    timeoutMs: number,
+  ): Promise<JobCompletionEvent | null> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => this.settle(jobId, null), timeoutMs);
+      this.waiters.set(jobId, (event) => {
+        clearTimeout(timer);
+        resolve(event);
+      });
+    });
+  }
+
+  /** Drops the waiter of a job that could not be enqueued */
+  cancelWait(jobId: string) {
+    this.settle(jobId, null);
+  }
+
+  private settle(jobId: string, event: JobCompletionEvent | null) {
+    const waiter = this.waiters.get(jobId);
+    if (!waiter) return;
+    this.waiters.delete(jobId);
+    waiter(event);
+  }
+}
@@ -0,0 +1,152 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleInit,
+} from '@nestjs/common';
+import { envs } from '../../config';
+import { DynamicQueueService } from './dynamic-queue.service';
+import {
+  IQueueConfigRepository,
+  QUEUE_CONFIG_REPOSITORY,
+  QueueConfigEvent,
+} from './queue-config.repository';
+import { QueueConfigDiff, QueueConfigSource } from './queue-config.interface';
+import {
+  DynamicWorkerService,
+  WorkerReconcileResult,
+} from '../workers/dynamic-worker.service';
+import { isEmptyDiff } from './utils/queue-config-diff.util';
+
+export interface QueueConfigReloadResult {
+  source: QueueConfigSource;
+  changed: boolean;
+  diff: QueueConfigDiff;
+  workers: WorkerReconcileResult[];
+}
+
+/**
+ * Applies queue configuration reloads to queues and workers, and keeps the
+ * other gateway instances in sync through the config channel.
+ */
+@Injectable()
+export class QueueConfigSyncService
+  implements OnModuleInit, OnApplicationBootstrap
+{
+  private readonly logger = new Logger(QueueConfigSyncService.name);
+
+  constructor(
+    private readonly queueService: DynamicQueueService,
+    private readonly workerService: DynamicWorkerService,
+    @Inject(QUEUE_CONFIG_REPOSITORY)
+    private readonly configRepo: IQueueConfigRepository,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      await this.configRepo.subscribe((event) => {
+        void this.queueService.runConfigChange(() => this.handleEvent(event));
+      });
+    } catch (err: any) {
+      this.logger.warn(
+        `Config changes from other instances will not be applied: ${err?.message || err}`,
+      );
+    }
+  }
+
+  /**
+   * A replica that starts after config changes were published catches up
+   * with the shared copy (runs once workers exist, so they are reconciled)
+   */
+  async onApplicationBootstrap() {
+    const clusterVersion = await this.queueService.getClusterConfigVersion();
+    if (!clusterVersion) return;
+
+    try {
+      const { changed } = await this.queueService.runConfigChange(() =>
+        this.apply('redis'),
+      );
+      this.queueService.recordConfigVersion(clusterVersion);
+      if (changed) {
+        this.logger.log(
+          `Caught up with shared queue config (version ${clusterVersion})`,
+        );
+      }
+    } catch (err: any) {
+      this.logger.warn(
+        `Could not catch up with shared queue config: ${err?.message || err}`,
+      );
+    }
+  }
+
+  async reload(
+    source: QueueConfigSource = 'file',
+  ): Promise<QueueConfigReloadResult> {
+    const result = await this.queueService.runConfigChange(() =>
+      this.apply(source),
+    );
+
+    if (result.changed) {
+      await this.queueService.publishConfigChange('updated');
+    }
+
+    return result;
+  }
+
+  private async apply(
+    source: QueueConfigSource,
+  ): Promise<QueueConfigReloadResult> {
+    const diff = await this.queueService.reloadConfiguration(source);
+    const changed = !isEmptyDiff(diff);
+    const workers = changed
+      ? await this.workerService.reconcileWorkers(diff)
+      : [];
+    return { source, changed, diff, workers };
+  }
+
+  private async handleEvent(event: QueueConfigEvent) {
+    if (event.instanceId === envs.instanceId) {
+      return;
+    }
+
+    try {
+      // Solo el siguiente evento a la versión aplicada se aplica tal cual: uno
+      // atrasado o tras un hueco se resuelve releyendo la copia de Redis
+      const applied = this.queueService.getConfigVersion().version;
+      const inOrder = !event.version || event.version === applied + 1;
+      if (!inOrder) {
+        this.logger.debug(
+          `Config event version ${event.version} out of order (applied ${applied}), re-reading shared config`,
+        );
+      }
+
+      // Eventos sin definición (instancias antiguas) se resuelven releyendo Redis
+      const fromEvent =
+        inOrder &&
+        (event.type === 'queue-removed' ||
+          (event.type !== 'updated' && !!event.definition));
+      const diff = fromEvent
+        ? await this.queueService.applyQueueEvent(event)
+        : await this.queueService.reloadConfiguration('redis');
+      const changed = !isEmptyDiff(diff);
+      if (changed) {
+        await this.workerService.reconcileWorkers(diff);
+      }
+      if (event.version) {
+        this.queueService.recordConfigVersion(event.version);
+      }
+
+      if (changed) {
+        this.logger.log(
+          `Applied '${event.type}' from instance '${event.instanceId ?? 'unknown'}': ` +
+            `+[${diff.added.join(', ')}] -[${diff.removed.join(', ')}] ~[${diff.updated.map((u) => u.name).join(', ')}]`,
+        );
+      }
+    } catch (err: any) {
+      this.logger.error(
+        `Failed to apply config update from '${event.instanceId ?? 'unknown'}': ${err?.message || err}`,
+      );
+    }
+  }
+}
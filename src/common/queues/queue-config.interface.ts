@@ -43,6 +43,15 @@ export interface QueueDefinition {
   
   /** Whether this queue is enabled */
   enabled?: boolean;
+
+  /** Jobs a single user may have in flight at once (0 = no cap, default QUEUE_FAIRNESS_MAX_INFLIGHT) */
+  maxInFlightPerUser?: number;
+
+  /** Waiting jobs above which new requests are rejected with 503 (no limit when unset) */
+  maxWaiting?: number;
+
+  /** URL patterns rejected first, once QUEUE_SHED_LOW_PRIORITY_RATIO of `maxWaiting` is reached */
+  lowPriorityPatterns?: string[];
 }
 
 export interface QueueSystemConfig {
@@ -62,6 +71,28 @@ export interface QueueSystemConfig {
   pollingTimeout: number;
 }
 
+export type QueueConfigSource = 'file' | 'redis';
+
+export interface QueueFieldChange {
+  from: any;
+  to: any;
+}
+
+/** Result of comparing the live queue configuration with a reloaded one */
+export interface QueueConfigDiff {
+  /** Queues that became active (new, or re-enabled) */
+  added: string[];
+
+  /** Queues that stopped being active (deleted, or disabled) */
+  removed: string[];
+
+  /** Active queues whose definition changed */
+  updated: { name: string; changes: Record<string, QueueFieldChange> }[];
+
+  /** Changes to global settings (defaultQueue, jobTtl, ...) */
+  settings: Record<string, QueueFieldChange>;
+}
+
 /**
  * Default queue configuration - can be overridden via environment or config files
  */
@@ -83,6 +114,7 @@ export const DEFAULT_QUEUE_CONFIG: QueueSystemConfig = {
       processingDelay: 0,
       removeOnComplete: 100,
       removeOnFail: 50,
+      maxWaiting: 500,
       urlPatterns: [
         '/atomic-enrollment/*',
         '/auth/login',
@@ -104,6 +136,7 @@ export const DEFAULT_QUEUE_CONFIG: QueueSystemConfig = {
       processingDelay: 100,
       removeOnComplete: 100,
       removeOnFail: 50,
+      maxWaiting: 1000,
       urlPatterns: [
         '/courses/*',
         '/students/*',
@@ -127,6 +160,8 @@ export const DEFAULT_QUEUE_CONFIG: QueueSystemConfig = {
       processingDelay: 1000,
       removeOnComplete: 50,
       removeOnFail: 25,
+      maxWaiting: 300,
+      lowPriorityPatterns: ['/database-performance/*', '/analytics/*'],
       urlPatterns: [
         '/reports/*',
         '/notifications/*',
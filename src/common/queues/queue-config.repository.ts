@@ -1,19 +1,29 @@
-import { QueueSystemConfig } from './queue-config.interface';
+import { QueueDefinition, QueueSystemConfig } from './queue-config.interface';
 
 export interface QueueConfigEvent {
   type: 'updated' | 'queue-updated' | 'queue-created' | 'queue-removed';
   queueName?: string;
   timestamp: string;
   version?: number;
+  /** Gateway instance that published the event */
+  instanceId?: string;
+  /** Full definition for queue-created / queue-updated events */
+  definition?: QueueDefinition;
 }
 
 export interface IQueueConfigRepository {
   getConfig(): Promise<QueueSystemConfig | null>;
   saveConfig(config: QueueSystemConfig): Promise<void>;
+  /** Stores the full config only when there is no shared copy yet */
+  seedConfig(config: QueueSystemConfig): Promise<void>;
+  /** Stores one queue without touching the rest of the shared config */
+  saveQueue(definition: QueueDefinition): Promise<void>;
+  removeQueue(queueName: string): Promise<void>;
 
-  publishUpdate(event: QueueConfigEvent): Promise<void>;
+  /** Publishes the event with the next cluster config version, and returns that version */
+  publishUpdate(event: QueueConfigEvent): Promise<number | undefined>;
+  getVersion(): Promise<number>;
   subscribe(onMessage: (event: QueueConfigEvent) => void): Promise<void>;
 }
 
 export const QUEUE_CONFIG_REPOSITORY = 'QUEUE_CONFIG_REPOSITORY';
-
@@ -1,9 +1,17 @@
-import { Controller, Get, Param, Query } from '@nestjs/common';
+import { Body, Controller, Delete, Get, Param, Patch, Query } from '@nestjs/common';
 import { DynamicQueueService } from '../queues/dynamic-queue.service';
+import { JobCancellationService } from './job-cancellation.service';
+import { ScheduledJobService } from './scheduled-job.service';
+import { Auth, GetUser } from '../../auth/decorators';
+import { JwtPayload, ValidRoles } from '../../auth/interfaces';
 
 @Controller('queues')
 export class QueueController {
-  constructor(private readonly queueService: DynamicQueueService) {}
+  constructor(
+    private readonly queueService: DynamicQueueService,
+    private readonly cancellationService: JobCancellationService,
+    private readonly scheduledJobs: ScheduledJobService,
+  ) {}
 
   @Get('status')
   async getBatchJobStatus(@Query('ids') ids: string) {
@@ -41,7 +49,7 @@ export class QueueController {
             return {
               jobId,
               ...status,
-              error: null,
+              error: status?.error ?? null,
             };
           } catch (error) {
             return {
@@ -164,6 +172,72 @@ export class QueueController {
     };
   }
 
+  /**
+   * Cancela un job: solo su autor o un ADMIN
+   */
+  @Delete('job/:jobId')
+  @Auth(ValidRoles.ANY)
+  async cancelJob(@Param('jobId') jobId: string, @GetUser() user: JwtPayload) {
+    const result = await this.cancellationService.cancel(
+      jobId,
+      this.cancellationService.requesterFrom(user),
+    );
+
+    return {
+      message:
+        result.outcome === 'removed'
+          ? `Job ${jobId} cancelled`
+          : `Job ${jobId} is running, cancellation requested`,
+      ...result,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Jobs programados (X-Execute-At / X-Delay-Ms) del usuario; un ADMIN ve todos
+   */
+  @Get('scheduled')
+  @Auth(ValidRoles.ANY)
+  async getScheduledJobs(@GetUser() user: JwtPayload, @Query('userId') userId?: string) {
+    const jobs = await this.scheduledJobs.list(
+      this.cancellationService.requesterFrom(user),
+      userId?.trim() || undefined,
+    );
+
+    return {
+      jobs,
+      meta: {
+        total: jobs.length,
+        cancelUrl: '/queues/job/:jobId',
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Cambia la hora de ejecución de un job programado
+   */
+  @Patch('scheduled/:jobId')
+  @Auth(ValidRoles.ANY)
+  async rescheduleJob(
+    @Param('jobId') jobId: string,
+    @GetUser() user: JwtPayload,
+    @Body() body: { executeAt?: string; delayMs?: number },
+  ) {
+    const job = await this.scheduledJobs.reschedule(
+      jobId,
+      this.cancellationService.requesterFrom(user),
+      body?.executeAt,
+      body?.delayMs,
+    );
+
+    return {
+      message: `Job ${jobId} rescheduled for ${job.scheduledFor}`,
+      job,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
   @Get('health')
   async checkQueuesHealth() {
     try {
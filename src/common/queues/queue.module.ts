@@ -1,20 +1,67 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { DynamicQueueService } from './dynamic-queue.service';
+import { QueueConfigSyncService } from './queue-config-sync.service';
+import { JobCompletionService } from './job-completion.service';
+import { DeadLetterService } from './dead-letter.service';
+import { JobCancellationService } from './job-cancellation.service';
+import { ScheduledJobService } from './scheduled-job.service';
+import { RecurringJobService } from './recurring-job.service';
+import { WorkflowService } from './workflow.service';
+import { FairSchedulingService } from './fair-scheduling.service';
+import { BackpressureService } from './backpressure.service';
 import { RedisQueueConfigRepository } from './redis-queue-config.repository';
 import { QUEUE_CONFIG_REPOSITORY } from './queue-config.repository';
 import { QueueController } from './queue.controller';
+import { WorkflowController } from './workflow.controller';
 import { QueueAdminController } from '../controllers/queue-admin.controller';
+import { SchedulesAdminController } from '../controllers/schedules-admin.controller';
 import { RedisModule } from '../redis/redis.module';
 import { WorkerModule } from '../workers/worker.module';
+import { InterceptorModule } from '../interceptors/interceptor.module';
+import { WebSocketModule } from '../websockets/websocket.module';
+import { AuthModule } from '../../auth/auth.module';
 
 @Module({
-  imports: [ConfigModule, RedisModule, forwardRef(() => WorkerModule)],
-  controllers: [QueueController, QueueAdminController],
+  imports: [
+    ConfigModule,
+    RedisModule,
+    AuthModule,
+    forwardRef(() => WorkerModule),
+    forwardRef(() => InterceptorModule),
+    forwardRef(() => WebSocketModule),
+  ],
+  controllers: [
+    QueueController,
+    QueueAdminController,
+    SchedulesAdminController,
+    WorkflowController,
+  ],
   providers: [
     DynamicQueueService,
+    QueueConfigSyncService,
+    JobCompletionService,
+    DeadLetterService,
+    JobCancellationService,
+    ScheduledJobService,
+    RecurringJobService,
+    WorkflowService,
+    FairSchedulingService,
+    BackpressureService,
     { provide: QUEUE_CONFIG_REPOSITORY, useClass: RedisQueueConfigRepository },
   ],
-  exports: [DynamicQueueService, QUEUE_CONFIG_REPOSITORY],
+  exports: [
+    DynamicQueueService,
+    QueueConfigSyncService,
+    JobCompletionService,
+    DeadLetterService,
+    JobCancellationService,
+    ScheduledJobService,
+    RecurringJobService,
+    WorkflowService,
+    FairSchedulingService,
+    BackpressureService,
+    QUEUE_CONFIG_REPOSITORY,
+  ],
 })
 export class QueueModule {}
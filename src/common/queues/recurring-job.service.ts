@@ -0,0 +1,287 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import Redis from 'ioredis';
+import { DynamicQueueService } from './dynamic-queue.service';
+import { JobData } from '../interceptors/interfaces/job-data.interface';
+import { JobResultRecord } from '../workers/interfaces/job-result.interface';
+
+export interface RecurringJobDefinition {
+  /** Scheduler id; BullMQ job ids cannot contain ':' */
+  id: string;
+  /** Cron expression, with optional seconds field */
+  cron: string;
+  /** IANA timezone the cron expression is evaluated in */
+  tz?: string;
+  /** NATS pattern invoked on every run */
+  pattern: string;
+  payload?: any;
+  queueName: string;
+  description?: string;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type RecurringJobInput = Pick<
+  RecurringJobDefinition,
+  'id' | 'cron' | 'tz' | 'pattern' | 'payload' | 'queueName' | 'description'
+>;
+
+export interface RecurringJobSummary extends RecurringJobDefinition {
+  /** ISO timestamp of the next run, null while paused */
+  nextRunAt: string | null;
+}
+
+const SCHEDULE_ID_PATTERN = /^[A-Za-z0-9_-]{1,100}$/;
+
+/**
+ * Cron jobs dispatched through the queue system. Definitions live in a Redis
+ * hash so they survive restarts; the runs themselves are BullMQ job
+ * schedulers, which are upserted by id and therefore never duplicated when
+ * several gateway replicas register the same definition.
+ */
+@Injectable()
+export class RecurringJobService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(RecurringJobService.name);
+  private readonly definitionsKey =
+    process.env.QUEUE_SCHEDULES_KEY || 'queues:schedules';
+
+  constructor(
+    @Inject('REDIS_CLIENT') private readonly redis: Redis,
+    private readonly queueService: DynamicQueueService,
+  ) {}
+
+  async onApplicationBootstrap() {
+    // Las colas se crean en onModuleInit: aquí ya están disponibles
+    const definitions = await this.loadDefinitions().catch(
+      (err: any): RecurringJobDefinition[] => {
+        this.logger.warn(
+          `Could not load recurring jobs: ${err?.message || err}`,
+        );
+        return [];
+      },
+    );
+
+    for (const definition of definitions.filter((def) => def.enabled)) {
+      try {
+        await this.register(definition);
+      } catch (err: any) {
+        this.logger.error(
+          `Recurring job '${definition.id}' could not be registered: ${err?.message || err}`,
+        );
+      }
+    }
+
+    if (definitions.length > 0) {
+      this.logger.log(`${definitions.length} recurring jobs loaded`);
+    }
+  }
+
+  async list(): Promise<RecurringJobSummary[]> {
+    const definitions = await this.loadDefinitions();
+    const summaries = await Promise.all(
+      definitions.map((definition) => this.toSummary(definition)),
+    );
+    return summaries.sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  async get(id: string): Promise<RecurringJobSummary | null> {
+    const definition = await this.getDefinition(id);
+    return definition ? this.toSummary(definition) : null;
+  }
+
+  /** Registers a new definition; throws when the input is invalid or the id is taken */
+  async create(input: RecurringJobInput): Promise<RecurringJobSummary> {
+    this.validate(input);
+
+    const now = new Date().toISOString();
+    const definition: RecurringJobDefinition = {
+      id: input.id,
+      cron: input.cron.trim(),
+      tz: input.tz || undefined,
+      pattern: input.pattern,
+      payload: input.payload,
+      queueName: input.queueName,
+      description: input.description,
+      enabled: true,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    // HSETNX reserva el id: dos altas simultáneas no pueden pisarse
+    const created = await this.redis.hsetnx(
+      this.definitionsKey,
+      definition.id,
+      JSON.stringify(definition),
+    );
+    if (!created) {
+      throw new Error(`Recurring job '${input.id}' already exists`);
+    }
+
+    try {
+      await this.register(definition);
+    } catch (err) {
+      // Si la expresión cron es inválida BullMQ falla aquí: se libera el id
+      await this.redis.hdel(this.definitionsKey, definition.id);
+      throw err;
+    }
+    this.logger.log(
+      `Recurring job '${definition.id}' registered (${definition.cron} -> ${definition.pattern})`,
+    );
+
+    return this.toSummary(definition);
+  }
+
+  async pause(id: string): Promise<RecurringJobSummary | null> {
+    return this.setEnabled(id, false);
+  }
+
+  async resume(id: string): Promise<RecurringJobSummary | null> {
+    return this.setEnabled(id, true);
+  }
+
+  async remove(id: string): Promise<boolean> {
+    const definition = await this.getDefinition(id);
+    if (!definition) return false;
+
+    await this.queueService.removeJobScheduler(definition.queueName, id);
+    await this.redis.hdel(this.definitionsKey, id);
+    // Un cron nuevo con el mismo id no hereda las ejecuciones de este
+    await this.redis.del(`job:history:schedule:${id}`);
+    this.logger.log(`Recurring job '${id}' deleted`);
+    return true;
+  }
+
+  /** Latest results of the runs of a definition, newest first */
+  async getRuns(id: string, limit = 10): Promise<JobResultRecord[]> {
+    const definition = await this.getDefinition(id);
+    if (!definition) return [];
+
+    return this.queueService.getScheduleHistory(id, limit);
+  }
+
+  private async setEnabled(
+    id: string,
+    enabled: boolean,
+  ): Promise<RecurringJobSummary | null> {
+    const definition = await this.getDefinition(id);
+    if (!definition) return null;
+
+    if (enabled) {
+      await this.register(definition);
+    } else {
+      await this.queueService.removeJobScheduler(definition.queueName, id);
+    }
+
+    const updated: RecurringJobDefinition = {
+      ...definition,
+      enabled,
+      updatedAt: new Date().toISOString(),
+    };
+    await this.saveDefinition(updated);
+    this.logger.log(`Recurring job '${id}' ${enabled ? 'resumed' : 'paused'}`);
+
+    return this.toSummary(updated);
+  }
+
+  private async register(definition: RecurringJobDefinition) {
+    if (!this.queueService.isQueueAvailable(definition.queueName)) {
+      throw new Error(`Queue '${definition.queueName}' is not available`);
+    }
+
+    const url = `/admin/schedules/${definition.id}`;
+    const jobData: JobData = {
+      id: `schedule_${definition.id}`,
+      method: 'CRON',
+      url,
+      rawUrl: url,
+      data: definition.payload,
+      headers: {},
+      timestamp: Date.now(),
+      message: {
+        pattern: definition.pattern,
+        completionEvent: `${definition.pattern}.completed`,
+      },
+      payload: definition.payload,
+      scheduleId: definition.id,
+    };
+
+    await this.queueService.upsertJobScheduler(
+      definition.queueName,
+      definition.id,
+      { pattern: definition.cron, tz: definition.tz },
+      jobData,
+    );
+  }
+
+  private validate(input: RecurringJobInput) {
+    if (!input?.id || !SCHEDULE_ID_PATTERN.test(input.id)) {
+      throw new Error(
+        "'id' is required and may only contain letters, digits, '-' and '_'",
+      );
+    }
+    if (typeof input.cron !== 'string' || !input.cron.trim()) {
+      throw new Error("'cron' expression is required");
+    }
+    if (typeof input.pattern !== 'string' || !input.pattern) {
+      throw new Error("'pattern' (NATS pattern) is required");
+    }
+    if (typeof input.queueName !== 'string' || !input.queueName) {
+      throw new Error("'queueName' is required");
+    }
+  }
+
+  private async toSummary(
+    definition: RecurringJobDefinition,
+  ): Promise<RecurringJobSummary> {
+    const next = definition.enabled
+      ? await this.queueService
+          .getJobSchedulerNextRun(definition.queueName, definition.id)
+          .catch(() => null)
+      : null;
+
+    return {
+      ...definition,
+      nextRunAt: next ? new Date(next).toISOString() : null,
+    };
+  }
+
+  private async loadDefinitions(): Promise<RecurringJobDefinition[]> {
+    const raw = await this.redis.hvals(this.definitionsKey);
+    return raw
+      .map((value) => this.parseDefinition(value))
+      .filter(
+        (definition): definition is RecurringJobDefinition => !!definition,
+      );
+  }
+
+  private async getDefinition(
+    id: string,
+  ): Promise<RecurringJobDefinition | null> {
+    const raw = await this.redis.hget(this.definitionsKey, id);
+    return raw ? this.parseDefinition(raw) : null;
+  }
+
+  private async saveDefinition(definition: RecurringJobDefinition) {
+    await this.redis.hset(
+      this.definitionsKey,
+      definition.id,
+      JSON.stringify(definition),
+    );
+  }
+
+  private parseDefinition(raw: string): RecurringJobDefinition | null {
+    try {
+      return JSON.parse(raw) as RecurringJobDefinition;
+    } catch (err: any) {
+      this.logger.warn(
+        `Invalid recurring job definition: ${err?.message || err}`,
+      );
+      return null;
+    }
+  }
+}
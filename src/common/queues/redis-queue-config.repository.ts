@@ -1,13 +1,46 @@
 import { Inject, Injectable, Logger } from '@nestjs/common';
 import Redis from 'ioredis';
 import { IQueueConfigRepository, QueueConfigEvent } from './queue-config.repository';
-import { QueueSystemConfig } from './queue-config.interface';
+import { QueueDefinition, QueueSystemConfig } from './queue-config.interface';
 
+/**
+ * Moves the queues of a legacy config document (all queues inside one JSON
+ * value) to the per-queue hash, only if the document is still the one read
+ */
+const MIGRATE_SCRIPT = `
+if redis.call('GET', KEYS[1]) ~= ARGV[1] then
+  return 0
+end
+redis.call('SET', KEYS[1], ARGV[2])
+for i = 3, #ARGV, 2 do
+  redis.call('HSETNX', KEYS[2], ARGV[i], ARGV[i + 1])
+end
+return 1
+`;
+
+/** Creates the shared config from a full one, unless it already exists */
+const SEED_SCRIPT = `
+if not redis.call('SET', KEYS[1], ARGV[1], 'NX') then
+  return 0
+end
+for i = 2, #ARGV, 2 do
+  redis.call('HSETNX', KEYS[2], ARGV[i], ARGV[i + 1])
+end
+return 1
+`;
+
+/**
+ * Shared queue config: the global settings in `configKey` and one hash field
+ * per queue in `<configKey>:queues`, so a change to one queue never rewrites
+ * the others (concurrent changes from several instances do not get lost)
+ */
 @Injectable()
 export class RedisQueueConfigRepository implements IQueueConfigRepository {
   private readonly logger = new Logger(RedisQueueConfigRepository.name);
   private readonly configKey = process.env.QUEUE_CONFIG_KEY || 'queues:config';
   private readonly channel = process.env.QUEUE_CONFIG_CHANNEL || 'queues:config:events';
+  private readonly versionKey = `${this.configKey}:version`;
+  private readonly queuesKey = `${this.configKey}:queues`;
 
   constructor(
     @Inject('REDIS_CLIENT') private readonly redis: Redis,
@@ -16,36 +49,86 @@ export class RedisQueueConfigRepository implements IQueueConfigRepository {
 
   async getConfig(): Promise<QueueSystemConfig | null> {
     try {
-      const data = await this.redis.get(this.configKey);
+      const [data, fields] = await Promise.all([
+        this.redis.get(this.configKey),
+        this.redis.hgetall(this.queuesKey),
+      ]);
       if (!data) return null;
-      return JSON.parse(data) as QueueSystemConfig;
+      const config = JSON.parse(data) as QueueSystemConfig;
+      // Copias antiguas guardan las colas dentro del documento
+      if (!Array.isArray(config.queues)) {
+        config.queues = Object.values(fields).map((raw) => JSON.parse(raw) as QueueDefinition);
+      }
+      return config;
     } catch (err) {
       this.logger.warn(`Failed to read queue config from Redis: ${err.message}`);
       return null;
     }
   }
 
+  /** Replaces the whole shared config (reload from the config file) */
   async saveConfig(config: QueueSystemConfig): Promise<void> {
+    const { queues, ...settings } = config;
     try {
-      await this.redis.set(this.configKey, JSON.stringify(config));
+      const tx = this.redis.multi().set(this.configKey, JSON.stringify(settings)).del(this.queuesKey);
+      for (const queue of queues) {
+        tx.hset(this.queuesKey, queue.name, JSON.stringify(queue));
+      }
+      await tx.exec();
     } catch (err) {
       this.logger.error(`Failed to save queue config to Redis: ${err.message}`);
       throw err;
     }
   }
 
-  async publishUpdate(event: QueueConfigEvent): Promise<void> {
+  async seedConfig(config: QueueSystemConfig): Promise<void> {
+    const { queues, ...settings } = config;
+    const fields = queues.flatMap((queue) => [queue.name, JSON.stringify(queue)]);
+    await this.redis.eval(SEED_SCRIPT, 2, this.configKey, this.queuesKey, JSON.stringify(settings), ...fields);
+  }
+
+  async saveQueue(definition: QueueDefinition): Promise<void> {
+    try {
+      await this.migrateLegacyConfig();
+      await this.redis.hset(this.queuesKey, definition.name, JSON.stringify(definition));
+    } catch (err) {
+      this.logger.error(`Failed to save queue '${definition.name}' to Redis: ${err.message}`);
+      throw err;
+    }
+  }
+
+  async removeQueue(queueName: string): Promise<void> {
+    try {
+      await this.migrateLegacyConfig();
+      await this.redis.hdel(this.queuesKey, queueName);
+    } catch (err) {
+      this.logger.error(`Failed to remove queue '${queueName}' from Redis: ${err.message}`);
+      throw err;
+    }
+  }
+
+  async publishUpdate(event: QueueConfigEvent): Promise<number | undefined> {
     try {
-      await this.redis.publish(this.channel, JSON.stringify(event));
+      const version = await this.redis.incr(this.versionKey);
+      await this.redis.publish(this.channel, JSON.stringify({ ...event, version }));
+      return version;
     } catch (err) {
       this.logger.warn(`Failed to publish config event: ${err.message}`);
+      return undefined;
     }
   }
 
+  async getVersion(): Promise<number> {
+    const raw = await this.redis.get(this.versionKey);
+    return raw ? parseInt(raw, 10) : 0;
+  }
+
   async subscribe(onMessage: (event: QueueConfigEvent) => void): Promise<void> {
     try {
       await this.subscriber.subscribe(this.channel);
-      this.subscriber.on('message', (_channel, message) => {
+      this.subscriber.on('message', (channel, message) => {
+        // La conexión de suscripción es compartida: ignorar otros canales
+        if (channel !== this.channel) return;
         try {
           const evt = JSON.parse(message) as QueueConfigEvent;
           onMessage(evt);
@@ -59,5 +142,31 @@ export class RedisQueueConfigRepository implements IQueueConfigRepository {
       throw err;
     }
   }
+
+  /** Per-queue writes on a legacy document would hide the queues kept inside it */
+  private async migrateLegacyConfig() {
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const raw = await this.redis.get(this.configKey);
+      if (!raw) return;
+      const { queues, ...settings } = JSON.parse(raw) as QueueSystemConfig;
+      if (!Array.isArray(queues)) return;
+
+      const fields = queues.flatMap((queue) => [queue.name, JSON.stringify(queue)]);
+      const migrated = await this.redis.eval(
+        MIGRATE_SCRIPT,
+        2,
+        this.configKey,
+        this.queuesKey,
+        raw,
+        JSON.stringify(settings),
+        ...fields,
+      );
+      if (migrated === 1) {
+        this.logger.log(`Shared queue config migrated to per-queue fields (${queues.length} queues)`);
+        return;
+      }
+    }
+    throw new Error('Shared queue config changed while it was being migrated');
+  }
 }
 
@@ -0,0 +1,123 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Job } from 'bullmq';
+import { DynamicQueueService } from './dynamic-queue.service';
+import { JobCancelRequester, canManageJob } from './job-cancellation.service';
+import { JobData } from '../interceptors/interfaces/job-data.interface';
+import { JobStatusService } from '../websockets/job-status.service';
+import { resolveJobSchedule } from './utils/job-schedule.util';
+
+export interface ScheduledJobSummary {
+  jobId: string;
+  queueName: string;
+  method: string;
+  url: string;
+  pattern: string | null;
+  userId: string | null;
+  scheduledFor: string;
+  createdAt: string;
+}
+
+/**
+ * Jobs accepted with `X-Execute-At` / `X-Delay-Ms`. They stay in BullMQ's
+ * delayed set until their time comes; cancelling them goes through
+ * JobCancellationService like any other queued job.
+ */
+@Injectable()
+export class ScheduledJobService {
+  private readonly logger = new Logger(ScheduledJobService.name);
+
+  constructor(
+    private readonly queueService: DynamicQueueService,
+    private readonly jobStatusService: JobStatusService,
+  ) {}
+
+  /** Scheduled jobs visible to the requester, soonest first */
+  async list(
+    requester: JobCancelRequester,
+    userId?: string,
+  ): Promise<ScheduledJobSummary[]> {
+    const delayed = await this.queueService.getDelayedJobs();
+
+    return delayed
+      .filter(({ job }) => {
+        const jobData = job.data as JobData;
+        // Los reintentos en backoff también están en 'delayed' pero no fueron programados
+        if (!jobData?.executeAt || !canManageJob(jobData, requester)) {
+          return false;
+        }
+        return !userId || jobData.userId === userId;
+      })
+      .map(({ job, queueName }) => this.toSummary(job, queueName))
+      .sort((a, b) => a.scheduledFor.localeCompare(b.scheduledFor));
+  }
+
+  async reschedule(
+    jobId: string,
+    requester: JobCancelRequester,
+    executeAt?: string,
+    delayMs?: string | number,
+  ): Promise<ScheduledJobSummary> {
+    const found = await this.queueService.findJob(jobId);
+    const jobData = found?.job.data as JobData | undefined;
+    if (!found || !jobData?.executeAt) {
+      throw new NotFoundException(`Scheduled job '${jobId}' not found`);
+    }
+
+    if (!canManageJob(jobData, requester)) {
+      throw new ForbiddenException(
+        'Only the user who created the job or an ADMIN can reschedule it',
+      );
+    }
+
+    const state = await found.job.getState();
+    if (state !== 'delayed') {
+      throw new ConflictException(
+        `Job '${jobId}' is already ${state} and can no longer be rescheduled`,
+      );
+    }
+
+    let schedule: ReturnType<typeof resolveJobSchedule>;
+    try {
+      schedule = resolveJobSchedule(executeAt, delayMs);
+    } catch (error: any) {
+      throw new BadRequestException(error?.message);
+    }
+    if (!schedule) {
+      throw new BadRequestException('executeAt or delayMs is required');
+    }
+
+    await found.job.updateData({ ...jobData, executeAt: schedule.executeAt });
+    await found.job.changeDelay(schedule.delay);
+    await this.jobStatusService.markJobScheduled(
+      jobId,
+      found.queueName,
+      schedule.executeAt,
+    );
+    this.logger.log(
+      `Job ${jobId} rescheduled for ${new Date(schedule.executeAt).toISOString()}`,
+    );
+
+    return this.toSummary(found.job, found.queueName);
+  }
+
+  private toSummary(job: Job, queueName: string): ScheduledJobSummary {
+    const jobData = job.data as JobData;
+    return {
+      jobId: job.id!,
+      queueName,
+      method: jobData.method,
+      url: jobData.rawUrl ?? jobData.url,
+      pattern: jobData.message?.pattern ?? null,
+      userId: jobData.userId ?? null,
+      scheduledFor: new Date(jobData.executeAt!).toISOString(),
+      createdAt: new Date(jobData.timestamp).toISOString(),
+    };
+  }
+}
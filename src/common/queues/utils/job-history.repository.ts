@@ -1,7 +1,7 @@
 import { Logger } from '@nestjs/common';
 import { Queue } from 'bullmq';
 import { RedisService } from '../../redis/redis.service';
-import { JobResultRecord } from '../../workers/interfaces/job-result.interface';
+import { JobErrorInfo, JobResultRecord } from '../../workers/interfaces/job-result.interface';
 
 export class JobHistoryRepository {
   constructor(
@@ -17,22 +17,10 @@ export class JobHistoryRepository {
       if (!job) continue;
       const state = await job.getState();
 
-      let result: any = null;
-      let error: any = null;
-
-      if (state === 'completed' || state === 'failed') {
-        try {
-          const resultKey = `job:result:${jobId}`;
-          const resultData = await this.redis.get(resultKey);
-          if (resultData) {
-            const parsed = JSON.parse(resultData);
-            result = parsed.result;
-            error = parsed.error;
-          }
-        } catch (err: any) {
-          this.logger.error(`Error fetching job result from Redis: ${err.message}`);
-        }
-      }
+      const record =
+        state === 'completed' || state === 'failed' ? await this.getJobResult(jobId) : null;
+      const error =
+        record?.error ?? (state === 'failed' ? { message: job.failedReason || 'Job failed', type: 'unknown' as const } : null);
 
       return {
         id: job.id,
@@ -40,15 +28,44 @@ export class JobHistoryRepository {
         status: state,
         progress: job.progress,
         data: job.data,
-        result,
-        error,
+        statusCode: record?.statusCode ?? null,
+        result: record?.result ?? null,
+        error: this.toPublicError(error),
         returnvalue: job.returnvalue,
         failedReason: job.failedReason,
         processedOn: job.processedOn,
         finishedOn: job.finishedOn,
       };
     }
-    return null;
+
+    // El job ya no está en BullMQ, pero su resultado se conserva hasta que expire
+    const record = await this.getJobResult(jobId);
+    if (!record) return null;
+
+    return {
+      id: record.jobId,
+      queueName: record.queueName,
+      status: record.status,
+      progress: null,
+      data: null,
+      statusCode: record.statusCode ?? null,
+      result: record.result ?? null,
+      error: this.toPublicError(record.error),
+      returnvalue: record.result ?? null,
+      failedReason: record.error?.message ?? null,
+      processedOn: null,
+      finishedOn: Date.parse(record.finishedAt) || null,
+    };
+  }
+
+  async getJobResult(jobId: string): Promise<JobResultRecord | null> {
+    try {
+      const resultData = await this.redis.get(`job:result:${jobId}`);
+      return resultData ? (JSON.parse(resultData) as JobResultRecord) : null;
+    } catch (err: any) {
+      this.logger.error(`Error fetching job result from Redis: ${err.message}`);
+      return null;
+    }
   }
 
   async getCompletedJobResults(limit = 50, queueName?: string) {
@@ -59,6 +76,16 @@ export class JobHistoryRepository {
     return this.fetchJobHistory('jobs:history:failed', limit, queueName);
   }
 
+  /** Results the processor keeps per queue in `job:history:<queue>` */
+  async getQueueHistory(queueName: string, limit = this.historyLimit) {
+    return this.fetchJobHistory(`job:history:${queueName}`, limit);
+  }
+
+  /** Runs of a recurring job, kept in `job:history:schedule:<id>` */
+  async getScheduleHistory(scheduleId: string, limit = this.historyLimit) {
+    return this.fetchJobHistory(`job:history:schedule:${scheduleId}`, limit);
+  }
+
   private async fetchJobHistory(
     listKey: string,
     limit: number,
@@ -78,6 +105,17 @@ export class JobHistoryRepository {
     }
   }
 
+  /** Same error fields for every job status; the stack trace stays internal */
+  private toPublicError(error: JobErrorInfo | null | undefined) {
+    if (!error) return null;
+    return {
+      message: error.message,
+      type: error.type,
+      statusCode: error.statusCode ?? null,
+      data: error.data ?? null,
+    };
+  }
+
   private parseJobHistoryEntry(entry: string): JobResultRecord | null {
     if (!entry) return null;
     try {
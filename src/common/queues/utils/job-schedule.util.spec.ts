@@ -0,0 +1,69 @@
+import { resolveJobSchedule } from './job-schedule.util';
+
+describe('resolveJobSchedule', () => {
+  const now = Date.parse('2025-01-01T00:00:00.000Z');
+  const originalMaxDelay = process.env.QUEUE_MAX_SCHEDULE_DELAY_MS;
+
+  afterEach(() => {
+    if (originalMaxDelay === undefined) {
+      delete process.env.QUEUE_MAX_SCHEDULE_DELAY_MS;
+    } else {
+      process.env.QUEUE_MAX_SCHEDULE_DELAY_MS = originalMaxDelay;
+    }
+  });
+
+  it('returns null without execute-at or delay', () => {
+    expect(resolveJobSchedule(undefined, undefined, now)).toBeNull();
+    expect(resolveJobSchedule('', '', now)).toBeNull();
+  });
+
+  it('resolves an ISO execute-at into a delay', () => {
+    const schedule = resolveJobSchedule('2025-01-01T00:01:00.000Z', '', now);
+
+    expect(schedule).toEqual({ delay: 60_000, executeAt: now + 60_000 });
+  });
+
+  it('prefers execute-at over the delay', () => {
+    const schedule = resolveJobSchedule('2025-01-01T00:00:10.000Z', 5000, now);
+
+    expect(schedule).toEqual({ delay: 10_000, executeAt: now + 10_000 });
+  });
+
+  it('accepts the delay as a string or a number', () => {
+    expect(resolveJobSchedule(undefined, '1500', now)).toEqual({
+      delay: 1500,
+      executeAt: now + 1500,
+    });
+    expect(resolveJobSchedule(undefined, 0, now)).toEqual({
+      delay: 0,
+      executeAt: now,
+    });
+  });
+
+  it('runs a time in the past right away', () => {
+    const schedule = resolveJobSchedule('2024-12-31T23:00:00.000Z', '', now);
+
+    expect(schedule).toEqual({ delay: 0, executeAt: now });
+  });
+
+  it('rejects an invalid timestamp', () => {
+    expect(() => resolveJobSchedule('tomorrow', undefined, now)).toThrow(
+      "Invalid execute-at timestamp 'tomorrow'",
+    );
+  });
+
+  it.each(['-1', '1.5', 'abc'])('rejects the delay %p', (delay) => {
+    expect(() => resolveJobSchedule(undefined, delay, now)).toThrow(
+      `Invalid delay '${delay}'`,
+    );
+  });
+
+  it('rejects a time beyond the maximum delay', () => {
+    process.env.QUEUE_MAX_SCHEDULE_DELAY_MS = '60000';
+
+    expect(resolveJobSchedule(undefined, 60_000, now)?.delay).toBe(60_000);
+    expect(() => resolveJobSchedule(undefined, 60_001, now)).toThrow(
+      'Execution time is too far ahead (max 60000 ms from now)',
+    );
+  });
+});
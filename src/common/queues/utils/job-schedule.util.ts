@@ -0,0 +1,53 @@
+export interface JobSchedule {
+  /** Delay handed to BullMQ, in ms */
+  delay: number;
+  /** Epoch ms at which the job becomes runnable */
+  executeAt: number;
+}
+
+export function getMaxScheduleDelayMs(): number {
+  const parsed = parseInt(process.env.QUEUE_MAX_SCHEDULE_DELAY_MS ?? '', 10);
+  // 30 días por defecto
+  return Number.isNaN(parsed) || parsed <= 0
+    ? 30 * 24 * 60 * 60 * 1000
+    : parsed;
+}
+
+/**
+ * Resolves an `X-Execute-At` (ISO timestamp) or `X-Delay-Ms` value into a
+ * BullMQ delay. Returns null when neither is given and throws on invalid
+ * input. A time in the past runs the job right away.
+ */
+export function resolveJobSchedule(
+  executeAt?: string,
+  delayMs?: string | number,
+  now = Date.now(),
+): JobSchedule | null {
+  let target: number;
+
+  if (executeAt !== undefined && executeAt !== '') {
+    target = Date.parse(executeAt);
+    if (Number.isNaN(target)) {
+      throw new Error(`Invalid execute-at timestamp '${executeAt}'`);
+    }
+  } else if (delayMs !== undefined && delayMs !== '') {
+    const delay = Number(delayMs);
+    if (!Number.isInteger(delay) || delay < 0) {
+      throw new Error(
+        `Invalid delay '${delayMs}', expected a positive number of ms`,
+      );
+    }
+    target = now + delay;
+  } else {
+    return null;
+  }
+
+  const delay = Math.max(0, target - now);
+  if (delay > getMaxScheduleDelayMs()) {
+    throw new Error(
+      `Execution time is too far ahead (max ${getMaxScheduleDelayMs()} ms from now)`,
+    );
+  }
+
+  return { delay, executeAt: now + delay };
+}
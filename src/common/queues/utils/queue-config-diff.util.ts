@@ -0,0 +1,83 @@
+import {
+  QueueConfigDiff,
+  QueueDefinition,
+  QueueFieldChange,
+  QueueSystemConfig,
+} from '../queue-config.interface';
+
+const SETTINGS_KEYS: (keyof QueueSystemConfig)[] = [
+  'defaultQueue',
+  'jobTtl',
+  'enabled',
+  'pollingTimeout',
+];
+
+export function diffQueueConfig(
+  current: QueueSystemConfig,
+  next: QueueSystemConfig,
+): QueueConfigDiff {
+  const currentByName = new Map(current.queues.map((q) => [q.name, q]));
+  const nextByName = new Map(next.queues.map((q) => [q.name, q]));
+  const diff: QueueConfigDiff = {
+    added: [],
+    removed: [],
+    updated: [],
+    settings: {},
+  };
+
+  for (const [name, def] of currentByName) {
+    if (def.enabled && !nextByName.get(name)?.enabled) {
+      diff.removed.push(name);
+    }
+  }
+
+  for (const [name, def] of nextByName) {
+    if (!def.enabled) continue;
+    const existing = currentByName.get(name);
+    if (!existing?.enabled) {
+      diff.added.push(name);
+      continue;
+    }
+    const changes = diffDefinitions(existing, def);
+    if (Object.keys(changes).length > 0) {
+      diff.updated.push({ name, changes });
+    }
+  }
+
+  for (const key of SETTINGS_KEYS) {
+    if (!isEqual(current[key], next[key])) {
+      diff.settings[key] = { from: current[key], to: next[key] };
+    }
+  }
+
+  return diff;
+}
+
+export function isEmptyDiff(diff: QueueConfigDiff): boolean {
+  return (
+    diff.added.length === 0 &&
+    diff.removed.length === 0 &&
+    diff.updated.length === 0 &&
+    Object.keys(diff.settings).length === 0
+  );
+}
+
+function diffDefinitions(
+  current: QueueDefinition,
+  next: QueueDefinition,
+): Record<string, QueueFieldChange> {
+  const changes: Record<string, QueueFieldChange> = {};
+  const keys = new Set([...Object.keys(current), ...Object.keys(next)]);
+  for (const key of keys) {
+    const from = current[key as keyof QueueDefinition];
+    const to = next[key as keyof QueueDefinition];
+    if (!isEqual(from, to)) {
+      changes[key] = { from, to };
+    }
+  }
+  return changes;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
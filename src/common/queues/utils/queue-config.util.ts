@@ -1,4 +1,8 @@
 import { QueueDefinition } from '../queue-config.interface';
+import {
+  DEFAULT_RETRY_JITTER,
+  RetryPolicy,
+} from '../../workers/interfaces/retry-policy.interface';
 
 export function getRedisConnectionOptions() {
   return {
@@ -18,12 +22,26 @@ export function getDefaultJobOptions(queueDef: QueueDefinition) {
   return {
     removeOnComplete: queueDef.removeOnComplete || 100,
     removeOnFail: queueDef.removeOnFail || 50,
-    attempts: queueDef.attempts,
+    ...getRetryJobOptions(queueDef),
+    delay: queueDef.processingDelay || 0,
+  };
+}
+
+/**
+ * Attempts and exponential backoff (with jitter) for a job, taking the
+ * route's retry policy over the queue settings
+ */
+export function getRetryJobOptions(
+  queueDef: QueueDefinition,
+  policy?: RetryPolicy,
+) {
+  return {
+    attempts: Math.max(1, policy?.attempts ?? queueDef.attempts ?? 1),
     backoff: {
       type: 'exponential' as const,
-      delay: queueDef.retryDelay,
+      delay: policy?.backoffDelay ?? queueDef.retryDelay,
+      jitter: policy?.jitter ?? DEFAULT_RETRY_JITTER,
     },
-    delay: queueDef.processingDelay || 0,
   };
 }
 
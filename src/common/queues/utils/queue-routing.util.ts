@@ -1,6 +1,31 @@
 import { Queue } from 'bullmq';
 import { Logger } from '@nestjs/common';
-import { QueueDefinition, QueueSystemConfig } from '../queue-config.interface';
+import { QueueSystemConfig } from '../queue-config.interface';
+
+export interface QueueCandidate {
+  name: string;
+  matchedPattern: string;
+  priority: number;
+  /** waiting + active + delayed + paused; null when the queue is not initialized */
+  load: number | null;
+  initialized: boolean;
+}
+
+export interface QueueRoutingDecision {
+  url: string;
+  selectedQueue: string;
+  reason: string;
+  candidates: QueueCandidate[];
+}
+
+/** `/prefix/*` matches everything under the prefix; other patterns match exactly */
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+  if (pattern.endsWith('/*')) {
+    const prefix = pattern.slice(0, -2);
+    return url.startsWith(prefix);
+  }
+  return url === pattern;
+}
 
 export class QueueRouter {
   constructor(
@@ -10,49 +35,78 @@ export class QueueRouter {
   ) {}
 
   async determineQueueForUrl(url: string): Promise<string> {
-    const matching: { def: QueueDefinition; load: number }[] = [];
+    const decision = await this.explainQueueForUrl(url);
+    this.logger.debug(`URL '${url}' -> queue '${decision.selectedQueue}' (${decision.reason})`);
+    return decision.selectedQueue;
+  }
+
+  /**
+   * Same selection as determineQueueForUrl, but keeps every candidate and
+   * the reason the winner was picked
+   */
+  async explainQueueForUrl(url: string): Promise<QueueRoutingDecision> {
+    const candidates: QueueCandidate[] = [];
 
     for (const queueDef of this.config.queues) {
       if (!queueDef.enabled) continue;
-      const matches = queueDef.urlPatterns?.some((p) => this.matches(url, p));
-      if (!matches) continue;
+      const matchedPattern = queueDef.urlPatterns?.find((p) => matchesUrlPattern(url, p));
+      if (!matchedPattern) continue;
       const q = this.queues.get(queueDef.name);
       if (!q) {
         this.logger.warn(`Queue '${queueDef.name}' matches URL '${url}' but is not initialized`);
+        candidates.push({
+          name: queueDef.name,
+          matchedPattern,
+          priority: queueDef.priority ?? 0,
+          load: null,
+          initialized: false,
+        });
         continue;
       }
       const load = await this.getLoad(queueDef.name, q);
-      matching.push({ def: queueDef, load });
+      candidates.push({
+        name: queueDef.name,
+        matchedPattern,
+        priority: queueDef.priority ?? 0,
+        load,
+        initialized: true,
+      });
     }
 
-    if (matching.length) {
-      let selected = matching[0];
-      for (let i = 1; i < matching.length; i++) {
-        const cand = matching[i];
-        if (cand.load < selected.load) {
+    const matching = candidates.filter((c) => c.initialized);
+    if (!matching.length) {
+      return {
+        url,
+        selectedQueue: this.config.defaultQueue,
+        reason: `no pattern match, default queue '${this.config.defaultQueue}'`,
+        candidates,
+      };
+    }
+
+    let selected = matching[0];
+    for (let i = 1; i < matching.length; i++) {
+      const cand = matching[i];
+      if (cand.load! < selected.load!) {
+        selected = cand;
+        continue;
+      }
+      if (cand.load === selected.load) {
+        if (cand.priority > selected.priority) {
           selected = cand;
-          continue;
-        }
-        if (cand.load === selected.load) {
-          if ((cand.def.priority ?? 0) > (selected.def.priority ?? 0)) {
-            selected = cand;
-          }
         }
       }
-      this.logger.debug(`URL '${url}' routed to queue '${selected.def.name}' (load: ${selected.load})`);
-      return selected.def.name;
     }
 
-    this.logger.debug(`URL '${url}' no pattern match -> default queue '${this.config.defaultQueue}'`);
-    return this.config.defaultQueue;
-  }
-
-  private matches(url: string, pattern: string) {
-    if (pattern.endsWith('/*')) {
-      const prefix = pattern.slice(0, -2);
-      return url.startsWith(prefix);
+    let reason: string;
+    if (matching.length === 1) {
+      reason = `only queue matching '${selected.matchedPattern}'`;
+    } else if (matching.some((c) => c !== selected && c.load === selected.load)) {
+      reason = `lowest load (${selected.load}), tie broken by priority ${selected.priority}`;
+    } else {
+      reason = `lowest load (${selected.load}) among ${matching.length} matching queues`;
     }
-    return url === pattern;
+
+    return { url, selectedQueue: selected.name, reason, candidates };
   }
 
   private async getLoad(queueName: string, queue: Queue): Promise<number> {
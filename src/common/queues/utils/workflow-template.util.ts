@@ -0,0 +1,92 @@
+const STEP_REFERENCE =
+  /\{\{\s*steps\.([A-Za-z0-9_-]+)((?:\.[A-Za-z0-9_-]+)*)\s*\}\}/g;
+
+/** Thrown when a step references a result that is not available */
+export class WorkflowReferenceError extends Error {
+  // Error de negocio: reintentar no lo resuelve
+  readonly statusCode = 400;
+}
+
+/** Ids of the steps referenced with `{{steps.<id>...}}` anywhere in the value */
+export function collectStepReferences(value: unknown): Set<string> {
+  const references = new Set<string>();
+  visitStrings(value, (text) => {
+    for (const match of text.matchAll(STEP_REFERENCE)) {
+      references.add(match[1]);
+    }
+  });
+  return references;
+}
+
+/**
+ * Replaces `{{steps.<id>.<path>}}` with values from the results of earlier
+ * steps. A string made of a single reference takes the referenced value as
+ * is (objects, numbers...); otherwise the value is interpolated as text
+ */
+export function renderStepReferences(
+  value: unknown,
+  results: Record<string, unknown>,
+): unknown {
+  if (typeof value === 'string') {
+    const whole = value.trim();
+    const matches = [...whole.matchAll(STEP_REFERENCE)];
+    if (matches.length === 1 && matches[0][0] === whole) {
+      const [reference, stepId, path] = matches[0];
+      return lookup(results, reference, stepId, path);
+    }
+    return value.replace(
+      STEP_REFERENCE,
+      (reference: string, stepId: string, path: string) => {
+        const resolved = lookup(results, reference, stepId, path);
+        return typeof resolved === 'object'
+          ? JSON.stringify(resolved)
+          : String(resolved as string | number | boolean);
+      },
+    );
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => renderStepReferences(item, results));
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        renderStepReferences(item, results),
+      ]),
+    );
+  }
+
+  return value;
+}
+
+function lookup(
+  results: Record<string, unknown>,
+  reference: string,
+  stepId: string,
+  path: string,
+): unknown {
+  let current: unknown = results[stepId];
+  for (const key of path.split('.').filter(Boolean)) {
+    current =
+      current && typeof current === 'object'
+        ? (current as Record<string, unknown>)[key]
+        : undefined;
+  }
+
+  if (current === undefined) {
+    throw new WorkflowReferenceError(`Unresolved reference '${reference}'`);
+  }
+  return current;
+}
+
+function visitStrings(value: unknown, visit: (text: string) => void) {
+  if (typeof value === 'string') {
+    visit(value);
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => visitStrings(item, visit));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach((item) => visitStrings(item, visit));
+  }
+}
@@ -0,0 +1,75 @@
+import {
+  Body,
+  Controller,
+  ForbiddenException,
+  Get,
+  HttpCode,
+  NotFoundException,
+  Param,
+  Post,
+  Req,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import { SkipAsyncRoute } from '../decorators/async-route.decorator';
+import { normalizeHeaders } from '../interceptors/utils/request-context.util';
+import { Auth, GetUser } from '../../auth/decorators';
+import { JwtPayload, ValidRoles } from '../../auth/interfaces';
+import {
+  JobCancellationService,
+  canManageJob,
+} from './job-cancellation.service';
+import { WorkflowInput, WorkflowService } from './workflow.service';
+
+// El workflow no se encola como petición: cada paso es un job del flujo
+@SkipAsyncRoute()
+@Controller('workflows')
+export class WorkflowController {
+  constructor(
+    private readonly workflowService: WorkflowService,
+    private readonly cancellationService: JobCancellationService,
+  ) {}
+
+  /**
+   * Queue a chain of dependent steps. Progress is published through the
+   * socket for the workflow id and for each step job
+   */
+  @Post()
+  @HttpCode(202)
+  async submit(@Body() input: WorkflowInput, @Req() request: Request) {
+    const headers = normalizeHeaders(request.headers);
+    delete headers['content-length'];
+
+    return this.workflowService.submit(
+      input,
+      headers,
+      request.socket?.remoteAddress ?? request.ip,
+    );
+  }
+
+  /**
+   * Status, per-step progress and results of a workflow: only its author or
+   * an ADMIN
+   */
+  @Get(':workflowId')
+  @Auth(ValidRoles.ANY)
+  async getState(
+    @Param('workflowId') workflowId: string,
+    @GetUser() user: JwtPayload,
+  ) {
+    const owner = await this.workflowService.findOwner(workflowId);
+    const workflow = owner
+      ? await this.workflowService.getState(workflowId)
+      : null;
+    if (!owner || !workflow) {
+      throw new NotFoundException(
+        `Workflow '${workflowId}' not found or expired`,
+      );
+    }
+    if (!canManageJob(owner, this.cancellationService.requesterFrom(user))) {
+      throw new ForbiddenException(
+        'Only the user who created the workflow or an ADMIN can read it',
+      );
+    }
+    return workflow;
+  }
+}
@@ -0,0 +1,901 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { FlowJob, Job } from 'bullmq';
+import Redis from 'ioredis';
+import { DynamicQueueService } from './dynamic-queue.service';
+import {
+  getDefaultJobOptions,
+  getRetryJobOptions,
+} from './utils/queue-config.util';
+import {
+  WorkflowReferenceError,
+  collectStepReferences,
+  renderStepReferences,
+} from './utils/workflow-template.util';
+import { JobData } from '../interceptors/interfaces/job-data.interface';
+import {
+  RequestRoutingService,
+  RouteConfig,
+} from '../messaging/request-routing.service';
+import {
+  PreflightRequest,
+  RoutePreflightService,
+} from '../messaging/route-preflight.service';
+import { AuthService } from '../../auth/auth.service';
+import {
+  JobErrorInfo,
+  JobResultRecord,
+} from '../workers/interfaces/job-result.interface';
+import { JobStatusService } from '../websockets/job-status.service';
+
+/**
+ * The HTTP request a step stands for. The NATS payload is built from it by
+ * the route, as for a direct call, so builders that add the caller's
+ * identity cannot be bypassed
+ */
+export interface WorkflowStepRequest {
+  /** Request body; may reference earlier results as `{{steps.<id>.<path>}}` */
+  payload?: any;
+  /** Path parameters of the route, e.g. `{ id: '42' }` */
+  params?: Record<string, string>;
+  query?: Record<string, any>;
+}
+
+export interface WorkflowStepInput extends WorkflowStepRequest {
+  /** Referenced by later steps as `{{steps.<id>.<path>}}` */
+  id: string;
+  /** NATS pattern of an `@AsyncRoute()` handler */
+  pattern: string;
+  /** Steps that must complete first; defaults to the previous step of the list */
+  dependsOn?: string[];
+  /** Undoes the step when a later one fails; may reference its own result */
+  compensate?: WorkflowStepRequest & { pattern: string };
+}
+
+type AuthValidation = Awaited<ReturnType<AuthService['validateToken']>>;
+
+/** Caller of the workflow, shared by all its steps */
+interface StepOrigin {
+  headers: Record<string, string>;
+  clientIp?: string;
+  /** Verified token, if the workflow was sent with a valid one */
+  authValidation?: AuthValidation;
+}
+
+export interface WorkflowInput {
+  name?: string;
+  steps: WorkflowStepInput[];
+}
+
+export type WorkflowStatus =
+  | 'running'
+  | 'completed'
+  | 'compensating'
+  | 'failed'
+  | 'compensation_failed';
+
+export type WorkflowStepStatus =
+  | 'pending'
+  | 'completed'
+  | 'failed'
+  | 'cancelled'
+  | 'skipped'
+  | 'compensating'
+  | 'compensated'
+  | 'compensation_failed';
+
+/** Step with its dependencies made explicit */
+type NormalizedStep = WorkflowStepInput & { dependsOn: string[] };
+
+interface WorkflowStepDefinition extends NormalizedStep {
+  jobId: string;
+  queueName: string;
+}
+
+interface WorkflowMeta {
+  workflowId: string;
+  name?: string;
+  userId?: string;
+  createdAt: string;
+  /** Execution order (topological) */
+  order: string[];
+  steps: WorkflowStepDefinition[];
+  /** Steps being compensated, in the order they run */
+  compensations?: string[];
+}
+
+interface WorkflowStepProgress {
+  status: WorkflowStepStatus;
+  error?: string;
+  finishedAt?: string;
+}
+
+export interface WorkflowStepState extends WorkflowStepProgress {
+  id: string;
+  pattern: string;
+  dependsOn: string[];
+  jobId: string;
+  queueName: string;
+  compensate?: { pattern: string };
+  result?: any;
+}
+
+export interface WorkflowState {
+  workflowId: string;
+  name?: string;
+  status: WorkflowStatus;
+  progress: number;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  checkStatusUrl: string;
+  steps: WorkflowStepState[];
+}
+
+const STEP_ID_PATTERN = /^[A-Za-z0-9_-]{1,50}$/;
+const COMPENSATION_SUFFIX = '_compensate';
+
+/**
+ * Runs a DAG of microservice calls as a BullMQ flow. Steps are chained in
+ * topological order (a flow is a tree, so a step with several dependents
+ * cannot be shared between branches); each one reads the results of its
+ * dependencies from `job:result` when it starts. When a step fails, the
+ * completed steps that declare `compensate` are undone in reverse order.
+ */
+@Injectable()
+export class WorkflowService {
+  private readonly logger = new Logger(WorkflowService.name);
+  private readonly maxSteps = Math.max(
+    1,
+    parseInt(process.env.QUEUE_WORKFLOW_MAX_STEPS || '20', 10) || 20,
+  );
+  private readonly ttlSeconds = parseInt(
+    process.env.QUEUE_RESULT_TTL || '86400',
+    10,
+  );
+
+  constructor(
+    @Inject('REDIS_CLIENT') private readonly redis: Redis,
+    private readonly queueService: DynamicQueueService,
+    private readonly routingService: RequestRoutingService,
+    private readonly preflight: RoutePreflightService,
+    private readonly jobStatusService: JobStatusService,
+    private readonly authService: AuthService,
+  ) {}
+
+  /**
+   * Validates the steps, checks every step against its route as a direct
+   * call (rate limits, guards and pipes) and enqueues the whole flow
+   */
+  async submit(
+    input: WorkflowInput,
+    headers: Record<string, string>,
+    clientIp?: string,
+  ): Promise<WorkflowState> {
+    const steps = this.normalizeSteps(input);
+    const order = this.sortSteps(steps);
+    this.validateReferences(steps);
+
+    const origin: StepOrigin = {
+      headers,
+      clientIp,
+      authValidation: await this.validateToken(headers),
+    };
+    const workflowId = this.generateWorkflowId();
+    const routes = new Map<string, RouteConfig>();
+    for (const step of steps) {
+      routes.set(step.pattern, await this.preflightStep(step, origin, true));
+      if (step.compensate) {
+        // Puede no ejecutarse nunca: no consume los límites de la ruta
+        routes.set(
+          step.compensate.pattern,
+          await this.preflightStep(step.compensate, origin, false),
+        );
+      }
+    }
+
+    const definitions: WorkflowStepDefinition[] = [];
+    for (const step of steps) {
+      definitions.push({
+        ...step,
+        jobId: `${workflowId}_${step.id}`,
+        queueName: await this.queueService.determineQueueForUrl(
+          routes.get(step.pattern)!.path,
+        ),
+      });
+    }
+
+    const meta: WorkflowMeta = {
+      workflowId,
+      name: input.name,
+      userId: origin.authValidation?.user.id,
+      createdAt: new Date().toISOString(),
+      order,
+      steps: definitions,
+    };
+    await this.saveMeta(meta);
+    await this.setStatus(workflowId, 'running');
+
+    // Autor y estado inicial antes de encolar: los pasos pueden empezar en cuanto se añaden
+    const jobIds = [workflowId, ...definitions.map((step) => step.jobId)];
+    await Promise.all(
+      jobIds.map((id) => this.jobStatusService.setOwner(id, meta.userId)),
+    );
+    for (const step of definitions) {
+      await this.jobStatusService.markJobQueued(step.jobId, step.queueName);
+    }
+    this.jobStatusService.markWorkflowProgress(workflowId, 'queued', 0);
+
+    const byId = new Map(definitions.map((step) => [step.id, step]));
+    try {
+      await this.queueService.addFlow(
+        this.buildChain(
+          order.map((id) => byId.get(id)!),
+          (step) =>
+            this.buildStepJob(
+              workflowId,
+              step,
+              routes.get(step.pattern)!,
+              origin,
+              step.jobId,
+              step,
+            ),
+          { failParentOnFailure: true },
+        ),
+      );
+    } catch (error) {
+      await Promise.all(
+        jobIds.map((id) => this.jobStatusService.discardJob(id)),
+      );
+      await this.redis.del(this.workflowKey(workflowId));
+      throw error;
+    }
+
+    this.logger.log(
+      `Workflow ${workflowId} queued with ${definitions.length} steps (${order.join(' -> ')})`,
+    );
+
+    return (await this.getState(workflowId))!;
+  }
+
+  async getState(workflowId: string): Promise<WorkflowState | null> {
+    const raw = await this.redis.hgetall(this.workflowKey(workflowId));
+    if (!raw.meta) return null;
+
+    const meta = JSON.parse(raw.meta) as WorkflowMeta;
+    const byId = new Map(meta.steps.map((step) => [step.id, step]));
+    const steps = await Promise.all(
+      meta.order.map(async (id) => {
+        const step = byId.get(id)!;
+        const progress = this.parseProgress(raw[`step:${id}`]);
+        const record = await this.readResult(step.jobId);
+        return {
+          id,
+          pattern: step.pattern,
+          dependsOn: step.dependsOn,
+          jobId: step.jobId,
+          queueName: step.queueName,
+          ...(step.compensate && {
+            compensate: { pattern: step.compensate.pattern },
+          }),
+          ...progress,
+          ...(record?.success && { result: record.result }),
+        } as WorkflowStepState;
+      }),
+    );
+
+    return {
+      workflowId,
+      name: meta.name,
+      status: (raw.status as WorkflowStatus) ?? 'running',
+      progress: this.progressOf(steps),
+      error: raw.error,
+      createdAt: meta.createdAt,
+      updatedAt: raw.updatedAt ?? meta.createdAt,
+      checkStatusUrl: `/workflows/${workflowId}`,
+      steps,
+    };
+  }
+
+  /** Author of a workflow, `null` when it does not exist or expired */
+  async findOwner(workflowId: string): Promise<{ userId?: string } | null> {
+    const meta = await this.getMeta(workflowId);
+    return meta ? { userId: meta.userId } : null;
+  }
+
+  /**
+   * NATS payload of a step. Bodies with `{{steps...}}` references are
+   * rendered, validated and passed to the route's payload builder right
+   * before dispatching, when the dependencies are done
+   */
+  async resolvePayload(jobData: JobData): Promise<any> {
+    const references = collectStepReferences(jobData.data);
+    if (references.size === 0) return jobData.payload;
+
+    const { workflowId } = jobData.workflow!;
+    const results: Record<string, unknown> = {};
+
+    for (const stepId of references) {
+      const record = await this.readResult(`${workflowId}_${stepId}`);
+      if (!record?.success) {
+        throw new WorkflowReferenceError(
+          `Step '${stepId}' of workflow ${workflowId} has no result`,
+        );
+      }
+      results[stepId] = record.result;
+    }
+
+    const data = renderStepReferences(jobData.data, results);
+    const route = this.routingService.findByPattern(jobData.message!.pattern);
+    if (!route) {
+      throw new WorkflowReferenceError(
+        `No async route for pattern '${jobData.message!.pattern}'`,
+      );
+    }
+    const request: WorkflowStepRequest = {
+      payload: data,
+      params: jobData.params,
+      query: jobData.queryParams,
+    };
+    await this.preflight.validate(
+      route,
+      this.toPreflightRequest(route, request, {
+        headers: jobData.headers,
+        authValidation: jobData.context?.authValidation as
+          | AuthValidation
+          | undefined,
+      }),
+    );
+    return this.buildPayload(route, { ...jobData, data });
+  }
+
+  async onStepCompleted(job: Job) {
+    const { workflowId, stepId, compensation } = (job.data as JobData)
+      .workflow!;
+    const meta = await this.getMeta(workflowId);
+    if (!meta) return;
+
+    if (compensation) {
+      await this.setStepProgress(workflowId, stepId, { status: 'compensated' });
+      await this.finishCompensation(meta, stepId, 'compensated');
+      return;
+    }
+
+    await this.setStepProgress(workflowId, stepId, { status: 'completed' });
+    const state = (await this.getState(workflowId))!;
+
+    if (state.steps.every((step) => step.status === 'completed')) {
+      await this.setStatus(workflowId, 'completed');
+      this.jobStatusService.markWorkflowProgress(
+        workflowId,
+        'completed',
+        100,
+        { stepId, stepStatus: 'completed' },
+        Object.fromEntries(state.steps.map((step) => [step.id, step.result])),
+      );
+      this.logger.log(`Workflow ${workflowId} completed`);
+      return;
+    }
+
+    this.jobStatusService.markWorkflowProgress(
+      workflowId,
+      'processing',
+      state.progress,
+      { stepId, stepStatus: 'completed' },
+    );
+  }
+
+  /**
+   * A step failed for good (or was cancelled): BullMQ fails the rest of the
+   * chain and the completed steps are compensated
+   */
+  async onStepFailed(job: Job, error: JobErrorInfo, cancelled = false) {
+    const { workflowId, stepId, compensation } = (job.data as JobData)
+      .workflow!;
+    const meta = await this.getMeta(workflowId);
+    if (!meta) return;
+
+    if (compensation) {
+      await this.setStepProgress(workflowId, stepId, {
+        status: 'compensation_failed',
+        error: error.message,
+      });
+      await this.finishCompensation(meta, stepId, 'compensation_failed');
+      return;
+    }
+
+    const failure = `Step '${stepId}' ${cancelled ? 'was cancelled' : 'failed'}: ${error.message}`;
+    await this.setStepProgress(workflowId, stepId, {
+      status: cancelled ? 'cancelled' : 'failed',
+      error: error.message,
+    });
+    await this.redis.hset(this.workflowKey(workflowId), 'error', failure);
+
+    const state = (await this.getState(workflowId))!;
+    for (const step of state.steps.filter((s) => s.status === 'pending')) {
+      await this.setStepProgress(workflowId, step.id, { status: 'skipped' });
+    }
+
+    // Se deshacen en orden inverso los pasos ya completados
+    const toCompensate = meta.order
+      .map((id) => meta.steps.find((step) => step.id === id)!)
+      .filter(
+        (step) =>
+          step.compensate &&
+          state.steps.find((s) => s.id === step.id)?.status === 'completed',
+      )
+      .reverse();
+
+    if (toCompensate.length === 0) {
+      await this.setStatus(workflowId, 'failed');
+      this.jobStatusService.markWorkflowProgress(
+        workflowId,
+        'failed',
+        state.progress,
+        { stepId, stepStatus: cancelled ? 'cancelled' : 'failed' },
+        undefined,
+        failure,
+      );
+      this.logger.warn(`Workflow ${workflowId} failed: ${failure}`);
+      return;
+    }
+
+    await this.startCompensation(meta, toCompensate, job.data as JobData);
+    this.jobStatusService.markWorkflowProgress(
+      workflowId,
+      'processing',
+      state.progress,
+      { stepId, stepStatus: cancelled ? 'cancelled' : 'failed' },
+      undefined,
+      failure,
+    );
+  }
+
+  private async startCompensation(
+    meta: WorkflowMeta,
+    steps: WorkflowStepDefinition[],
+    failedJob: JobData,
+  ) {
+    const { workflowId } = meta;
+    meta.compensations = steps.map((step) => step.id);
+    await this.saveMeta(meta);
+    await this.setStatus(workflowId, 'compensating');
+
+    const jobs: { step: WorkflowStepDefinition; route: RouteConfig }[] = [];
+    for (const step of steps) {
+      const route = this.routingService.findByPattern(step.compensate!.pattern);
+      if (!route) {
+        await this.setStepProgress(workflowId, step.id, {
+          status: 'compensation_failed',
+          error: `No async route for pattern '${step.compensate!.pattern}'`,
+        });
+        continue;
+      }
+      await this.setStepProgress(workflowId, step.id, {
+        status: 'compensating',
+      });
+      jobs.push({ step, route });
+    }
+
+    if (jobs.length === 0) {
+      await this.finishCompensation(meta);
+      return;
+    }
+
+    const routes = new Map(jobs.map(({ step, route }) => [step.id, route]));
+    const chain = jobs.map(({ step }) => step);
+    const queueNames = new Map<string, string>();
+    for (const { step, route } of jobs) {
+      queueNames.set(
+        step.id,
+        await this.queueService.determineQueueForUrl(route.path),
+      );
+    }
+
+    // Una compensación fallida no impide intentar las demás
+    await this.queueService.addFlow(
+      this.buildChain(
+        chain,
+        (step) => ({
+          ...this.buildStepJob(
+            workflowId,
+            step,
+            routes.get(step.id)!,
+            {
+              headers: failedJob.headers,
+              authValidation: failedJob.context?.authValidation as
+                | AuthValidation
+                | undefined,
+            },
+            `${step.jobId}${COMPENSATION_SUFFIX}`,
+            step.compensate!,
+            true,
+          ),
+          queueName: queueNames.get(step.id)!,
+        }),
+        { ignoreDependencyOnFailure: true },
+      ),
+    );
+    this.logger.warn(
+      `Workflow ${workflowId} compensating ${chain.map((step) => step.id).join(', ')}`,
+    );
+  }
+
+  private async finishCompensation(
+    meta: WorkflowMeta,
+    stepId?: string,
+    stepStatus?: WorkflowStepStatus,
+  ) {
+    const { workflowId } = meta;
+    const state = (await this.getState(workflowId))!;
+    const pending = state.steps.filter((step) =>
+      meta.compensations?.includes(step.id),
+    );
+    if (pending.some((step) => step.status === 'compensating')) {
+      if (stepId) {
+        this.jobStatusService.markWorkflowProgress(
+          workflowId,
+          'processing',
+          state.progress,
+          { stepId, stepStatus: stepStatus! },
+        );
+      }
+      return;
+    }
+
+    const status: WorkflowStatus = pending.some(
+      (step) => step.status === 'compensation_failed',
+    )
+      ? 'compensation_failed'
+      : 'failed';
+    await this.setStatus(workflowId, status);
+    this.jobStatusService.markWorkflowProgress(
+      workflowId,
+      'failed',
+      state.progress,
+      stepId ? { stepId, stepStatus: stepStatus! } : undefined,
+      undefined,
+      state.error,
+    );
+    this.logger.warn(`Workflow ${workflowId} finished as ${status}`);
+  }
+
+  /**
+   * Flow where each job is the parent of the previous one, so BullMQ runs
+   * them one after the other starting from the first
+   */
+  private buildChain<T>(
+    items: T[],
+    toJob: (item: T) => FlowJob,
+    childOptions: FlowJob['opts'],
+  ): FlowJob {
+    return items.reduce<FlowJob | undefined>((child, item) => {
+      const job = toJob(item);
+      if (!child) return job;
+      return {
+        ...job,
+        children: [{ ...child, opts: { ...child.opts, ...childOptions } }],
+      };
+    }, undefined)!;
+  }
+
+  private buildStepJob(
+    workflowId: string,
+    step: WorkflowStepDefinition,
+    route: RouteConfig,
+    origin: StepOrigin,
+    jobId: string,
+    request: WorkflowStepRequest,
+    compensation = false,
+  ): FlowJob {
+    const queueDef = this.queueService.getQueueDefinition(step.queueName);
+    const jobData: JobData = {
+      ...this.toJobData(route, request, origin),
+      id: jobId,
+      message: this.routingService.messageFor(route),
+      retryPolicy: route.retry,
+      successStatusCode: this.preflight.getSuccessStatus(route),
+      workflow: {
+        workflowId,
+        stepId: step.id,
+        ...(compensation && { compensation }),
+      },
+    };
+    // Con referencias pendientes se construye al despachar (resolvePayload)
+    if (collectStepReferences(jobData.data).size === 0) {
+      jobData.payload = this.buildPayload(route, jobData);
+    }
+
+    return {
+      name: 'process-request',
+      queueName: step.queueName,
+      data: jobData,
+      opts: {
+        ...(queueDef && {
+          ...getDefaultJobOptions(queueDef),
+          ...getRetryJobOptions(queueDef, route.retry),
+        }),
+        jobId,
+        priority: queueDef?.priority || 1,
+      },
+    };
+  }
+
+  /**
+   * The route must exist and let the step through as a direct request: rate
+   * limits (`limited`) and guards, then the pipes and the payload builder
+   * once the body has no pending references (otherwise when dispatched)
+   */
+  private async preflightStep(
+    request: WorkflowStepRequest & { pattern: string },
+    origin: StepOrigin,
+    limited: boolean,
+  ): Promise<RouteConfig> {
+    const route = this.routingService.findByPattern(request.pattern);
+    if (!route) {
+      throw new BadRequestException(
+        `Pattern '${request.pattern}' is not mapped by any @AsyncRoute()`,
+      );
+    }
+
+    const preflightRequest = this.toPreflightRequest(route, request, origin);
+    if (limited) {
+      await this.preflight.admit(route, preflightRequest);
+    } else {
+      await this.preflight.authorize(route, preflightRequest);
+    }
+
+    if (collectStepReferences(request.payload).size === 0) {
+      await this.preflight.validate(route, preflightRequest);
+      this.buildPayload(route, this.toJobData(route, request, origin));
+    }
+    return route;
+  }
+
+  private toPreflightRequest(
+    route: RouteConfig,
+    request: WorkflowStepRequest,
+    origin: StepOrigin,
+  ): PreflightRequest {
+    const path = this.fillPath(route, request.params ?? {});
+    return {
+      method: route.method,
+      url: path,
+      path,
+      originalUrl: path,
+      headers: origin.headers,
+      body: request.payload ?? {},
+      query: request.query ?? {},
+      params: request.params ?? {},
+      ip: origin.clientIp,
+      ...(origin.authValidation && { authValidation: origin.authValidation }),
+    };
+  }
+
+  /** Job of a step as the interceptor would have queued it, without its ids */
+  private toJobData(
+    route: RouteConfig,
+    request: WorkflowStepRequest,
+    origin: StepOrigin,
+  ): JobData {
+    const path = this.fillPath(route, request.params ?? {});
+    const hasParams = Object.keys(request.params ?? {}).length > 0;
+    const hasQuery = Object.keys(request.query ?? {}).length > 0;
+    return {
+      id: '',
+      method: route.method,
+      url: path,
+      rawUrl: path,
+      data: request.payload ?? {},
+      params: hasParams ? request.params : undefined,
+      queryParams: hasQuery ? request.query : undefined,
+      headers: origin.headers,
+      userId: origin.authValidation?.user.id,
+      timestamp: Date.now(),
+      context: origin.authValidation
+        ? { authValidation: origin.authValidation }
+        : undefined,
+    };
+  }
+
+  /** Route builder errors (a missing param...) are the caller's: 400 */
+  private buildPayload(route: RouteConfig, jobData: JobData): any {
+    try {
+      return route.buildPayload(jobData);
+    } catch (error) {
+      throw new BadRequestException(
+        `Request for '${route.pattern}' could not be built: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /** `/courses/:id` with `{ id: '42' }` -> `/courses/42` */
+  private fillPath(route: RouteConfig, params: Record<string, string>) {
+    return route.path.replace(/:([A-Za-z0-9_]+)/g, (segment, name: string) =>
+      params[name] !== undefined
+        ? encodeURIComponent(String(params[name]))
+        : segment,
+    );
+  }
+
+  /** Undefined without a Bearer token or when it does not validate */
+  private async validateToken(
+    headers: Record<string, string>,
+  ): Promise<AuthValidation | undefined> {
+    const header = headers.authorization;
+    if (!header?.startsWith('Bearer ')) return undefined;
+    try {
+      return await this.authService.validateToken(header.substring(7));
+    } catch {
+      // Las rutas protegidas responderán 401 en su paso
+      return undefined;
+    }
+  }
+
+  private normalizeSteps(input: WorkflowInput): NormalizedStep[] {
+    const steps = input?.steps;
+    if (!Array.isArray(steps) || steps.length === 0) {
+      throw new BadRequestException('A workflow needs at least one step');
+    }
+    if (steps.length > this.maxSteps) {
+      throw new BadRequestException(
+        `Maximum ${this.maxSteps} steps allowed per workflow (got ${steps.length})`,
+      );
+    }
+
+    const ids = new Set<string>();
+    return steps.map((step, index) => {
+      if (!step || !STEP_ID_PATTERN.test(step.id ?? '')) {
+        throw new BadRequestException(
+          `Step #${index} needs an id made of letters, digits, '-' or '_'`,
+        );
+      }
+      if (ids.has(step.id)) {
+        throw new BadRequestException(`Duplicated step id '${step.id}'`);
+      }
+      if (typeof step.pattern !== 'string' || !step.pattern) {
+        throw new BadRequestException(`Step '${step.id}' needs a pattern`);
+      }
+      if (step.compensate && typeof step.compensate.pattern !== 'string') {
+        throw new BadRequestException(
+          `Compensation of step '${step.id}' needs a pattern`,
+        );
+      }
+      ids.add(step.id);
+
+      // En una lista ordenada cada paso depende del anterior
+      const dependsOn =
+        step.dependsOn ?? (index > 0 ? [steps[index - 1].id] : []);
+      return { ...step, dependsOn };
+    });
+  }
+
+  /** Topological order (Kahn), keeping the submitted order between independent steps */
+  private sortSteps(steps: NormalizedStep[]): string[] {
+    const ids = new Set(steps.map((step) => step.id));
+    for (const step of steps) {
+      const unknown = step.dependsOn.find((dep) => !ids.has(dep));
+      if (unknown) {
+        throw new BadRequestException(
+          `Step '${step.id}' depends on unknown step '${unknown}'`,
+        );
+      }
+    }
+
+    const order: string[] = [];
+    const remaining = [...steps];
+    while (remaining.length > 0) {
+      const next = remaining.findIndex((step) =>
+        step.dependsOn.every((dep) => order.includes(dep)),
+      );
+      if (next < 0) {
+        throw new BadRequestException(
+          `Steps ${remaining.map((step) => `'${step.id}'`).join(', ')} form a dependency cycle`,
+        );
+      }
+      order.push(remaining.splice(next, 1)[0].id);
+    }
+    return order;
+  }
+
+  /** A step may only reference steps it (transitively) depends on */
+  private validateReferences(steps: NormalizedStep[]) {
+    const byId = new Map(steps.map((step) => [step.id, step]));
+    const ancestorsOf = (id: string, seen = new Set<string>()) => {
+      for (const dep of byId.get(id)!.dependsOn) {
+        if (!seen.has(dep)) {
+          seen.add(dep);
+          ancestorsOf(dep, seen);
+        }
+      }
+      return seen;
+    };
+
+    for (const step of steps) {
+      const ancestors = ancestorsOf(step.id);
+      const check = (value: unknown, allowed: Set<string>, where: string) => {
+        for (const ref of collectStepReferences(value)) {
+          if (!allowed.has(ref)) {
+            throw new BadRequestException(
+              `${where} references step '${ref}', which is not one of its dependencies`,
+            );
+          }
+        }
+      };
+
+      check(step.payload, ancestors, `Step '${step.id}'`);
+      check(
+        step.compensate?.payload,
+        new Set([...ancestors, step.id]),
+        `Compensation of step '${step.id}'`,
+      );
+    }
+  }
+
+  private progressOf(steps: WorkflowStepState[]): number {
+    const done = steps.filter((step) => step.status !== 'pending').length;
+    return Math.round((done / steps.length) * 100);
+  }
+
+  private async readResult(jobId: string): Promise<JobResultRecord | null> {
+    const raw = await this.redis.get(`job:result:${jobId}`);
+    return raw ? (JSON.parse(raw) as JobResultRecord) : null;
+  }
+
+  private async getMeta(workflowId: string): Promise<WorkflowMeta | null> {
+    const raw = await this.redis.hget(this.workflowKey(workflowId), 'meta');
+    return raw ? (JSON.parse(raw) as WorkflowMeta) : null;
+  }
+
+  private async saveMeta(meta: WorkflowMeta) {
+    await this.write(meta.workflowId, 'meta', JSON.stringify(meta));
+  }
+
+  private async setStatus(workflowId: string, status: WorkflowStatus) {
+    await this.write(workflowId, 'status', status);
+  }
+
+  private async setStepProgress(
+    workflowId: string,
+    stepId: string,
+    progress: Omit<WorkflowStepProgress, 'finishedAt'>,
+  ) {
+    const value: WorkflowStepProgress = {
+      ...progress,
+      finishedAt: new Date().toISOString(),
+    };
+    await this.write(workflowId, `step:${stepId}`, JSON.stringify(value));
+  }
+
+  private async write(workflowId: string, field: string, value: string) {
+    const key = this.workflowKey(workflowId);
+    await this.redis
+      .multi()
+      .hset(key, field, value, 'updatedAt', new Date().toISOString())
+      .expire(key, this.ttlSeconds)
+      .exec();
+  }
+
+  private parseProgress(raw: string | undefined): WorkflowStepProgress {
+    return raw
+      ? (JSON.parse(raw) as WorkflowStepProgress)
+      : { status: 'pending' };
+  }
+
+  private generateWorkflowId(): string {
+    const timestamp = new Date()
+      .toISOString()
+      .replace(/[-:T.]/g, '')
+      .slice(0, 14);
+    const random = Math.random().toString(36).substring(2, 8);
+    return `wf_${timestamp}_${random}`;
+  }
+
+  private workflowKey(workflowId: string) {
+    return `workflow:${workflowId}`;
+  }
+}
@@ -0,0 +1,86 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from '@nestjs/common';
+import { RateLimitOptions } from '../decorators/rate-limit.decorator';
+
+/**
+ * Limit declared in `config/rate-limits.json`, for routes that are not
+ * decorated with `@RateLimit()` (or that only exist as async mappings)
+ */
+export interface RateLimitRule extends RateLimitOptions {
+  /** URL pattern (`/prefix/*` or exact path) */
+  path?: string;
+
+  /** NATS pattern the request is routed to (`prefix.*` or exact pattern) */
+  messagePattern?: string;
+
+  /** HTTP methods the rule applies to; all when omitted */
+  methods?: string[];
+}
+
+export interface RateLimitConfig {
+  enabled: boolean;
+
+  /**
+   * Proxies in front of the gateway whose `X-Forwarded-For` entries are
+   * trusted: a number of hops, `true` for one, `false` to use the socket address
+   */
+  trustProxy: boolean | number;
+
+  rules: RateLimitRule[];
+}
+
+const logger = new Logger('RateLimitConfig');
+
+/**
+ * Load the rate limit rules from RATE_LIMIT_CONFIG_PATH or
+ * config/rate-limits.json. Invalid rules are skipped
+ */
+export function loadRateLimitConfig(): RateLimitConfig {
+  const configPath =
+    process.env.RATE_LIMIT_CONFIG_PATH ||
+    path.join(process.cwd(), 'config', 'rate-limits.json');
+
+  let fileConfig: Partial<RateLimitConfig> = {};
+  try {
+    if (fs.existsSync(configPath)) {
+      fileConfig = JSON.parse(
+        fs.readFileSync(configPath, 'utf8'),
+      ) as Partial<RateLimitConfig>;
+    }
+  } catch (error: any) {
+    logger.warn(
+      `Failed to load ${configPath}: ${error?.message || error}. No rate limit rules from file`,
+    );
+  }
+
+  const rules = (fileConfig.rules ?? []).filter((rule, index) => {
+    const valid =
+      (rule.path || rule.messagePattern) &&
+      rule.limit > 0 &&
+      rule.windowSeconds > 0;
+    if (!valid) {
+      logger.warn(
+        `Rate limit rule #${index} ignored: it needs path or messagePattern, limit and windowSeconds`,
+      );
+    }
+    return valid;
+  });
+
+  return {
+    enabled:
+      process.env.RATE_LIMIT_ENABLED !== undefined
+        ? process.env.RATE_LIMIT_ENABLED === 'true'
+        : (fileConfig.enabled ?? true),
+    trustProxy:
+      process.env.RATE_LIMIT_TRUST_PROXY !== undefined
+        ? parseTrustProxy(process.env.RATE_LIMIT_TRUST_PROXY)
+        : (fileConfig.trustProxy ?? false),
+    rules,
+  };
+}
+
+function parseTrustProxy(value: string): boolean | number {
+  const hops = parseInt(value, 10);
+  return Number.isNaN(hops) ? value === 'true' : hops;
+}
@@ -0,0 +1,193 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request, Response } from 'express';
+import {
+  RATE_LIMIT_KEY,
+  RateLimitOptions,
+} from '../decorators/rate-limit.decorator';
+import { rolesOf } from '../interceptors/utils/request-context.util';
+import { RequestRoutingService } from '../messaging/request-routing.service';
+import { AuthService } from '../../auth/auth.service';
+import {
+  RateLimitResult,
+  RateLimitService,
+  RateLimitSubject,
+} from './rate-limit.service';
+
+interface AppliedLimit {
+  name: string;
+  options: RateLimitOptions;
+}
+
+/**
+ * Global guard enforcing `@RateLimit()` and the rules of
+ * `config/rate-limits.json`. Runs before any other guard, so rejected
+ * requests never reach the queues. Answers carry the `RateLimit-*` headers
+ * of the most restrictive limit that applied.
+ *
+ * Per-user limits and role limits count the verified token only: the guard
+ * validates it with the auth service (JwtAuthGuard reuses the validation) and
+ * requests without a valid token are counted by IP
+ */
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  constructor(
+    private readonly rateLimit: RateLimitService,
+    private readonly reflector: Reflector,
+    private readonly routingService: RequestRoutingService,
+    private readonly authService: AuthService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    if (context.getType() !== 'http' || !this.rateLimit.isEnabled()) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const response = context.switchToHttp().getResponse<Response>();
+    const limits = this.collectLimits(context, request);
+    if (limits.length === 0) {
+      return true;
+    }
+
+    const subject: RateLimitSubject = {
+      ip: this.getClientIp(request),
+      roles: [],
+    };
+    const needsUser = limits.some(
+      ({ options }) => options.by === 'user' || !!options.roleLimits,
+    );
+    if (needsUser) {
+      const user = await this.verifiedUser(request);
+      if (user) {
+        subject.userId = user.id;
+        subject.roles = rolesOf(user);
+      }
+    }
+
+    const results = await Promise.all(
+      limits.map(({ name, options }) =>
+        this.rateLimit.consume(name, options, subject),
+      ),
+    );
+
+    const denied = results
+      .filter((result) => !result.allowed)
+      .sort((a, b) => b.resetSeconds - a.resetSeconds);
+    const reported =
+      denied[0] ?? [...results].sort((a, b) => a.remaining - b.remaining)[0];
+    this.setHeaders(response, reported);
+
+    if (denied.length > 0) {
+      response.setHeader('Retry-After', String(reported.resetSeconds));
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.TOO_MANY_REQUESTS,
+          error: 'Too Many Requests',
+          message: `Rate limit exceeded, retry in ${reported.resetSeconds}s`,
+          retryAfter: reported.resetSeconds,
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+    return true;
+  }
+
+  private collectLimits(
+    context: ExecutionContext,
+    request: Request,
+  ): AppliedLimit[] {
+    const controller = context.getClass();
+    const handler = context.getHandler();
+    const decorated = (target: object, base: string) =>
+      (
+        this.reflector.get<RateLimitOptions[] | undefined>(
+          RATE_LIMIT_KEY,
+          target as any,
+        ) ?? []
+      ).map((options) => ({
+        name:
+          options.name ??
+          `${base}:${options.by ?? 'ip'}:${options.windowSeconds}s`,
+        options,
+      }));
+
+    const path = request.path ?? request.url;
+    const messagePattern = this.routingService.match(request.method, path)
+      ?.route.pattern;
+    const configured = this.rateLimit
+      .findRules(request.method, path, messagePattern)
+      .map((rule) => ({
+        name: rule.name ?? `${rule.path ?? rule.messagePattern}`,
+        options: rule,
+      }));
+
+    return [
+      ...decorated(controller, controller.name),
+      ...decorated(handler, `${controller.name}.${handler.name}`),
+      ...configured,
+    ];
+  }
+
+  /**
+   * User of a valid Bearer token; the validation is left on the request as
+   * JwtAuthGuard does, so the route's own guard does not ask again
+   */
+  private async verifiedUser(request: Request) {
+    const existing = request['authValidation'] as
+      | Awaited<ReturnType<AuthService['validateToken']>>
+      | undefined;
+    if (existing) return existing.user;
+
+    const header = request.headers.authorization;
+    if (!header?.startsWith('Bearer ')) return undefined;
+    try {
+      const validation = await this.authService.validateToken(
+        header.substring(7),
+      );
+      request['authValidation'] = validation;
+      return validation.user;
+    } catch {
+      // Token inválido: se cuenta por IP y el guard de la ruta lo rechazará
+      return undefined;
+    }
+  }
+
+  /**
+   * Each trusted proxy appends the address it got the request from, so the
+   * client is the entry right before the trusted hops. The leftmost entries
+   * are whatever the client sent
+   */
+  private getClientIp(request: Request): string {
+    const remote = request.socket?.remoteAddress ?? request.ip ?? 'unknown';
+    const hops = this.rateLimit.trustedProxyHops();
+    if (hops === 0) return remote;
+
+    const forwarded = request.headers['x-forwarded-for'];
+    const chain = [
+      ...(Array.isArray(forwarded) ? forwarded.join(',') : (forwarded ?? ''))
+        .split(',')
+        .map((entry) => entry.trim())
+        .filter(Boolean),
+      remote,
+    ];
+    return chain[Math.max(0, chain.length - 1 - hops)];
+  }
+
+  /** IETF draft `RateLimit-*` header fields */
+  private setHeaders(response: Response, result: RateLimitResult) {
+    response.setHeader('RateLimit-Limit', String(result.limit));
+    response.setHeader('RateLimit-Remaining', String(result.remaining));
+    response.setHeader('RateLimit-Reset', String(result.resetSeconds));
+    response.setHeader(
+      'RateLimit-Policy',
+      `${result.limit};w=${result.windowSeconds}`,
+    );
+  }
+}
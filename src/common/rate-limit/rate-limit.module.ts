@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { RateLimitService } from './rate-limit.service';
+import { RateLimitGuard } from './rate-limit.guard';
+import { RedisModule } from '../redis/redis.module';
+import { InterceptorModule } from '../interceptors/interceptor.module';
+import { AuthModule } from '../../auth/auth.module';
+
+@Module({
+  imports: [RedisModule, InterceptorModule, AuthModule],
+  providers: [
+    RateLimitService,
+    RateLimitGuard,
+    // Misma instancia para los items de /batch (RoutePreflightService)
+    { provide: APP_GUARD, useExisting: RateLimitGuard },
+  ],
+  exports: [RateLimitService, RateLimitGuard],
+})
+export class RateLimitModule {}
@@ -0,0 +1,100 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Redis from 'ioredis';
+import { RateLimitRule } from './rate-limit.config';
+import { RateLimitService } from './rate-limit.service';
+
+describe('RateLimitService', () => {
+  const rules: RateLimitRule[] = [
+    {
+      name: 'login',
+      path: '/auth/login',
+      methods: ['post'],
+      limit: 5,
+      windowSeconds: 60,
+    },
+    { name: 'reports', path: '/reports/*', limit: 10, windowSeconds: 60 },
+    {
+      name: 'grades',
+      messagePattern: 'grades.*',
+      limit: 20,
+      windowSeconds: 60,
+    },
+    {
+      name: 'export',
+      path: '/courses/*',
+      messagePattern: 'courses.export',
+      limit: 2,
+      windowSeconds: 60,
+    },
+  ];
+  const originalConfigPath = process.env.RATE_LIMIT_CONFIG_PATH;
+  let configDir: string;
+  let service: RateLimitService;
+
+  const names = (found: RateLimitRule[]) => found.map((rule) => rule.name);
+
+  beforeAll(() => {
+    configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rate-limits-'));
+    const configPath = path.join(configDir, 'rate-limits.json');
+    fs.writeFileSync(configPath, JSON.stringify({ rules }));
+    process.env.RATE_LIMIT_CONFIG_PATH = configPath;
+
+    service = new RateLimitService({} as Redis);
+  });
+
+  afterAll(() => {
+    fs.rmSync(configDir, { recursive: true, force: true });
+    if (originalConfigPath === undefined) {
+      delete process.env.RATE_LIMIT_CONFIG_PATH;
+    } else {
+      process.env.RATE_LIMIT_CONFIG_PATH = originalConfigPath;
+    }
+  });
+
+  describe('findRules', () => {
+    it('matches an exact path only for its methods', () => {
+      expect(names(service.findRules('POST', '/auth/login'))).toEqual([
+        'login',
+      ]);
+      expect(names(service.findRules('get', '/auth/login'))).toEqual([]);
+      expect(names(service.findRules('POST', '/auth/login/extra'))).toEqual([]);
+    });
+
+    it('matches a path prefix for every method', () => {
+      expect(names(service.findRules('GET', '/reports/monthly'))).toEqual([
+        'reports',
+      ]);
+      expect(names(service.findRules('DELETE', '/reports/1/2'))).toEqual([
+        'reports',
+      ]);
+      expect(names(service.findRules('GET', '/teachers/reports'))).toEqual([]);
+    });
+
+    it('matches the routed message pattern', () => {
+      expect(
+        names(service.findRules('GET', '/anything', 'grades.findAll')),
+      ).toEqual(['grades']);
+      expect(
+        names(service.findRules('GET', '/anything', 'gradesx.findAll')),
+      ).toEqual([]);
+    });
+
+    it('skips message pattern rules when the request is not routed', () => {
+      expect(names(service.findRules('GET', '/grades/1'))).toEqual([]);
+    });
+
+    it('needs both the path and the message pattern when a rule has both', () => {
+      expect(
+        names(service.findRules('POST', '/courses/1/export', 'courses.export')),
+      ).toEqual(['export']);
+      expect(
+        names(service.findRules('POST', '/courses/1', 'courses.update')),
+      ).toEqual([]);
+      expect(
+        names(service.findRules('POST', '/teachers/1', 'courses.export')),
+      ).toEqual([]);
+    });
+  });
+});
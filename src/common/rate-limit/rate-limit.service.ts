@@ -0,0 +1,182 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import Redis from 'ioredis';
+import { RateLimitOptions } from '../decorators/rate-limit.decorator';
+import {
+  RateLimitConfig,
+  RateLimitRule,
+  loadRateLimitConfig,
+} from './rate-limit.config';
+import { matchesUrlPattern } from '../queues/utils/queue-routing.util';
+
+/**
+ * Sliding window log: one sorted-set entry per accepted request. Uses the
+ * Redis clock so every gateway replica counts against the same window.
+ * Returns { allowed, count, msUntilOldestExpires }
+ */
+const SLIDING_WINDOW_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local window = tonumber(ARGV[1])
+local limit = tonumber(ARGV[2])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], 0, now - window)
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = 0
+if count < limit then
+  redis.call('ZADD', KEYS[1], now, now .. '-' .. ARGV[3])
+  count = count + 1
+  allowed = 1
+end
+redis.call('PEXPIRE', KEYS[1], window)
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+local reset = window
+if oldest[2] then
+  reset = tonumber(oldest[2]) + window - now
+end
+return { allowed, count, reset }
+`;
+
+export interface RateLimitResult {
+  /** Rule name as used in the keys */
+  rule: string;
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Seconds until a slot frees up */
+  resetSeconds: number;
+  windowSeconds: number;
+}
+
+/** Identity a request is counted for */
+export interface RateLimitSubject {
+  ip: string;
+  userId?: string;
+  roles: string[];
+}
+
+@Injectable()
+export class RateLimitService {
+  private readonly logger = new Logger(RateLimitService.name);
+  private readonly config: RateLimitConfig = loadRateLimitConfig();
+
+  constructor(@Inject('REDIS_CLIENT') private readonly redis: Redis) {
+    this.logger.log(
+      `Rate limiting ${this.config.enabled ? 'enabled' : 'disabled'} (${this.config.rules.length} rules from config)`,
+    );
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /** Trusted proxy hops in front of the gateway */
+  trustedProxyHops(): number {
+    const { trustProxy } = this.config;
+    if (typeof trustProxy === 'number') return Math.max(0, trustProxy);
+    return trustProxy ? 1 : 0;
+  }
+
+  /** Config rules matching the request, by URL and/or routed NATS pattern */
+  findRules(
+    method: string,
+    path: string,
+    messagePattern?: string,
+  ): RateLimitRule[] {
+    return this.config.rules.filter((rule) => {
+      if (
+        rule.methods?.length &&
+        !rule.methods.some((m) => m.toUpperCase() === method.toUpperCase())
+      ) {
+        return false;
+      }
+      if (rule.path && !matchesUrlPattern(path, rule.path)) {
+        return false;
+      }
+      if (
+        rule.messagePattern &&
+        !(messagePattern && this.matchesMessagePattern(messagePattern, rule))
+      ) {
+        return false;
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Counts the request against a limit. Redis errors let the request through:
+   * losing the limiter must not take the gateway down
+   */
+  async consume(
+    name: string,
+    options: RateLimitOptions,
+    subject: RateLimitSubject,
+  ): Promise<RateLimitResult> {
+    const limit = this.resolveLimit(options, subject.roles);
+    const windowMs = options.windowSeconds * 1000;
+    const base: RateLimitResult = {
+      rule: name,
+      allowed: true,
+      limit,
+      remaining: limit,
+      resetSeconds: options.windowSeconds,
+      windowSeconds: options.windowSeconds,
+    };
+
+    try {
+      const [allowed, count, resetMs] = (await this.redis.eval(
+        SLIDING_WINDOW_SCRIPT,
+        1,
+        this.buildKey(name, options, subject),
+        windowMs,
+        limit,
+        Math.random().toString(36).substring(2, 10),
+      )) as [number, number, number];
+
+      return {
+        ...base,
+        allowed: allowed === 1,
+        remaining: Math.max(0, limit - count),
+        resetSeconds: Math.max(1, Math.ceil(resetMs / 1000)),
+      };
+    } catch (err: any) {
+      this.logger.warn(
+        `Rate limit '${name}' not enforced, Redis failed: ${err?.message || err}`,
+      );
+      return base;
+    }
+  }
+
+  /** The highest limit among the user's roles, or the rule's own */
+  private resolveLimit(options: RateLimitOptions, roles: string[]): number {
+    const roleLimits = Object.entries(options.roleLimits ?? {})
+      .filter(([role]) => roles.includes(role.toUpperCase()))
+      .map(([, limit]) => limit);
+    return roleLimits.length > 0 ? Math.max(...roleLimits) : options.limit;
+  }
+
+  private buildKey(
+    name: string,
+    options: RateLimitOptions,
+    subject: RateLimitSubject,
+  ): string {
+    const scope = options.by ?? 'ip';
+    if (scope === 'global') {
+      return `ratelimit:${name}:global`;
+    }
+    // Sin usuario autenticado se cuenta por IP
+    if (scope === 'user' && subject.userId) {
+      return `ratelimit:${name}:user:${subject.userId}`;
+    }
+    return `ratelimit:${name}:ip:${subject.ip}`;
+  }
+
+  private matchesMessagePattern(
+    messagePattern: string,
+    rule: RateLimitRule,
+  ): boolean {
+    const expected = rule.messagePattern!;
+    if (expected.endsWith('.*')) {
+      return messagePattern.startsWith(expected.slice(0, -1));
+    }
+    return messagePattern === expected;
+  }
+}
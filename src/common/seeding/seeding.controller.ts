@@ -1,7 +1,9 @@
 import { Controller, Post, Query, HttpCode, HttpStatus } from '@nestjs/common';
 import { SeedingService } from './seeding.service';
+import { SkipAsyncRoute } from '../decorators';
 
 @Controller('seeding')
+@SkipAsyncRoute()
 export class SeedingController {
   constructor(private readonly seedingService: SeedingService) {}
 
@@ -1,7 +1,9 @@
 import { Controller, Post, Get, Param, Body, Query } from '@nestjs/common';
 import { LoadTestService, LoadTestConfig } from './load-test.service';
+import { SkipAsyncRoute } from '../decorators';
 
 @Controller('load-test')
+@SkipAsyncRoute()
 export class LoadTestController {
   constructor(private readonly loadTestService: LoadTestService) {}
 
@@ -258,7 +258,7 @@ export class LoadTestService {
             endTime: Date.now(),
             latency: Date.now() - startTime,
             success: false,
-            error: jobStatus.error || 'Job failed',
+            error: jobStatus.error?.message || 'Job failed',
           });
           return;
         }
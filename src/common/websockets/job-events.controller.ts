@@ -0,0 +1,251 @@
+import {
+  BadRequestException,
+  Controller,
+  Headers,
+  MessageEvent,
+  Param,
+  Query,
+  Sse,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { SkipAsyncRoute } from '../decorators/async-route.decorator';
+import { AllowQueryToken, Auth, GetUser } from '../../auth/decorators';
+import type { JwtPayload } from '../../auth/interfaces';
+import {
+  SessionRevocation,
+  SessionRevocationService,
+} from '../../auth/session-revocation.service';
+import { JobCancellationService } from '../queues/job-cancellation.service';
+import { JobStatusService, JobStatusUpdate } from './job-status.service';
+import { SocketAuthService } from './socket-auth.service';
+
+const TERMINAL_STATUSES = new Set<JobStatusUpdate['status']>([
+  'completed',
+  'failed',
+  'cancelled',
+]);
+
+/**
+ * Last `sequence` sent per job. It is the id of every event, as
+ * `jobId:sequence` pairs separated by commas, so `Last-Event-ID` resumes all
+ * the jobs of the stream
+ */
+type StreamCursor = Map<string, number>;
+
+/**
+ * Estado de los jobs por Server-Sent Events, para clientes que no pueden
+ * usar WebSocket. Mismas actualizaciones que el socket (`job-update`), con
+ * heartbeat; el stream termina cuando todos los jobs llegan a un estado final
+ * o cuando se revoca el token con el que se abrió.
+ *
+ * Al reanudar con `Last-Event-ID` se reenvían las actualizaciones perdidas
+ * que sigan en el historial del autor (JOB_STATUS_USER_HISTORY); las más
+ * antiguas no, pero el estado actual de cada job siempre se envía.
+ *
+ * EventSource no puede enviar cabeceras: el token también se acepta como
+ * `?access_token=`
+ */
+@SkipAsyncRoute()
+@Controller('sse/jobs')
+export class JobEventsController {
+  private readonly heartbeatMs = parseInt(
+    process.env.SSE_HEARTBEAT_MS || '15000',
+    10,
+  );
+  private readonly maxJobs = parseInt(process.env.SSE_MAX_JOBS || '50', 10);
+
+  constructor(
+    private readonly jobStatusService: JobStatusService,
+    private readonly socketAuth: SocketAuthService,
+    private readonly cancellationService: JobCancellationService,
+    private readonly sessionRevocation: SessionRevocationService,
+  ) {}
+
+  /**
+   * Several jobs: `GET /sse/jobs?ids=a,b,c`
+   */
+  @Sse()
+  @Auth()
+  @AllowQueryToken()
+  async streamJobs(
+    @Query('ids') ids: string | undefined,
+    @GetUser() user: JwtPayload,
+    @Headers('last-event-id') lastEventId?: string,
+  ): Promise<Observable<MessageEvent>> {
+    const jobIds = [
+      ...new Set(
+        (ids ?? '')
+          .split(',')
+          .map((id) => id.trim())
+          .filter(Boolean),
+      ),
+    ];
+    if (jobIds.length === 0) {
+      throw new BadRequestException('ids query parameter is required');
+    }
+    if (jobIds.length > this.maxJobs) {
+      throw new BadRequestException(
+        `At most ${this.maxJobs} jobs can be followed per stream`,
+      );
+    }
+    return this.stream(jobIds, user, lastEventId);
+  }
+
+  @Sse(':jobId')
+  @Auth()
+  @AllowQueryToken()
+  async streamJob(
+    @Param('jobId') jobId: string,
+    @GetUser() user: JwtPayload,
+    @Headers('last-event-id') lastEventId?: string,
+  ): Promise<Observable<MessageEvent>> {
+    return this.stream([jobId], user, lastEventId);
+  }
+
+  private async stream(
+    jobIds: string[],
+    user: JwtPayload,
+    lastEventId?: string,
+  ): Promise<Observable<MessageEvent>> {
+    const requester = this.cancellationService.requesterFrom(user);
+    for (const jobId of jobIds) {
+      await this.socketAuth.assertRequesterCanWatch(requester, jobId);
+    }
+
+    const cursor = this.parseCursor(lastEventId, jobIds);
+    const pending = new Set(jobIds);
+
+    return new Observable<MessageEvent>((subscriber) => {
+      const send = (update: JobStatusUpdate) => {
+        if (!pending.has(update.jobId)) return;
+        // Ya enviada antes de reconectar, o llegó antes que el estado inicial
+        const sent = cursor.get(update.jobId);
+        const isNew =
+          update.sequence === undefined ||
+          sent === undefined ||
+          update.sequence > sent;
+        if (isNew) {
+          if (update.sequence !== undefined) {
+            cursor.set(update.jobId, update.sequence);
+          }
+          subscriber.next({
+            id: this.formatCursor(cursor),
+            type: 'job-update',
+            data: update,
+          });
+        }
+
+        if (TERMINAL_STATUSES.has(update.status)) {
+          pending.delete(update.jobId);
+          if (pending.size === 0) subscriber.complete();
+        }
+      };
+
+      // Escuchar antes de leer el estado para no perder una transición; lo
+      // recibido mientras se lee se envía después, para mantener el orden
+      let backlog: JobStatusUpdate[] | null = [];
+      const onUpdate = (update: JobStatusUpdate) => {
+        if (backlog) backlog.push(update);
+        else send(update);
+      };
+      const onRevoked = (revocation: SessionRevocation) => {
+        if (this.socketAuth.revokes(revocation, user)) subscriber.complete();
+      };
+      this.jobStatusService.on('job-status-update', onUpdate);
+      this.sessionRevocation.on('revoked', onRevoked);
+      const heartbeat = setInterval(() => {
+        subscriber.next({
+          id: this.formatCursor(cursor),
+          type: 'heartbeat',
+          data: { timestamp: Date.now() },
+        });
+      }, this.heartbeatMs);
+
+      this.initialUpdates(jobIds, cursor)
+        .then((updates) => {
+          for (const update of [...updates, ...backlog!]) send(update);
+          backlog = null;
+        })
+        .catch((error) => subscriber.error(error));
+
+      return () => {
+        this.jobStatusService.off('job-status-update', onUpdate);
+        this.sessionRevocation.off('revoked', onRevoked);
+        clearInterval(heartbeat);
+      };
+    });
+  }
+
+  /**
+   * Updates missed since the cursor, from the authors' history, followed by
+   * the current status of every job: the update with the highest sequence,
+   * whether it is the stored status or one already in the history
+   */
+  private async initialUpdates(
+    jobIds: string[],
+    cursor: StreamCursor,
+  ): Promise<JobStatusUpdate[]> {
+    const owners = new Set(
+      await Promise.all(
+        jobIds.map((jobId) => this.jobStatusService.getOwner(jobId)),
+      ),
+    );
+
+    const history: JobStatusUpdate[] = [];
+    for (const owner of owners) {
+      if (!owner) continue;
+      const updates = await this.jobStatusService.getUserHistory(owner);
+      history.push(
+        ...updates.filter((update) => jobIds.includes(update.jobId)),
+      );
+    }
+    const missed = history.filter(
+      (update) =>
+        update.sequence !== undefined &&
+        update.sequence > (cursor.get(update.jobId) ?? Infinity),
+    );
+
+    const statuses = await Promise.all(
+      jobIds.map((jobId) => this.jobStatusService.getJobStatus(jobId)),
+    );
+    const latest = new Map<string, JobStatusUpdate>();
+    for (const update of [
+      ...statuses.filter((status): status is JobStatusUpdate => !!status),
+      ...history,
+    ]) {
+      const current = latest.get(update.jobId);
+      if (!current || (update.sequence ?? -1) > (current.sequence ?? -1)) {
+        latest.set(update.jobId, update);
+      }
+    }
+    return [...missed, ...latest.values()];
+  }
+
+  private parseCursor(
+    lastEventId: string | undefined,
+    jobIds: string[],
+  ): StreamCursor {
+    const cursor: StreamCursor = new Map();
+    for (const entry of (lastEventId ?? '').split(',')) {
+      const separator = entry.lastIndexOf(':');
+      if (separator <= 0) continue;
+      const jobId = entry.substring(0, separator);
+      const sequence = parseInt(entry.substring(separator + 1), 10);
+      if (jobIds.includes(jobId) && !Number.isNaN(sequence)) {
+        cursor.set(jobId, sequence);
+      }
+    }
+    return cursor;
+  }
+
+  /**
+   * Also set on heartbeats: Nest numbers the events without id, which would
+   * replace the client's `Last-Event-ID`
+   */
+  private formatCursor(cursor: StreamCursor): string | undefined {
+    if (cursor.size === 0) return undefined;
+    return Array.from(cursor)
+      .map(([jobId, sequence]) => `${jobId}:${sequence}`)
+      .join(',');
+  }
+}
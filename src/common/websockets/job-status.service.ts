@@ -1,55 +1,260 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { EventEmitter } from 'events';
+import Redis from 'ioredis';
+import { JobErrorInfo } from '../workers/interfaces/job-result.interface';
 
 export interface JobStatusUpdate {
   jobId: string;
-  status: 'queued' | 'processing' | 'completed' | 'failed' | 'progress';
+  status:
+    | 'queued'
+    | 'scheduled'
+    | 'processing'
+    | 'retrying'
+    | 'stalled'
+    | 'completed'
+    | 'failed'
+    | 'cancelled'
+    | 'progress';
+  /** Increases with every update of the job, on any replica: clients order updates by it */
+  sequence?: number;
   result?: any;
   error?: string;
+  /** Normalized error of a failed or retried attempt, without the stack trace */
+  errorDetails?: JobStatusError;
   progress?: number;
   timestamp: number;
   queueName?: string;
   estimatedTimeRemaining?: number;
+  /** Original job when this one is a dead-letter replay */
+  replayOf?: string;
+  /** Replay that is now carrying the original job */
+  replayJobId?: string;
+  /** Author of the job, as registered with `setOwner` */
+  userId?: string;
+  /** Position in the author's stream of updates, replayed by `getUserHistory` */
+  userSequence?: number;
+  /** When a scheduled job will run (epoch ms) */
+  executeAt?: number;
+  /** Workflow step the update refers to, on workflow-level updates */
+  stepId?: string;
+  stepStatus?: string;
+  /** Worker that picked the job up */
+  workerId?: number;
+  /** Attempt being run, or the one that failed on `retrying` (1-based) */
+  attempt?: number;
+  maxAttempts?: number;
+  /** Delay before the next attempt in ms, on `retrying` */
+  retryDelay?: number;
+  nextAttemptAt?: number;
 }
 
+export type JobStatusError = Omit<JobErrorInfo, 'stack'>;
+
+/** Attempt that failed and will be retried */
+export interface JobRetryInfo {
+  attempt: number;
+  maxAttempts: number;
+  /** ms */
+  delay: number;
+}
+
+export interface JobStatistics {
+  total: number;
+  byStatus: Record<string, number>;
+  oldest: number;
+}
+
+/** Update as published on the status channel */
+interface PublishedJobStatus {
+  instanceId: string;
+  update: JobStatusUpdate;
+}
+
+export const jobStatusKey = (jobId: string) => `job:status:${jobId}`;
+
+const jobSequenceKey = (jobId: string) => `job:status:seq:${jobId}`;
+
+const jobOwnerKey = (jobId: string) => `job:status:owner:${jobId}`;
+
+const userSequenceKey = (userId: string) => `job:status:user-seq:${userId}`;
+
+/** Recent updates of a user's jobs scored by `userSequence` */
+const userEventsKey = (userId: string) => `job:status:user-events:${userId}`;
+
+/** Job ids by last update time, to count statuses across the cluster */
+const JOB_STATUS_INDEX = 'job:status:index';
+
+/**
+ * Guarda el estado solo si no hay uno con un `sequence` mayor: una
+ * actualización que llega tarde no pisa a otra más reciente
+ */
+const STORE_STATUS_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if current and ARGV[2] ~= '' then
+  local stored = cjson.decode(current).sequence
+  if type(stored) == 'number' and stored >= tonumber(ARGV[2]) then
+    return 0
+  end
+end
+redis.call('SET', KEYS[1], ARGV[1], 'EX', ARGV[3])
+return 1
+`;
+
+/**
+ * Estado de los jobs compartido por todas las réplicas: se guarda en Redis
+ * con TTL y cada transición se publica por Redis pub/sub. Cada instancia
+ * re-emite localmente (`job-status-update`) las transiciones de las demás,
+ * así un cliente conectado a una réplica recibe los jobs que termina otra
+ */
 @Injectable()
-export class JobStatusService extends EventEmitter {
+export class JobStatusService extends EventEmitter implements OnModuleInit {
   private readonly logger = new Logger(JobStatusService.name);
-  private readonly jobStatuses = new Map<string, JobStatusUpdate>();
+  private readonly instanceId = `${process.pid}-${Math.random().toString(36).substring(2, 8)}`;
+  private readonly channel =
+    process.env.JOB_STATUS_CHANNEL || 'queues:jobs:status';
+  private readonly ttlSeconds = parseInt(
+    process.env.JOB_STATUS_TTL || '3600',
+    10,
+  );
+  private readonly userHistorySize = parseInt(
+    process.env.JOB_STATUS_USER_HISTORY || '200',
+    10,
+  );
+
+  constructor(
+    @Inject('REDIS_CLIENT') private readonly redis: Redis,
+    @Inject('REDIS_SUBSCRIBER') private readonly subscriber: Redis,
+  ) {
+    super();
+    // Un listener por cada stream SSE abierto
+    this.setMaxListeners(0);
+  }
+
+  async onModuleInit() {
+    try {
+      await this.subscriber.subscribe(this.channel);
+      this.subscriber.on('message', (channel, message) => {
+        // La conexión de suscripción es compartida: ignorar otros canales
+        if (channel !== this.channel) return;
+        this.onRemoteUpdate(message);
+      });
+    } catch (err: any) {
+      this.logger.warn(
+        `Job status updates will only reach clients of this instance: ${err?.message || err}`,
+      );
+    }
+  }
 
   /**
    * Actualiza el estado de un job y emite el evento correspondiente
    */
   updateJobStatus(update: JobStatusUpdate): void {
-    this.logger.debug(
-      `📡 Job ${update.jobId} status update: ${update.status}`,
-    );
+    void this.publishUpdate(update);
+  }
 
-    // Guardar el estado actual
-    this.jobStatuses.set(update.jobId, {
-      ...update,
-      timestamp: Date.now(),
-    });
+  /**
+   * Registra el autor de un job: sus actualizaciones se envían también a la
+   * sala del usuario y quedan en su historial. Debe llamarse antes de marcarlo
+   */
+  async setOwner(jobId: string, userId?: string): Promise<void> {
+    if (!userId) return;
+    try {
+      await this.redis.set(jobOwnerKey(jobId), userId, 'EX', this.ttlSeconds);
+    } catch (err: any) {
+      this.logger.warn(
+        `Owner of job ${jobId} not stored: ${err?.message || err}`,
+      );
+    }
+  }
 
-    // Emitir evento para WebSocket clients
-    this.emit('job-status-update', update);
+  /** Author registered with `setOwner`; outlives the job in BullMQ */
+  async getOwner(jobId: string): Promise<string | null> {
+    return this.redis.get(jobOwnerKey(jobId));
+  }
+
+  /**
+   * Actualizaciones de los jobs de un usuario posteriores a `sinceSequence`
+   * (`userSequence`), para que un cliente que se reconecta se ponga al día
+   */
+  async getUserHistory(
+    userId: string,
+    sinceSequence = 0,
+    limit = this.userHistorySize,
+  ): Promise<JobStatusUpdate[]> {
+    const events = await this.redis.zrangebyscore(
+      userEventsKey(userId),
+      `(${sinceSequence}`,
+      '+inf',
+      'LIMIT',
+      0,
+      Math.max(1, Math.min(limit, this.userHistorySize)),
+    );
+    return events.map((event) => JSON.parse(event) as JobStatusUpdate);
   }
 
   /**
    * Obtiene el estado actual de un job
    */
-  getJobStatus(jobId: string): JobStatusUpdate | null {
-    return this.jobStatuses.get(jobId) || null;
+  async getJobStatus(jobId: string): Promise<JobStatusUpdate | null> {
+    try {
+      const stored = await this.redis.get(jobStatusKey(jobId));
+      return stored ? (JSON.parse(stored) as JobStatusUpdate) : null;
+    } catch (err: any) {
+      this.logger.warn(
+        `Status of job ${jobId} not available: ${err?.message || err}`,
+      );
+      return null;
+    }
   }
 
   /**
-   * Marca un job como en cola
+   * Borra el estado y el autor de un job que no se llegó a encolar
    */
-  markJobQueued(jobId: string, queueName: string): void {
-    this.updateJobStatus({
+  async discardJob(jobId: string): Promise<void> {
+    try {
+      await this.redis
+        .multi()
+        .del(jobStatusKey(jobId), jobSequenceKey(jobId), jobOwnerKey(jobId))
+        .zrem(JOB_STATUS_INDEX, jobId)
+        .exec();
+    } catch (err: any) {
+      this.logger.warn(
+        `Status of job ${jobId} not discarded: ${err?.message || err}`,
+      );
+    }
+  }
+
+  /**
+   * Marca un job como en cola. Se marca antes de encolarlo, así su `sequence`
+   * es siempre menor que el de lo que publique el worker
+   */
+  async markJobQueued(
+    jobId: string,
+    queueName: string,
+    replayOf?: string,
+  ): Promise<void> {
+    await this.publishUpdate({
       jobId,
       status: 'queued',
       queueName,
+      replayOf,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Marca un job como programado para ejecutarse más tarde
+   */
+  async markJobScheduled(
+    jobId: string,
+    queueName: string,
+    executeAt: number,
+  ): Promise<void> {
+    await this.publishUpdate({
+      jobId,
+      status: 'scheduled',
+      queueName,
+      executeAt,
       timestamp: Date.now(),
     });
   }
@@ -57,11 +262,57 @@ export class JobStatusService extends EventEmitter {
   /**
    * Marca un job como en procesamiento
    */
-  markJobProcessing(jobId: string, queueName: string): void {
+  markJobProcessing(
+    jobId: string,
+    queueName: string,
+    workerId?: number,
+    attempt?: number,
+    replayOf?: string,
+  ): void {
     this.updateJobStatus({
       jobId,
       status: 'processing',
       queueName,
+      workerId,
+      attempt,
+      replayOf,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Marca un intento fallido que BullMQ volverá a ejecutar tras el backoff
+   */
+  markJobRetrying(
+    jobId: string,
+    queueName: string,
+    retry: JobRetryInfo,
+    error: JobErrorInfo,
+    replayOf?: string,
+  ): void {
+    this.updateJobStatus({
+      jobId,
+      status: 'retrying',
+      queueName,
+      attempt: retry.attempt,
+      maxAttempts: retry.maxAttempts,
+      retryDelay: retry.delay,
+      nextAttemptAt: Date.now() + retry.delay,
+      error: error.message,
+      errorDetails: this.toStatusError(error),
+      replayOf,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Marca un job cuyo worker dejó de renovar el lock: BullMQ lo devuelve a la cola
+   */
+  markJobStalled(jobId: string, queueName: string): void {
+    this.updateJobStatus({
+      jobId,
+      status: 'stalled',
+      queueName,
       timestamp: Date.now(),
     });
   }
@@ -86,11 +337,12 @@ export class JobStatusService extends EventEmitter {
   /**
    * Marca un job como completado
    */
-  markJobCompleted(jobId: string, result: any): void {
+  markJobCompleted(jobId: string, result: any, replayOf?: string): void {
     this.updateJobStatus({
       jobId,
       status: 'completed',
       result,
+      replayOf,
       timestamp: Date.now(),
     });
   }
@@ -98,57 +350,219 @@ export class JobStatusService extends EventEmitter {
   /**
    * Marca un job como fallido
    */
-  markJobFailed(jobId: string, error: string): void {
+  markJobFailed(
+    jobId: string,
+    error: string,
+    replayOf?: string,
+    details?: JobErrorInfo,
+  ): void {
     this.updateJobStatus({
       jobId,
       status: 'failed',
       error,
+      errorDetails: details ? this.toStatusError(details) : undefined,
+      replayOf,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Marca un job como cancelado por su autor o un administrador
+   */
+  markJobCancelled(jobId: string, replayOf?: string): void {
+    this.updateJobStatus({
+      jobId,
+      status: 'cancelled',
+      replayOf,
       timestamp: Date.now(),
     });
   }
 
   /**
-   * Limpia jobs antiguos (más de 1 hora)
+   * Publica el avance de un workflow, bajo su propio id, y del paso que cambió
    */
-  cleanupOldJobs(): void {
-    const oneHourAgo = Date.now() - 60 * 60 * 1000;
-    let cleaned = 0;
+  markWorkflowProgress(
+    workflowId: string,
+    status: JobStatusUpdate['status'],
+    progress: number,
+    step?: { stepId: string; stepStatus: string },
+    result?: any,
+    error?: string,
+  ): void {
+    this.updateJobStatus({
+      jobId: workflowId,
+      status,
+      progress,
+      ...step,
+      result,
+      error,
+      timestamp: Date.now(),
+    });
+  }
 
-    const entries = Array.from(this.jobStatuses.entries());
-    for (const [jobId, status] of entries) {
-      if (status.timestamp < oneHourAgo) {
-        this.jobStatuses.delete(jobId);
-        cleaned++;
+  /**
+   * Quita del índice los jobs cuyo estado ya expiró
+   */
+  async cleanupOldJobs(): Promise<void> {
+    try {
+      const cleaned = await this.redis.zremrangebyscore(
+        JOB_STATUS_INDEX,
+        0,
+        Date.now() - this.ttlSeconds * 1000,
+      );
+      if (cleaned > 0) {
+        this.logger.log(`🧹 Cleaned up ${cleaned} old job statuses`);
       }
-    }
-
-    if (cleaned > 0) {
-      this.logger.log(`🧹 Cleaned up ${cleaned} old job statuses`);
+    } catch (err: any) {
+      this.logger.warn(`Job status cleanup failed: ${err?.message || err}`);
     }
   }
 
   /**
-   * Obtiene estadísticas de jobs activos
+   * Estadísticas de los jobs con estado vigente en todo el cluster
    */
-  getJobStatistics(): {
-    total: number;
-    byStatus: Record<string, number>;
-    oldest: number;
-  } {
-    const stats = {
-      total: this.jobStatuses.size,
-      byStatus: {} as Record<string, number>,
+  async getJobStatistics(): Promise<JobStatistics> {
+    const stats: JobStatistics = {
+      total: 0,
+      byStatus: {},
       oldest: Date.now(),
     };
 
-    const values = Array.from(this.jobStatuses.values());
-    for (const status of values) {
-      stats.byStatus[status.status] = (stats.byStatus[status.status] || 0) + 1;
-      if (status.timestamp < stats.oldest) {
-        stats.oldest = status.timestamp;
+    await this.cleanupOldJobs();
+    const jobIds = await this.redis.zrange(JOB_STATUS_INDEX, 0, -1);
+
+    // Por lotes para no bloquear Redis con un MGET enorme
+    for (let i = 0; i < jobIds.length; i += 500) {
+      const batch = jobIds.slice(i, i + 500);
+      const values = await this.redis.mget(batch.map(jobStatusKey));
+      for (const value of values) {
+        if (!value) continue;
+        const status = JSON.parse(value) as JobStatusUpdate;
+        stats.total++;
+        stats.byStatus[status.status] =
+          (stats.byStatus[status.status] || 0) + 1;
+        if (status.timestamp < stats.oldest) {
+          stats.oldest = status.timestamp;
+        }
       }
     }
 
     return stats;
   }
-}
\ No newline at end of file
+
+  private async publishUpdate(update: JobStatusUpdate) {
+    this.logger.debug(`📡 Job ${update.jobId} status update: ${update.status}`);
+
+    await this.sequenceAndPublish(update);
+
+    // Los clientes del job original siguen el estado de su re-ejecución
+    if (update.replayOf) {
+      const { replayOf, ...replayUpdate } = update;
+      await this.publishUpdate({
+        ...replayUpdate,
+        jobId: replayOf,
+        replayJobId: update.jobId,
+      });
+    }
+  }
+
+  /**
+   * Numera la actualización con el contador del job en Redis antes de
+   * emitirla, así el orden es el mismo en todas las réplicas. Las de un job
+   * con autor llevan además su posición en el historial del usuario
+   */
+  private async sequenceAndPublish(update: JobStatusUpdate) {
+    const sequenced: JobStatusUpdate = {
+      ...update,
+      ...(await this.nextSequence(update.jobId)),
+      timestamp: Date.now(),
+    };
+    this.emit('job-status-update', sequenced);
+    await this.persistAndPublish(sequenced);
+  }
+
+  private async nextSequence(
+    jobId: string,
+  ): Promise<Pick<JobStatusUpdate, 'sequence' | 'userId' | 'userSequence'>> {
+    const key = jobSequenceKey(jobId);
+    const ownerKey = jobOwnerKey(jobId);
+    try {
+      const results = await this.redis
+        .multi()
+        .incr(key)
+        .expire(key, this.ttlSeconds)
+        .get(ownerKey)
+        .expire(ownerKey, this.ttlSeconds)
+        .exec();
+      const counter = results?.[0]?.[1];
+      const sequence = typeof counter === 'number' ? counter : undefined;
+      const userId = results?.[2]?.[1];
+      if (typeof userId !== 'string') return { sequence };
+
+      return {
+        sequence,
+        userId,
+        userSequence: await this.redis.incr(userSequenceKey(userId)),
+      };
+    } catch (err: any) {
+      this.logger.warn(
+        `Update of job ${jobId} sent without sequence: ${err?.message || err}`,
+      );
+      return {};
+    }
+  }
+
+  private toStatusError(error: JobErrorInfo): JobStatusError {
+    const details: JobErrorInfo = { ...error };
+    delete details.stack;
+    return details;
+  }
+
+  private async persistAndPublish(update: JobStatusUpdate) {
+    const message: PublishedJobStatus = {
+      instanceId: this.instanceId,
+      update,
+    };
+    try {
+      const transaction = this.redis
+        .multi()
+        .eval(
+          STORE_STATUS_SCRIPT,
+          1,
+          jobStatusKey(update.jobId),
+          JSON.stringify(update),
+          update.sequence ?? '',
+          this.ttlSeconds,
+        )
+        .zadd(JOB_STATUS_INDEX, update.timestamp, update.jobId);
+
+      if (update.userId && update.userSequence) {
+        const eventsKey = userEventsKey(update.userId);
+        transaction
+          .zadd(eventsKey, update.userSequence, JSON.stringify(update))
+          // Solo las más recientes
+          .zremrangebyrank(eventsKey, 0, -this.userHistorySize - 1)
+          .expire(eventsKey, this.ttlSeconds)
+          .expire(userSequenceKey(update.userId), this.ttlSeconds);
+      }
+
+      await transaction.publish(this.channel, JSON.stringify(message)).exec();
+    } catch (err: any) {
+      this.logger.warn(
+        `Status of job ${update.jobId} not shared: ${err?.message || err}`,
+      );
+    }
+  }
+
+  private onRemoteUpdate(message: string) {
+    let published: PublishedJobStatus;
+    try {
+      published = JSON.parse(message) as PublishedJobStatus;
+    } catch {
+      return;
+    }
+    // Las propias ya se emitieron al actualizar
+    if (published.instanceId === this.instanceId) return;
+    this.emit('job-status-update', published.update);
+  }
+}
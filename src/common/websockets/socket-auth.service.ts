@@ -0,0 +1,129 @@
+import {
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Socket } from 'socket.io';
+import { AuthService } from '../../auth/auth.service';
+import type { JwtPayload } from '../../auth/interfaces';
+import type { SessionRevocation } from '../../auth/session-revocation.service';
+import { DynamicQueueService } from '../queues/dynamic-queue.service';
+import { WorkflowService } from '../queues/workflow.service';
+import {
+  JobCancellationService,
+  JobCancelRequester,
+  canManageJob,
+} from '../queues/job-cancellation.service';
+import { JobData } from '../interceptors/interfaces/job-data.interface';
+import { JobStatusService } from './job-status.service';
+
+/** Set on `socket.data` by the handshake */
+export interface SocketSession {
+  user: JwtPayload;
+  requester: JobCancelRequester;
+}
+
+/**
+ * Autenticación de los sockets de `/jobs`: el handshake valida el JWT y cada
+ * socket solo sigue los jobs (o workflows) de su usuario, salvo ADMIN. El
+ * stream SSE aplica la misma regla
+ */
+@Injectable()
+export class SocketAuthService {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly cancellationService: JobCancellationService,
+    private readonly queueService: DynamicQueueService,
+    private readonly workflowService: WorkflowService,
+    private readonly jobStatusService: JobStatusService,
+  ) {}
+
+  /** Validates the handshake token and attaches the session to the socket */
+  async authenticate(socket: Socket): Promise<SocketSession> {
+    const token = this.extractToken(socket);
+    if (!token) {
+      throw new UnauthorizedException('Token is missing');
+    }
+
+    const { user } = await this.authService.validateToken(token).catch(() => {
+      throw new UnauthorizedException('Token is invalid or expired');
+    });
+
+    const session: SocketSession = {
+      user,
+      requester: this.cancellationService.requesterFrom(user),
+    };
+    socket.data = session;
+    return session;
+  }
+
+  sessionOf(socket: Socket): SocketSession {
+    const session = socket.data as SocketSession | undefined;
+    if (!session?.user) {
+      throw new UnauthorizedException('Socket is not authenticated');
+    }
+    return session;
+  }
+
+  async assertCanWatch(socket: Socket, jobId: string): Promise<void> {
+    await this.assertRequesterCanWatch(this.sessionOf(socket).requester, jobId);
+  }
+
+  /** Only the author of a job or workflow, or an ADMIN, may follow it */
+  async assertRequesterCanWatch(
+    requester: JobCancelRequester,
+    jobId: string,
+  ): Promise<void> {
+    if (requester.isAdmin) return;
+
+    const owner = await this.findOwner(jobId);
+    if (!owner) {
+      throw new NotFoundException(`Job '${jobId}' not found`);
+    }
+
+    if (!canManageJob(owner, requester)) {
+      throw new ForbiddenException(
+        'Only the user who created the job or an ADMIN can follow it',
+      );
+    }
+  }
+
+  /** Whether the socket authenticated with a token closed by the revocation */
+  isRevoked(socket: Socket, revocation: SessionRevocation): boolean {
+    const session = socket.data as SocketSession | undefined;
+    return !!session?.user && this.revokes(revocation, session.user);
+  }
+
+  /** Whether the revocation closes the session of the token's user */
+  revokes(revocation: SessionRevocation, user: JwtPayload): boolean {
+    return (
+      (!!revocation.jti && revocation.jti === user.jti) ||
+      (!!revocation.userId && revocation.userId === user.id)
+    );
+  }
+
+  private extractToken(socket: Socket): string | undefined {
+    const authToken = socket.handshake.auth?.token;
+    if (typeof authToken === 'string' && authToken) return authToken;
+
+    const header = socket.handshake.headers.authorization;
+    return header?.startsWith('Bearer ') ? header.substring(7) : undefined;
+  }
+
+  /**
+   * The owner key registered at enqueue time first: it is kept after BullMQ
+   * removes a finished job. BullMQ and the workflow metadata cover jobs
+   * queued without it
+   */
+  private async findOwner(
+    jobId: string,
+  ): Promise<Pick<JobData, 'userId'> | null> {
+    const userId = await this.jobStatusService.getOwner(jobId);
+    if (userId) return { userId };
+
+    const found = await this.queueService.findJob(jobId);
+    if (found) return { userId: (found.job.data as JobData).userId };
+    return this.workflowService.findOwner(jobId);
+  }
+}
@@ -12,6 +12,8 @@ import { Logger } from '@nestjs/common';
 import { Server, Socket } from 'socket.io';
 import { WebSocketService } from './websocket.service';
 import { JobStatusService } from './job-status.service';
+import { SocketAuthService } from './socket-auth.service';
+import { JobCancellationService } from '../queues/job-cancellation.service';
 
 @WSGateway({
   cors: {
@@ -32,27 +34,42 @@ export class WebSocketGateway
   constructor(
     private readonly webSocketService: WebSocketService,
     private readonly jobStatusService: JobStatusService,
+    private readonly cancellationService: JobCancellationService,
+    private readonly socketAuth: SocketAuthService,
   ) {}
 
   afterInit(server: Server) {
     this.webSocketService.setServer(server);
     this.logger.log('?? WebSocket Gateway initialized');
 
+    // Solo se aceptan conexiones con un JWT válido (auth.token o Authorization)
+    server.use((socket, next) => {
+      this.socketAuth
+        .authenticate(socket)
+        .then(() => next())
+        .catch((error: Error) => {
+          this.logger.warn(`?? Connection ${socket.id} rejected: ${error.message}`);
+          next(error);
+        });
+    });
+
     // Configurar cleanup automatico cada 5 minutos
     setInterval(() => {
       this.webSocketService.cleanupInactiveClients();
-      this.jobStatusService.cleanupOldJobs();
+      void this.jobStatusService.cleanupOldJobs();
     }, 5 * 60 * 1000);
   }
 
   handleConnection(client: Socket, ...args: any[]) {
-    this.logger.log(`?? Client connected: ${client.id}`);
+    const { user } = this.socketAuth.sessionOf(client);
+    this.logger.log(`?? Client connected: ${client.id} (user ${user.id})`);
     this.webSocketService.registerClient(client);
 
     // Enviar mensaje de bienvenida
     client.emit('welcome', {
       message: 'Connected to job status updates',
       clientId: client.id,
+      userId: user.id,
       timestamp: Date.now(),
       server: 'FASE-2 Queue System',
     });
@@ -67,7 +84,7 @@ export class WebSocketGateway
    * Cliente solicita suscribirse a actualizaciones de un job
    */
   @SubscribeMessage('subscribe')
-  handleSubscribe(
+  async handleSubscribe(
     @MessageBody() data: { jobId: string },
     @ConnectedSocket() client: Socket,
   ) {
@@ -81,7 +98,7 @@ export class WebSocketGateway
     this.logger.debug(`?? Subscription request for job ${jobId} from client ${client.id}`);
 
     try {
-      this.webSocketService.subscribeClientToJob(client, jobId);
+      await this.webSocketService.subscribeClientToJob(client, jobId);
     } catch (error: any) {
       const message =
         error?.message && typeof error.message === 'string'
@@ -127,7 +144,7 @@ export class WebSocketGateway
    * Cliente solicita el estado actual de un job
    */
   @SubscribeMessage('status')
-  handleGetStatus(
+  async handleGetStatus(
     @MessageBody() data: { jobId: string },
     @ConnectedSocket() client: Socket,
   ) {
@@ -141,7 +158,7 @@ export class WebSocketGateway
     this.logger.debug(`?? Status request for job ${jobId} from client ${client.id}`);
 
     try {
-      this.webSocketService.sendJobStatus(client, jobId);
+      await this.webSocketService.sendJobStatus(client, jobId);
     } catch (error: any) {
       const message =
         error?.message && typeof error.message === 'string'
@@ -153,15 +170,70 @@ export class WebSocketGateway
     }
   }
 
+  /**
+   * Cliente que se reconecta pide las actualizaciones de sus jobs que se perdió
+   */
+  @SubscribeMessage('history')
+  async handleHistory(
+    @MessageBody() data: { since?: number; limit?: number },
+    @ConnectedSocket() client: Socket,
+  ) {
+    this.logger.debug(`?? History request since ${data?.since ?? 0} from client ${client.id}`);
+
+    try {
+      await this.webSocketService.sendHistory(client, data?.since, data?.limit);
+    } catch (error: any) {
+      const message =
+        error?.message && typeof error.message === 'string'
+          ? error.message
+          : 'Failed to retrieve job history';
+
+      this.logger.warn(`History request error for client ${client.id}: ${message}`);
+      client.emit('error', { message });
+    }
+  }
+
+  /**
+   * Cliente solicita cancelar un job propio (o cualquiera si es ADMIN)
+   */
+  @SubscribeMessage('cancel')
+  async handleCancel(
+    @MessageBody() data: { jobId: string },
+    @ConnectedSocket() client: Socket,
+  ) {
+    const jobId = data?.jobId;
+
+    if (!jobId) {
+      client.emit('error', { message: 'Job ID is required' });
+      return;
+    }
+
+    this.logger.debug(`?? Cancel request for job ${jobId} from client ${client.id}`);
+
+    try {
+      const { requester } = this.socketAuth.sessionOf(client);
+      const result = await this.cancellationService.cancel(jobId, requester);
+      client.emit('cancel-response', result);
+    } catch (error: any) {
+      const message =
+        error?.message && typeof error.message === 'string'
+          ? error.message
+          : 'Failed to cancel job';
+
+      this.logger.warn(`Cancel error for client ${client.id}: ${message}`);
+      client.emit('error', { message, jobId });
+    }
+  }
+
   /**
    * Cliente solicita estadisticas generales del sistema
    */
   @SubscribeMessage('stats')
-  handleGetStats(@ConnectedSocket() client: Socket) {
+  async handleGetStats(@ConnectedSocket() client: Socket) {
     this.logger.debug(`?? Stats request from client ${client.id}`);
 
     try {
-      this.webSocketService.sendStatistics(client);
+      await this.webSocketService.sendStatistics(client);
     } catch (error: any) {
       const message =
         error?.message && typeof error.message === 'string'
@@ -2,12 +2,21 @@ import { Module, forwardRef } from '@nestjs/common';
 import { WebSocketGateway } from './websocket.gateway';
 import { WebSocketService } from './websocket.service';
 import { JobStatusService } from './job-status.service';
+import { SocketAuthService } from './socket-auth.service';
+import { JobEventsController } from './job-events.controller';
 import { QueueModule } from '../queues/queue.module';
 import { RedisModule } from '../redis/redis.module';
+import { AuthModule } from '../../auth/auth.module';
 
 @Module({
-  imports: [forwardRef(() => QueueModule), RedisModule],
-  providers: [WebSocketGateway, WebSocketService, JobStatusService],
+  imports: [forwardRef(() => QueueModule), RedisModule, AuthModule],
+  controllers: [JobEventsController],
+  providers: [
+    WebSocketGateway,
+    WebSocketService,
+    JobStatusService,
+    SocketAuthService,
+  ],
   exports: [WebSocketGateway, WebSocketService, JobStatusService],
 })
 export class WebSocketModule {}
\ No newline at end of file
@@ -1,6 +1,14 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { Server, Socket } from 'socket.io';
 import { JobStatusService, JobStatusUpdate } from './job-status.service';
+import { SocketAuthService, SocketSession } from './socket-auth.service';
+import {
+  SessionRevocation,
+  SessionRevocationService,
+} from '../../auth/session-revocation.service';
+
+/** Room every socket of a user joins: receives all of the user's jobs */
+export const userRoom = (userId: string) => `user:${userId}`;
 
 export interface WebSocketClient {
   socket: Socket;
@@ -14,11 +22,20 @@ export class WebSocketService {
   private server: Server;
   private clients = new Map<string, WebSocketClient>();
 
-  constructor(private readonly jobStatusService: JobStatusService) {
+  constructor(
+    private readonly jobStatusService: JobStatusService,
+    private readonly socketAuth: SocketAuthService,
+    private readonly sessionRevocation: SessionRevocationService,
+  ) {
     // Escuchar actualizaciones de estado de jobs
     this.jobStatusService.on('job-status-update', (update: JobStatusUpdate) => {
       this.broadcastJobUpdate(update);
     });
+
+    // Cerrar los sockets de los tokens revocados por logout / logout-all
+    this.sessionRevocation.on('revoked', (revocation: SessionRevocation) => {
+      this.disconnectRevoked(revocation);
+    });
   }
 
   /**
@@ -42,6 +59,10 @@ export class WebSocketService {
     this.clients.set(socket.id, client);
     this.logger.log(`👤 Client ${socket.id} connected`);
 
+    // Los jobs del usuario llegan sin suscribirse uno por uno
+    const { user } = this.socketAuth.sessionOf(socket);
+    void socket.join(userRoom(user.id));
+
     // Configurar event listeners del cliente
     this.setupClientListeners(socket, client);
   }
@@ -52,11 +73,9 @@ export class WebSocketService {
   private setupClientListeners(socket: Socket, client: WebSocketClient): void {
     // Cliente se suscribe a un job especifico
     socket.on('subscribe-job', (jobId: string) => {
-      try {
-        this.subscribeClientToJob(socket, jobId);
-      } catch (error: any) {
+      this.subscribeClientToJob(socket, jobId).catch((error: any) => {
         this.handleClientError(socket, error, 'subscribe-job');
-      }
+      });
     });
 
     // Cliente se desuscribe de un job
@@ -70,20 +89,16 @@ export class WebSocketService {
 
     // Cliente solicita el estado actual de un job
     socket.on('get-job-status', (jobId: string) => {
-      try {
-        this.sendJobStatus(socket, jobId);
-      } catch (error: any) {
+      this.sendJobStatus(socket, jobId).catch((error: any) => {
         this.handleClientError(socket, error, 'get-job-status');
-      }
+      });
     });
 
     // Cliente solicita estadisticas generales
     socket.on('get-statistics', () => {
-      try {
-        this.sendStatistics(socket);
-      } catch (error: any) {
+      this.sendStatistics(socket).catch((error: any) => {
         this.handleClientError(socket, error, 'get-statistics');
-      }
+      });
     });
 
     // Ping/Pong para mantener conexion
@@ -96,7 +111,7 @@ export class WebSocketService {
       this.unregisterClient(socket.id, reason);
     });
   }
-  subscribeClientToJob(socket: Socket, jobId: string): void {
+  async subscribeClientToJob(socket: Socket, jobId: string): Promise<void> {
     const normalizedJobId =
       typeof jobId === 'string' ? jobId.trim() : '';
 
@@ -109,15 +124,21 @@ export class WebSocketService {
       throw new Error('Client session not registered');
     }
 
+    await this.socketAuth.assertCanWatch(socket, normalizedJobId);
+
     client.jobIds.add(normalizedJobId);
     this.logger.debug(`?? Client ${socket.id} subscribed to job ${normalizedJobId}`);
 
-    const currentStatus = this.jobStatusService.getJobStatus(normalizedJobId);
-    if (currentStatus) {
-      socket.emit('job-update', currentStatus);
-    }
-
     socket.emit('subscription-confirmed', { jobId: normalizedJobId });
+
+    // El estado vigente puede venir de otra réplica
+    void this.jobStatusService
+      .getJobStatus(normalizedJobId)
+      .then((currentStatus) => {
+        if (currentStatus) {
+          socket.emit('job-update', currentStatus);
+        }
+      });
   }
 
   unsubscribeClientFromJob(socket: Socket, jobId: string): void {
@@ -140,7 +161,7 @@ export class WebSocketService {
     socket.emit('unsubscription-confirmed', { jobId: normalizedJobId });
   }
 
-  sendJobStatus(socket: Socket, jobId: string): void {
+  async sendJobStatus(socket: Socket, jobId: string): Promise<void> {
     const normalizedJobId =
       typeof jobId === 'string' ? jobId.trim() : '';
 
@@ -148,7 +169,8 @@ export class WebSocketService {
       throw new Error('Job ID is required');
     }
 
-    const status = this.jobStatusService.getJobStatus(normalizedJobId);
+    await this.socketAuth.assertCanWatch(socket, normalizedJobId);
+    const status = await this.jobStatusService.getJobStatus(normalizedJobId);
 
     socket.emit('job-status-response', {
       jobId: normalizedJobId,
@@ -156,9 +178,36 @@ export class WebSocketService {
     });
   }
 
-  sendStatistics(socket: Socket): void {
+  /**
+   * Reenvía las actualizaciones de los jobs del usuario posteriores a
+   * `since` (`userSequence` de la última recibida)
+   */
+  async sendHistory(
+    socket: Socket,
+    since?: number,
+    limit?: number,
+  ): Promise<void> {
+    const { user } = this.socketAuth.sessionOf(socket);
+    const sinceSequence =
+      typeof since === 'number' && since > 0 ? Math.floor(since) : 0;
+    const events = await this.jobStatusService.getUserHistory(
+      user.id,
+      sinceSequence,
+      typeof limit === 'number' && limit > 0 ? Math.floor(limit) : undefined,
+    );
+
+    socket.emit('history-response', {
+      since: sinceSequence,
+      events,
+      lastSequence: events.length
+        ? events[events.length - 1].userSequence
+        : sinceSequence,
+    });
+  }
+
+  async sendStatistics(socket: Socket): Promise<void> {
     const stats = {
-      ...this.jobStatusService.getJobStatistics(),
+      ...(await this.jobStatusService.getJobStatistics()),
       clients: this.clients.size,
       uptime: process.uptime(),
     };
@@ -196,33 +245,47 @@ export class WebSocketService {
     }
   }
 
+  /**
+   * Desconecta los clientes autenticados con un token revocado
+   */
+  private disconnectRevoked(revocation: SessionRevocation): void {
+    const clients = Array.from(this.clients.entries());
+    for (const [socketId, client] of clients) {
+      if (!this.socketAuth.isRevoked(client.socket, revocation)) continue;
+
+      client.socket.emit('session-revoked', {
+        message: 'Session closed by logout',
+        timestamp: Date.now(),
+      });
+      client.socket.disconnect(true);
+      this.unregisterClient(socketId, 'session-revoked');
+    }
+  }
+
   /**
    * Envía una actualización de job a todos los clientes suscritos
    */
   private broadcastJobUpdate(update: JobStatusUpdate): void {
-    let sentCount = 0;
+    if (!this.server) return;
 
+    // Cada socket está en la sala de su propio id
+    const rooms: string[] = [];
     const clients = Array.from(this.clients.entries());
     for (const [socketId, client] of clients) {
       if (client.jobIds.has(update.jobId)) {
-        try {
-          client.socket.emit('job-update', update);
-          sentCount++;
-        } catch (error) {
-          this.logger.warn(
-            `❌ Failed to send update to client ${socketId}: ${error.message}`,
-          );
-          // Cliente probablemente desconectado, limpiarlo
-          this.unregisterClient(socketId, 'send-error');
-        }
+        rooms.push(socketId);
       }
     }
-
-    if (sentCount > 0) {
-      this.logger.debug(
-        `📡 Job ${update.jobId} update sent to ${sentCount} clients`,
-      );
+    if (update.userId) {
+      rooms.push(userRoom(update.userId));
     }
+    if (rooms.length === 0) return;
+
+    // socket.io entrega una sola vez a quien está suscrito y en la sala del autor
+    this.server.to(rooms).emit('job-update', update);
+    this.logger.debug(
+      `📡 Job ${update.jobId} update sent to ${rooms.length} rooms`,
+    );
   }
 
   /**
@@ -245,6 +308,7 @@ export class WebSocketService {
     totalClients: number;
     clientDetails: Array<{
       socketId: string;
+      userId?: string;
       subscribedJobs: number;
       connectedFor: number;
     }>;
@@ -253,6 +317,7 @@ export class WebSocketService {
     const clientDetails = Array.from(this.clients.entries()).map(
       ([socketId, client]) => ({
         socketId,
+        userId: (client.socket.data as SocketSession | undefined)?.user?.id,
         subscribedJobs: client.jobIds.size,
         connectedFor: Date.now() - client.connectedAt,
       }),
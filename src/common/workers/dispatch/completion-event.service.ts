@@ -0,0 +1,226 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { JSONCodec, Msg, Subscription } from 'nats';
+import { NatsConnectionService } from '../../../transports/nats-connection.service';
+import { JobMessageMetadata } from '../../interceptors/interfaces/job-data.interface';
+
+/**
+ * `<pattern>.completed` payload. A microservice emitting with ClientProxy
+ * sends `{ pattern, data }`; the job id may also travel in the `X-Job-Id`
+ * header the command was published with
+ */
+export interface CompletionEventPayload {
+  jobId?: string;
+  /** Job result; the whole payload when absent */
+  result?: unknown;
+  /** Fails the job, e.g. `{ status: 409, message }` like an RpcException */
+  error?: unknown;
+}
+
+/** `<pattern>.progress` payload */
+export interface ProgressEventPayload {
+  jobId?: string;
+  /** 0-100 */
+  progress: number;
+  /** Seconds */
+  estimatedTimeRemaining?: number;
+  message?: string;
+}
+
+export type ProgressListener = (update: ProgressEventPayload) => void;
+
+/** Registration of a job waiting for its completion event */
+export interface CompletionWait {
+  completion: Promise<unknown>;
+  cancel(): void;
+}
+
+interface Waiter {
+  resolve: (result: unknown) => void;
+  reject: (error: unknown) => void;
+  onProgress?: ProgressListener;
+}
+
+interface SubjectListener {
+  kind: 'completion' | 'progress';
+  subscription: Subscription | null;
+  waiters: Map<string, Waiter>;
+}
+
+/**
+ * Completes `event` jobs from the events the microservices emit over NATS,
+ * correlated by job id. Subjects are subscribed while some job of this
+ * instance waits on them; events of jobs run by other instances are ignored
+ */
+@Injectable()
+export class CompletionEventService {
+  private readonly logger = new Logger(CompletionEventService.name);
+  private readonly codec = JSONCodec<unknown>();
+  private readonly listeners = new Map<string, SubjectListener>();
+  private readonly defaultTimeoutMs =
+    parseInt(process.env.QUEUE_COMPLETION_EVENT_TIMEOUT || '3600', 10) * 1000;
+
+  constructor(private readonly nats: NatsConnectionService) {}
+
+  /** How long an `event` job may wait for its completion event */
+  timeoutFor(message: JobMessageMetadata): number {
+    return message.completionTimeout
+      ? message.completionTimeout * 1000
+      : this.defaultTimeoutMs;
+  }
+
+  /**
+   * Subscribes to the job's completion (and progress) events. Resolves once
+   * the subscriptions reached the server, so the command can be published
+   * without missing a fast answer
+   */
+  async register(
+    jobId: string,
+    message: JobMessageMetadata,
+    onProgress?: ProgressListener,
+  ): Promise<CompletionWait> {
+    const timeoutMs = this.timeoutFor(message);
+    const subjects: [string, SubjectListener['kind']][] = [
+      [message.completionEvent, 'completion'],
+    ];
+    if (message.progressEvent) {
+      subjects.push([message.progressEvent, 'progress']);
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const release = () => {
+      if (timer) clearTimeout(timer);
+      subjects.forEach(([subject]) => this.removeWaiter(subject, jobId));
+    };
+
+    const completion = new Promise<unknown>((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve: (result) => {
+          release();
+          resolve(result);
+        },
+        reject: (error) => {
+          release();
+          reject(error);
+        },
+        onProgress,
+      };
+      subjects.forEach(([subject, kind]) =>
+        this.addWaiter(subject, kind, jobId, waiter),
+      );
+      timer = setTimeout(
+        () =>
+          waiter.reject(
+            new Error(
+              `Completion event '${message.completionEvent}' timeout after ${timeoutMs}ms`,
+            ),
+          ),
+        timeoutMs,
+      );
+    });
+    // Evita rechazos no manejados si el job se abandona antes de esperar
+    completion.catch(() => undefined);
+
+    try {
+      const nc = await this.nats.get();
+      await nc.flush();
+    } catch (error) {
+      release();
+      throw error;
+    }
+
+    return { completion, cancel: release };
+  }
+
+  private addWaiter(
+    subject: string,
+    kind: SubjectListener['kind'],
+    jobId: string,
+    waiter: Waiter,
+  ) {
+    let listener = this.listeners.get(subject);
+    if (!listener) {
+      listener = { kind, subscription: null, waiters: new Map() };
+      this.listeners.set(subject, listener);
+      void this.subscribe(subject, listener);
+    }
+    listener.waiters.set(jobId, waiter);
+  }
+
+  private removeWaiter(subject: string, jobId: string) {
+    const listener = this.listeners.get(subject);
+    if (!listener) return;
+    listener.waiters.delete(jobId);
+    if (listener.waiters.size === 0) {
+      this.listeners.delete(subject);
+      listener.subscription?.unsubscribe();
+    }
+  }
+
+  private async subscribe(subject: string, listener: SubjectListener) {
+    try {
+      const nc = await this.nats.get();
+      // Sin esperas pendientes mientras se conectaba
+      if (this.listeners.get(subject) !== listener) return;
+      listener.subscription = nc.subscribe(subject, {
+        callback: (error, msg) => {
+          if (error) {
+            this.logger.warn(
+              `Subscription to ${subject} failed: ${error.message}`,
+            );
+            return;
+          }
+          this.onMessage(subject, listener, msg);
+        },
+      });
+    } catch (error: any) {
+      this.logger.error(
+        `Cannot listen to '${subject}': ${error?.message || error}`,
+      );
+      listener.waiters.forEach((waiter) => waiter.reject(error));
+    }
+  }
+
+  private onMessage(subject: string, listener: SubjectListener, msg: Msg) {
+    let data: Record<string, any>;
+    try {
+      data = this.unwrap(this.codec.decode(msg.data));
+    } catch {
+      this.logger.warn(`Ignoring non-JSON event on ${subject}`);
+      return;
+    }
+
+    const jobId =
+      (data.jobId as string | undefined) ?? msg.headers?.get('X-Job-Id');
+    const waiter = jobId ? listener.waiters.get(jobId) : undefined;
+    if (!waiter) return;
+
+    if (listener.kind === 'progress') {
+      if (typeof data.progress === 'number') {
+        waiter.onProgress?.(data as ProgressEventPayload);
+      }
+      return;
+    }
+
+    if (data.error !== undefined) {
+      waiter.reject(data.error);
+      return;
+    }
+    const rest = { ...data };
+    delete rest.jobId;
+    waiter.resolve(data.result !== undefined ? data.result : rest);
+  }
+
+  /** Events emitted through ClientProxy arrive as `{ pattern, data }` */
+  private unwrap(decoded: unknown): Record<string, any> {
+    const value =
+      decoded &&
+      typeof decoded === 'object' &&
+      'pattern' in decoded &&
+      'data' in decoded
+        ? (decoded as { data: unknown }).data
+        : decoded;
+    return value && typeof value === 'object'
+      ? (value as Record<string, any>)
+      : {};
+  }
+}
@@ -0,0 +1,98 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from '@nestjs/common';
+import { DispatchTransportName } from './dispatch-transport.interface';
+
+const TRANSPORT_NAMES: DispatchTransportName[] = [
+  'nats',
+  'jetstream',
+  'in-process',
+];
+
+/** Transport for the patterns matching `pattern` (`prefix.*` or exact) */
+export interface DispatchTransportRoute {
+  pattern: string;
+  transport: DispatchTransportName;
+}
+
+export interface JetStreamSettings {
+  /** Stream the commands are persisted in */
+  stream: string;
+
+  /** Published subject is `<subjectPrefix>.<pattern>` */
+  subjectPrefix: string;
+
+  /** Create the stream on first use when it does not exist */
+  createStream: boolean;
+}
+
+export interface DispatchTransportConfig {
+  /** Transport of the patterns no route matches */
+  default: DispatchTransportName;
+  routes: DispatchTransportRoute[];
+  jetstream: JetStreamSettings;
+
+  /** Module exporting the in-process handlers, loaded at startup */
+  inProcessHandlers?: string;
+}
+
+const logger = new Logger('DispatchTransportConfig');
+
+const isTransportName = (value: unknown): value is DispatchTransportName =>
+  TRANSPORT_NAMES.includes(value as DispatchTransportName);
+
+/**
+ * Load the transport routing from DISPATCH_TRANSPORT_CONFIG_PATH or
+ * config/transports.json. DISPATCH_TRANSPORT_DEFAULT overrides the default,
+ * e.g. `in-process` to run the gateway against local handlers in CI
+ */
+export function loadDispatchTransportConfig(): DispatchTransportConfig {
+  const configPath =
+    process.env.DISPATCH_TRANSPORT_CONFIG_PATH ||
+    path.join(process.cwd(), 'config', 'transports.json');
+
+  let fileConfig: Partial<DispatchTransportConfig> = {};
+  try {
+    if (fs.existsSync(configPath)) {
+      fileConfig = JSON.parse(
+        fs.readFileSync(configPath, 'utf8'),
+      ) as Partial<DispatchTransportConfig>;
+    }
+  } catch (error: any) {
+    logger.warn(
+      `Failed to load ${configPath}: ${error?.message || error}. Every pattern goes through NATS`,
+    );
+  }
+
+  const routes = (fileConfig.routes ?? []).filter((route, index) => {
+    const valid = !!route.pattern && isTransportName(route.transport);
+    if (!valid) {
+      logger.warn(
+        `Transport route #${index} ignored: it needs pattern and transport (${TRANSPORT_NAMES.join(', ')})`,
+      );
+    }
+    return valid;
+  });
+
+  const envDefault = process.env.DISPATCH_TRANSPORT_DEFAULT;
+  if (envDefault && !isTransportName(envDefault)) {
+    logger.warn(`Unknown DISPATCH_TRANSPORT_DEFAULT '${envDefault}' ignored`);
+  }
+
+  return {
+    default: isTransportName(envDefault)
+      ? envDefault
+      : isTransportName(fileConfig.default)
+        ? fileConfig.default
+        : 'nats',
+    routes,
+    jetstream: {
+      stream: 'GATEWAY_COMMANDS',
+      subjectPrefix: 'commands',
+      createStream: true,
+      ...fileConfig.jetstream,
+    },
+    inProcessHandlers:
+      process.env.DISPATCH_IN_PROCESS_HANDLERS || fileConfig.inProcessHandlers,
+  };
+}
@@ -0,0 +1,41 @@
+import { ObservableInput } from 'rxjs';
+
+export type DispatchTransportName = 'nats' | 'jetstream' | 'in-process';
+
+/** What a transport knows about the job it is delivering */
+export interface DispatchContext {
+  jobId: string;
+  timeoutMs: number;
+  headers?: Record<string, string>;
+
+  /** Progress reported by in-process handlers, 0-100 */
+  onProgress?: (progress: number, estimatedTimeRemaining?: number) => void;
+}
+
+/**
+ * Delivers a queued job's message to whoever handles its pattern. The
+ * dispatcher applies the timeout, cancellation and circuit breaker around it
+ */
+export interface DispatchTransport {
+  readonly name: DispatchTransportName;
+
+  /** Remote transports go through the circuit breaker of their pattern */
+  readonly remote: boolean;
+
+  dispatch(
+    pattern: string,
+    payload: unknown,
+    context: DispatchContext,
+  ): ObservableInput<unknown>;
+
+  /**
+   * Fire-and-forget delivery for routes completed by event, carrying the job
+   * id in the `X-Job-Id` header. Transports without it answer `event` routes
+   * through `dispatch`
+   */
+  publish?(
+    pattern: string,
+    payload: unknown,
+    context: DispatchContext,
+  ): ObservableInput<unknown>;
+}
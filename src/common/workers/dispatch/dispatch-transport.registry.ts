@@ -0,0 +1,92 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import * as path from 'path';
+import {
+  DispatchTransport,
+  DispatchTransportName,
+} from './dispatch-transport.interface';
+import {
+  DispatchTransportConfig,
+  DispatchTransportRoute,
+  loadDispatchTransportConfig,
+} from './dispatch-transport.config';
+import { NatsRequestTransport } from './nats-request.transport';
+import { JetStreamTransport } from './jetstream.transport';
+import { InProcessTransport } from './in-process.transport';
+
+/**
+ * Picks the transport of each NATS pattern from `config/transports.json`.
+ * Routes match by exact pattern or `prefix.*`; the most specific one wins
+ */
+@Injectable()
+export class DispatchTransportRegistry implements OnModuleInit {
+  private readonly logger = new Logger(DispatchTransportRegistry.name);
+  private readonly config: DispatchTransportConfig =
+    loadDispatchTransportConfig();
+  private readonly transports: Record<DispatchTransportName, DispatchTransport>;
+
+  constructor(
+    nats: NatsRequestTransport,
+    private readonly jetstream: JetStreamTransport,
+    private readonly inProcess: InProcessTransport,
+  ) {
+    this.transports = {
+      nats,
+      jetstream,
+      'in-process': inProcess,
+    };
+  }
+
+  onModuleInit() {
+    this.jetstream.configure(this.config.jetstream);
+
+    if (this.config.inProcessHandlers) {
+      try {
+        this.inProcess.load(path.resolve(this.config.inProcessHandlers));
+      } catch (error: any) {
+        this.logger.error(
+          `Could not load in-process handlers from ${this.config.inProcessHandlers}: ${error?.message || error}`,
+        );
+      }
+    }
+
+    this.logger.log(
+      `Dispatch transports: default ${this.config.default}, ${this.config.routes.length} routes`,
+    );
+  }
+
+  select(pattern: string): DispatchTransport {
+    const route = this.findRoute(pattern);
+    return this.transports[route?.transport ?? this.config.default];
+  }
+
+  describe() {
+    return {
+      default: this.config.default,
+      routes: this.config.routes,
+      jetstream: this.config.jetstream,
+      inProcessPatterns: this.inProcess.getPatterns(),
+    };
+  }
+
+  private findRoute(pattern: string): DispatchTransportRoute | undefined {
+    return this.config.routes
+      .filter((route) => this.matches(pattern, route.pattern))
+      .sort(
+        (a, b) => this.specificity(b.pattern) - this.specificity(a.pattern),
+      )[0];
+  }
+
+  private matches(pattern: string, expected: string): boolean {
+    if (expected === '*') return true;
+    if (expected.endsWith('.*')) {
+      return pattern.startsWith(expected.slice(0, -1));
+    }
+    return pattern === expected;
+  }
+
+  /** Exact patterns beat wildcards, longer prefixes beat shorter ones */
+  private specificity(expected: string): number {
+    if (expected === '*') return 0;
+    return expected.endsWith('.*') ? expected.length : Number.MAX_SAFE_INTEGER;
+  }
+}
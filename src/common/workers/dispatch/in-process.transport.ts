@@ -0,0 +1,80 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  DispatchContext,
+  DispatchTransport,
+  DispatchTransportName,
+} from './dispatch-transport.interface';
+
+export type InProcessHandler = (
+  payload: any,
+  context: DispatchContext,
+) => unknown;
+
+/**
+ * Handlers running inside the gateway, registered by pattern (`prefix.*` or
+ * exact). Used for internal patterns like `queue.test` and to run the gateway
+ * against fake microservices. Errors thrown by a handler fail the job like a
+ * microservice error would
+ */
+@Injectable()
+export class InProcessTransport implements DispatchTransport {
+  readonly name: DispatchTransportName = 'in-process';
+  readonly remote = false;
+
+  private readonly logger = new Logger(InProcessTransport.name);
+  private readonly handlers = new Map<string, InProcessHandler>();
+
+  constructor() {
+    this.register('queue.test', (payload, { jobId }) => ({
+      success: true,
+      echo: payload,
+      jobId,
+      processedAt: new Date().toISOString(),
+    }));
+  }
+
+  register(pattern: string, handler: InProcessHandler) {
+    this.handlers.set(pattern, handler);
+  }
+
+  /** Registers every `pattern: handler` entry of a module's default export */
+  load(modulePath: string) {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const loaded = require(modulePath) as {
+      default?: Record<string, InProcessHandler>;
+      handlers?: Record<string, InProcessHandler>;
+    };
+    const handlers = loaded.default ?? loaded.handlers ?? {};
+    Object.entries(handlers).forEach(([pattern, handler]) =>
+      this.register(pattern, handler),
+    );
+    this.logger.log(
+      `Loaded ${Object.keys(handlers).length} in-process handlers from ${modulePath}`,
+    );
+  }
+
+  getPatterns(): string[] {
+    return [...this.handlers.keys()];
+  }
+
+  async dispatch(pattern: string, payload: unknown, context: DispatchContext) {
+    const handler = this.resolve(pattern);
+    if (!handler) {
+      throw new Error(`No in-process handler registered for '${pattern}'`);
+    }
+    return await handler(payload, context);
+  }
+
+  /** Exact pattern first, then the longest `prefix.*` */
+  private resolve(pattern: string): InProcessHandler | undefined {
+    const exact = this.handlers.get(pattern);
+    if (exact) return exact;
+
+    const segments = pattern.split('.');
+    for (let i = segments.length - 1; i > 0; i--) {
+      const wildcard = this.handlers.get(`${segments.slice(0, i).join('.')}.*`);
+      if (wildcard) return wildcard;
+    }
+    return this.handlers.get('*');
+  }
+}
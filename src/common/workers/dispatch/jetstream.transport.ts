@@ -0,0 +1,119 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { JSONCodec, JetStreamClient, headers as natsHeaders } from 'nats';
+import { NatsConnectionService } from '../../../transports/nats-connection.service';
+import {
+  DispatchContext,
+  DispatchTransport,
+  DispatchTransportName,
+} from './dispatch-transport.interface';
+import { JetStreamSettings } from './dispatch-transport.config';
+
+/** Acknowledgement returned as job result for commands sent to JetStream */
+export interface JetStreamDispatchResult {
+  accepted: true;
+  transport: 'jetstream';
+  subject: string;
+  stream: string;
+  sequence: number;
+  /** The job id was already stored: a retried job is not persisted twice */
+  duplicate: boolean;
+}
+
+/**
+ * Durable fire-and-forget commands: the job completes once JetStream has
+ * persisted the message, the microservice consumes it at its own pace. The
+ * job id is the message id, so retries are deduplicated by the stream
+ */
+@Injectable()
+export class JetStreamTransport implements DispatchTransport {
+  readonly name: DispatchTransportName = 'jetstream';
+  readonly remote = true;
+
+  private readonly logger = new Logger(JetStreamTransport.name);
+  private readonly codec = JSONCodec();
+  private settings: JetStreamSettings | null = null;
+  private jetstream: Promise<JetStreamClient> | null = null;
+
+  constructor(private readonly nats: NatsConnectionService) {}
+
+  configure(settings: JetStreamSettings) {
+    this.settings = settings;
+  }
+
+  async dispatch(
+    pattern: string,
+    payload: unknown,
+    context: DispatchContext,
+  ): Promise<JetStreamDispatchResult> {
+    const settings = this.requireSettings();
+    const js = await this.getJetStream();
+    const subject = `${settings.subjectPrefix}.${pattern}`;
+
+    const messageHeaders = natsHeaders();
+    messageHeaders.set('X-Job-Id', context.jobId);
+    messageHeaders.set('X-Pattern', pattern);
+
+    const ack = await js.publish(subject, this.codec.encode(payload ?? {}), {
+      msgID: context.jobId,
+      headers: messageHeaders,
+      timeout: context.timeoutMs,
+    });
+
+    return {
+      accepted: true,
+      transport: 'jetstream',
+      subject,
+      stream: ack.stream,
+      sequence: ack.seq,
+      duplicate: ack.duplicate,
+    };
+  }
+
+  /** Commands are already fire-and-forget: `event` routes publish the same way */
+  publish(pattern: string, payload: unknown, context: DispatchContext) {
+    return this.dispatch(pattern, payload, context);
+  }
+
+  /** Stream creation runs once per gateway instance */
+  private getJetStream() {
+    if (!this.jetstream) {
+      this.jetstream = this.open().catch((error) => {
+        this.jetstream = null;
+        throw error;
+      });
+    }
+    return this.jetstream;
+  }
+
+  private async open() {
+    const settings = this.requireSettings();
+    const nc = await this.nats.get();
+
+    if (settings.createStream) {
+      const jsm = await nc.jetstreamManager();
+      try {
+        await jsm.streams.info(settings.stream);
+      } catch {
+        await jsm.streams.add({
+          name: settings.stream,
+          subjects: [`${settings.subjectPrefix}.>`],
+        });
+        this.logger.log(
+          `Created stream ${settings.stream} for ${settings.subjectPrefix}.>`,
+        );
+      }
+    }
+
+    this.logger.log(
+      `Publishing commands to JetStream stream ${settings.stream}`,
+    );
+    return nc.jetstream();
+  }
+
+  private requireSettings(): JetStreamSettings {
+    if (!this.settings) {
+      throw new Error('JetStream transport used before being configured');
+    }
+    return this.settings;
+  }
+}
@@ -0,0 +1,32 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ClientProxy, NatsRecordBuilder } from '@nestjs/microservices';
+import { headers as natsHeaders } from 'nats';
+import { NATS_TRANSPORT } from '../../../config';
+import {
+  DispatchContext,
+  DispatchTransport,
+  DispatchTransportName,
+} from './dispatch-transport.interface';
+
+/** Plain NATS request/reply: the microservice's answer is the job result */
+@Injectable()
+export class NatsRequestTransport implements DispatchTransport {
+  readonly name: DispatchTransportName = 'nats';
+  readonly remote = true;
+
+  constructor(@Inject(NATS_TRANSPORT) private readonly client: ClientProxy) {}
+
+  dispatch(pattern: string, payload: unknown) {
+    return this.client.send<unknown>(pattern, payload);
+  }
+
+  /** NATS event: the microservice answers later with its completion event */
+  publish(pattern: string, payload: unknown, context: DispatchContext) {
+    const messageHeaders = natsHeaders();
+    messageHeaders.set('X-Job-Id', context.jobId);
+    return this.client.emit<unknown>(
+      pattern,
+      new NatsRecordBuilder(payload).setHeaders(messageHeaders).build(),
+    );
+  }
+}
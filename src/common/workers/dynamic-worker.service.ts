@@ -4,9 +4,20 @@ import { WorkerFactoryService, WorkerInfo } from './factory/worker-factory.servi
 import { WorkerLifecycleService } from './lifecycle/worker-lifecycle.service';
 import { WorkerControlService } from './control/worker-control.service';
 import { JobCacheService } from './cache/job-cache.service';
+import { QueueConfigDiff } from '../queues/queue-config.interface';
 
 export { WorkerInfo } from './factory/worker-factory.service';
 
+export interface WorkerReconcileResult {
+  queueName: string;
+  action: 'stopped' | 'restarted' | 'scaled' | 'started';
+  workers: number;
+  error?: string;
+}
+
+// Fields captured by a Worker when it is created; changing them needs a restart
+const WORKER_RESTART_FIELDS = ['concurrency', 'timeout'];
+
 @Injectable()
 export class DynamicWorkerService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(DynamicWorkerService.name);
@@ -133,6 +144,48 @@ export class DynamicWorkerService implements OnModuleInit, OnModuleDestroy {
     return removed;
   }
 
+  /**
+   * Apply a queue config diff to the local workers. Workers are closed
+   * gracefully (BullMQ waits for their active jobs), so nothing in flight is lost.
+   */
+  async reconcileWorkers(diff: QueueConfigDiff): Promise<WorkerReconcileResult[]> {
+    const results: WorkerReconcileResult[] = [];
+
+    const run = async (
+      queueName: string,
+      action: WorkerReconcileResult['action'],
+      fn: () => Promise<number>,
+    ) => {
+      try {
+        results.push({ queueName, action, workers: await fn() });
+      } catch (err: any) {
+        this.logger.error(`Worker reconcile for '${queueName}' failed: ${err?.message || err}`);
+        results.push({ queueName, action, workers: this.getWorkersByQueue(queueName).length, error: err?.message });
+      }
+    };
+
+    for (const queueName of diff.removed) {
+      await run(queueName, 'stopped', async () => {
+        await this.removeAllWorkersForQueue(queueName);
+        return 0;
+      });
+    }
+
+    for (const { name, changes } of diff.updated) {
+      const restart = WORKER_RESTART_FIELDS.some((field) => field in changes);
+      await run(name, restart ? 'restarted' : 'scaled', async () => {
+        if (restart) await this.removeAllWorkersForQueue(name);
+        return (await this.ensureWorkersForQueue(name)).final;
+      });
+    }
+
+    for (const queueName of diff.added) {
+      await run(queueName, 'started', async () => (await this.ensureWorkersForQueue(queueName)).final);
+    }
+
+    return results;
+  }
+
   async getCacheStats() { return await this.cacheService.getStats(); }
   async clearCache(): Promise<void> { await this.cacheService.clear(); }
 
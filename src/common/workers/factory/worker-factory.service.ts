@@ -1,9 +1,15 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { Worker } from 'bullmq';
+import { Job, MetricsTime, Worker } from 'bullmq';
 import { QueueDefinition } from '../../queues/queue-config.interface';
 import { JobProcessorService } from '../processing/job-processor.service';
 import { RedisService } from '../../redis/redis.service';
 import { JobStatusService } from '../../websockets/job-status.service';
+import { JobCompletionService } from '../../queues/job-completion.service';
+import { DeadLetterService } from '../../queues/dead-letter.service';
+import { WorkflowService } from '../../queues/workflow.service';
+import { JobResultRecord } from '../interfaces/job-result.interface';
+import { JobData } from '../../interceptors/interfaces/job-data.interface';
+import { SessionRevocationService } from '../../../auth/session-revocation.service';
 
 export interface WorkerInfo {
   id: string;
@@ -23,6 +29,10 @@ export class WorkerFactoryService {
     private readonly jobProcessor: JobProcessorService,
     private readonly redisService: RedisService,
     private readonly jobStatusService: JobStatusService,
+    private readonly jobCompletion: JobCompletionService,
+    private readonly deadLetter: DeadLetterService,
+    private readonly workflows: WorkflowService,
+    private readonly sessionRevocation: SessionRevocationService,
   ) {}
 
   async createWorker(
@@ -47,12 +57,14 @@ export class WorkerFactoryService {
 
       const worker = new Worker(
         queueDef.name,
-        async (job) => this.jobProcessor.processJob(job, queueDef.name, queueDef, workerNumber),
+        async (job, token) => this.jobProcessor.processJob(job, queueDef.name, queueDef, workerNumber, token),
         {
           connection: bullMQConnection,
           concurrency: queueDef.concurrency,
           maxStalledCount: 1,
           stalledInterval: 30000,
+          // Completados por minuto: base del tiempo estimado y del Retry-After
+          metrics: { maxDataPoints: MetricsTime.ONE_HOUR },
         },
       );
 
@@ -82,23 +94,20 @@ export class WorkerFactoryService {
       this.logger.debug(`[${workerId}] Job ${job.id} completed`);
 
       try {
-        const resultKey = `job:result:${job.id}`;
-        let result: any;
-
-        try {
-          const stored = await this.redisService.get(resultKey);
-          if (stored) {
-            const parsed = JSON.parse(stored);
-            result = parsed?.result;
-          }
-        } catch (readErr) {
-          const message = readErr instanceof Error ? readErr.message : `${readErr}`;
-          this.logger.debug(
-            `[${workerId}] Could not read cached result for job ${job.id}: ${message}`,
-          );
-        }
+        const record = await this.readJobResult(job, workerId);
+        const result = record?.result;
 
-        this.jobStatusService.markJobCompleted(job.id!, result);
+        this.jobStatusService.markJobCompleted(job.id!, result, (job.data as JobData)?.replayOf);
+        await this.jobCompletion.publish({
+          jobId: job.id!,
+          status: 'completed',
+          statusCode: record?.statusCode,
+          result,
+        });
+        if ((job.data as JobData)?.workflow) {
+          await this.workflows.onStepCompleted(job);
+        }
+        await this.sessionRevocation.revokeFromJob(job.data as JobData);
         // explicit server console log
         // eslint-disable-next-line no-console
         console.log(`[WS] Job ${job.id} completed on queue '${queueName}' - notifying clients`);
@@ -108,10 +117,59 @@ export class WorkerFactoryService {
       }
     });
 
-    worker.on('failed', (job, err) => {
+    worker.on('failed', async (job, err) => {
       const jobId = job?.id ?? 'unknown';
       const errorMessage = err instanceof Error ? err.message : `${err}`;
       this.logger.error(`[${workerId}] Job ${jobId} failed: ${errorMessage}`);
+
+      if (!job) return;
+
+      // Solo el último intento es definitivo (finishedOn); los reintentos siguen en la cola
+      if (!job.finishedOn) {
+        await this.notifyRetry(job, workerId, queueName, errorMessage);
+        return;
+      }
+
+      try {
+        const record = await this.readJobResult(job, workerId);
+        const error = record?.error ?? { message: errorMessage, type: 'exception' as const };
+
+        // Cancelado por el usuario: no es un fallo ni va a la DLQ
+        if (record?.status === 'cancelled') {
+          this.jobStatusService.markJobCancelled(job.id!, (job.data as JobData)?.replayOf);
+          await this.jobCompletion.publish({
+            jobId: job.id!,
+            status: 'cancelled',
+            statusCode: record.statusCode,
+            error,
+          });
+          if ((job.data as JobData)?.workflow) {
+            await this.workflows.onStepFailed(job, error, true);
+          }
+          return;
+        }
+
+        this.jobStatusService.markJobFailed(job.id!, error.message, (job.data as JobData)?.replayOf, error);
+        await this.jobCompletion.publish({
+          jobId: job.id!,
+          status: 'failed',
+          statusCode: record?.statusCode,
+          error,
+        });
+
+        // El workflow compensa los pasos completados; la DLQ no reintentaría el flujo
+        if ((job.data as JobData)?.workflow) {
+          await this.workflows.onStepFailed(job, error);
+          return;
+        }
+
+        if (this.deadLetter.isEnabled()) {
+          await this.deadLetter.moveToDeadLetter(job, queueName, error);
+        }
+      } catch (dlqErr) {
+        const message = dlqErr instanceof Error ? dlqErr.message : `${dlqErr}`;
+        this.logger.warn(`Could not finalize failed job ${job.id}: ${message}`);
+      }
     });
 
     worker.on('error', (err) => {
@@ -121,6 +179,8 @@ export class WorkerFactoryService {
 
     worker.on('stalled', (jobId) => {
       this.logger.warn(`[${workerId}] Job ${jobId} stalled`);
+      // BullMQ lo devuelve a la cola; otro worker lo retoma
+      this.jobStatusService.markJobStalled(jobId, queueName);
     });
 
     worker.on('paused', () => {
@@ -136,6 +196,36 @@ export class WorkerFactoryService {
     });
   }
 
+  /** Failed attempt that BullMQ moved back to the queue with its backoff delay */
+  private async notifyRetry(job: Job, workerId: string, queueName: string, errorMessage: string): Promise<void> {
+    const record = await this.readJobResult(job, workerId);
+    const error = record?.error ?? { message: errorMessage, type: 'exception' as const };
+
+    this.jobStatusService.markJobRetrying(
+      job.id!,
+      queueName,
+      {
+        attempt: job.attemptsMade,
+        maxAttempts: job.opts.attempts ?? 1,
+        // BullMQ deja en job.delay el backoff calculado para el reintento
+        delay: job.delay ?? 0,
+      },
+      error,
+      (job.data as JobData)?.replayOf,
+    );
+  }
+
+  private async readJobResult(job: Job, workerId: string): Promise<JobResultRecord | null> {
+    try {
+      const stored = await this.redisService.get(`job:result:${job.id}`);
+      return stored ? (JSON.parse(stored) as JobResultRecord) : null;
+    } catch (readErr) {
+      const message = readErr instanceof Error ? readErr.message : `${readErr}`;
+      this.logger.debug(`[${workerId}] Could not read cached result for job ${job.id}: ${message}`);
+      return null;
+    }
+  }
+
   async shutdownWorker(workerInfo: WorkerInfo): Promise<void> {
     try {
       this.logger.log(`Shutting down worker '${workerInfo.id}'...`);
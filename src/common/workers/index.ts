@@ -3,4 +3,7 @@ export * from './factory/worker-factory.service';
 export * from './processing/job-processor.service';
 export * from './processing/message-dispatcher.service';
 export * from './cache/job-cache.service';
+export * from './dispatch/dispatch-transport.interface';
+export * from './dispatch/dispatch-transport.registry';
+export * from './dispatch/in-process.transport';
 export * from './worker.module';
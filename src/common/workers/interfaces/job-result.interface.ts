@@ -1,9 +1,25 @@
-export type JobErrorType = 'http' | 'timeout' | 'exception' | 'unknown';
+export type JobErrorType =
+  | 'http'
+  | 'timeout'
+  | 'exception'
+  | 'cancelled'
+  | 'unknown';
+
+/** Retry-relevant class of a failure: 4xx business errors are never transient */
+export type JobErrorClass =
+  | 'business'
+  | 'timeout'
+  | 'unavailable'
+  | 'server'
+  | 'unknown';
 
 export interface JobErrorInfo {
   message: string;
   type: JobErrorType;
   statusCode?: number;
+  errorClass?: JobErrorClass;
+  /** Whether the route's retry policy allowed another attempt for this error */
+  retryable?: boolean;
   data?: any;
   stack?: string;
 }
@@ -19,7 +35,7 @@ export interface JobResultRecord {
   queueName: string;
   method: string;
   url: string;
-  status: 'completed' | 'failed';
+  status: 'completed' | 'failed' | 'cancelled';
   success: boolean;
   statusCode?: number;
   responseBody?: any;
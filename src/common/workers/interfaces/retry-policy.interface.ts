@@ -0,0 +1,27 @@
+import { JobErrorClass } from './job-result.interface';
+
+export interface RetryPolicy {
+  /** Total attempts for the job (defaults to the queue's `attempts`) */
+  attempts?: number;
+
+  /** Base delay of the exponential backoff in ms (defaults to the queue's `retryDelay`) */
+  backoffDelay?: number;
+
+  /** Fraction of the backoff delay randomized to spread retries (0-1) */
+  jitter?: number;
+
+  /** Error classes that are retried */
+  retryOn?: JobErrorClass[];
+
+  /** Only retry when the request carried this header, e.g. an idempotency key */
+  requireHeader?: string;
+}
+
+export const DEFAULT_RETRY_ON: JobErrorClass[] = [
+  'timeout',
+  'unavailable',
+  'server',
+  'unknown',
+];
+
+export const DEFAULT_RETRY_JITTER = 0.5;
@@ -1,14 +1,24 @@
 ﻿import { Injectable, Logger } from '@nestjs/common';
-import { Job } from 'bullmq';
+import { DelayedError, Job, UnrecoverableError } from 'bullmq';
+import { RpcException } from '@nestjs/microservices';
 import { JobData } from '../../interceptors/interfaces/job-data.interface';
+import { verifiedUserId } from '../../interceptors/utils/request-context.util';
 import { QueueDefinition } from '../../queues/queue-config.interface';
 import { RedisService } from '../../redis/redis.service';
-import { MessageDispatcherService } from './message-dispatcher.service';
+import {
+  JobCancelledError,
+  MessageDispatcherService,
+} from './message-dispatcher.service';
 import { JobCacheService } from '../cache/job-cache.service';
+import { DEFAULT_RETRY_ON } from '../interfaces/retry-policy.interface';
+import { jobCancelledKey } from '../../queues/job-cancellation.service';
+import { WorkflowService } from '../../queues/workflow.service';
+import { FairSchedulingService } from '../../queues/fair-scheduling.service';
+import { JobStatusService } from '../../websockets/job-status.service';
 import {
   CacheMetadata,
+  JobErrorClass,
   JobErrorInfo,
-  JobErrorType,
   JobResultRecord,
 } from '../interfaces/job-result.interface';
 
@@ -22,6 +32,9 @@ export class JobProcessorService {
     private readonly redisService: RedisService,
     private readonly dispatcher: MessageDispatcherService,
     private readonly cache: JobCacheService,
+    private readonly workflows: WorkflowService,
+    private readonly fairness: FairSchedulingService,
+    private readonly jobStatusService: JobStatusService,
   ) {
     this.resultHistoryLimit = this.resolveNumberFromEnv(
       'QUEUE_RESULT_HISTORY_LIMIT',
@@ -36,16 +49,60 @@ export class JobProcessorService {
     queueName: string,
     queueDef: QueueDefinition,
     workerId?: number,
+    token?: string,
   ): Promise<any> {
-    const jobData = job.data as JobData;
+    // Los jobs de un cron comparten la plantilla: el id real es el de BullMQ
+    const jobData: JobData = { ...(job.data as JobData), id: job.id! };
     const timeoutMs = this.getTimeoutMs(queueDef);
     const workerInfo = workerId ? ` [Worker #${workerId}]` : '';
 
+    // Usuario con demasiados jobs en curso: vuelve a la cola sin gastar un intento
+    const acquired = await this.fairness.acquire(
+      queueName,
+      queueDef,
+      jobData,
+      job.attemptsMade === 0,
+      this.dispatcher.deadlineMs(jobData, timeoutMs),
+    );
+    if (!acquired) {
+      this.logger.debug(
+        `[${queueName}]${workerInfo} Job ${job.id} throttled: user ${this.fairness.verifiedUser(jobData)?.id} is at its in-flight limit`,
+      );
+      await job.moveToDelayed(
+        Date.now() + this.fairness.throttleDelayMs,
+        token,
+      );
+      throw new DelayedError();
+    }
+
     this.logger.log(
       `[${queueName}]${workerInfo} Processing job ${job.id}: ${jobData.method} ${jobData.rawUrl}`,
     );
+    // Los jobs de un cron no pasan por el interceptor que registra al autor;
+    // solo cuenta el usuario del token verificado al encolar
+    await this.jobStatusService.setOwner(
+      job.id!,
+      verifiedUserId(jobData.context?.authValidation),
+    );
+    this.jobStatusService.markJobProcessing(
+      job.id!,
+      queueName,
+      workerId,
+      job.attemptsMade + 1,
+      jobData.replayOf,
+    );
 
     try {
+      // Cancelado mientras pasaba a activo, antes de registrar la petición NATS
+      if (await this.redisService.exists(jobCancelledKey(job.id!))) {
+        throw new JobCancelledError(job.id!);
+      }
+
+      // Los pasos de un workflow usan los resultados de sus dependencias
+      if (jobData.workflow) {
+        jobData.payload = await this.workflows.resolvePayload(jobData);
+      }
+
       const cached = await this.processFromCache(
         job,
         queueName,
@@ -63,10 +120,22 @@ export class JobProcessorService {
       );
       return result;
     } catch (error) {
+      if (error instanceof JobCancelledError) {
+        this.logger.warn(`[${queueName}]${workerInfo} Job ${job.id} cancelled`);
+        await this.saveJobResult(job, queueName, jobData, workerId, null, {
+          message: error.message,
+          type: 'cancelled',
+          statusCode: 409,
+          retryable: false,
+        });
+        throw new UnrecoverableError(error.message);
+      }
+
       const normalizedError = this.normalizeError(error);
+      normalizedError.retryable = this.isRetryable(jobData, normalizedError);
 
       this.logger.error(
-        `[${queueName}]${workerInfo} Job ${job.id} failed: ${normalizedError.message}`,
+        `[${queueName}]${workerInfo} Job ${job.id} failed (${normalizedError.errorClass}): ${normalizedError.message}`,
       );
 
       await this.saveJobResult(
@@ -78,7 +147,13 @@ export class JobProcessorService {
         normalizedError,
       );
 
+      // BullMQ marca el job como fallido sin consumir los intentos restantes
+      if (!normalizedError.retryable) {
+        throw new UnrecoverableError(normalizedError.message);
+      }
       throw error;
+    } finally {
+      await this.fairness.release(queueName, jobData);
     }
   }
 
@@ -119,10 +194,17 @@ export class JobProcessorService {
       `[${queueName}]${workerInfo} Cache miss - dispatching job ${job.id} via NATS`,
     );
 
-    const result = await Promise.race([
-      this.dispatcher.dispatch(jobData, timeoutMs),
-      this.createTimeoutPromise(timeoutMs),
-    ]);
+    // Los jobs completados por evento esperan además a su evento de fin
+    const result = await this.withTimeout(
+      this.dispatcher.dispatch(jobData, timeoutMs, (update) =>
+        this.reportProgress(
+          job,
+          update.progress,
+          update.estimatedTimeRemaining,
+        ),
+      ),
+      this.dispatcher.deadlineMs(jobData, timeoutMs),
+    );
 
     this.cache
       .tryStoreInCache(jobData, result)
@@ -140,16 +222,37 @@ export class JobProcessorService {
     return result;
   }
 
+  /** Progress reported by the microservice: kept in BullMQ and pushed to the socket */
+  private reportProgress(
+    job: Job,
+    progress: number,
+    estimatedTimeRemaining?: number,
+  ) {
+    job.updateProgress(progress).catch((error: Error) => {
+      this.logger.debug(
+        `Progress of job ${job.id} not stored: ${error.message}`,
+      );
+    });
+    this.jobStatusService.updateJobProgress(
+      job.id!,
+      progress,
+      estimatedTimeRemaining,
+    );
+  }
+
   private getTimeoutMs(queueDef: QueueDefinition): number {
     return Math.max(1, (queueDef.timeout ?? 60) * 1000);
   }
 
-  private createTimeoutPromise(ms: number): Promise<never> {
-    return new Promise((_, reject) => {
-      setTimeout(() => {
+  /** Rejects if `promise` takes longer than `ms`; the timer ends with it */
+  private withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
         reject(new Error(`Job timeout after ${ms}ms`));
       }, ms);
     });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
   }
 
   private async saveJobResult(
@@ -165,9 +268,13 @@ export class JobProcessorService {
       queueName,
       method: jobData.method,
       url: jobData.rawUrl ?? jobData.url,
-      status: error ? 'failed' : 'completed',
+      status: !error
+        ? 'completed'
+        : error.type === 'cancelled'
+          ? 'cancelled'
+          : 'failed',
       success: !error,
-      statusCode: error?.statusCode,
+      statusCode: error ? error.statusCode : (jobData.successStatusCode ?? 200),
       responseBody: result,
       responseHeaders: undefined,
       executedAt: new Date(jobData.timestamp).toISOString(),
@@ -193,6 +300,19 @@ export class JobProcessorService {
         await this.redisService.ltrim(listKey, 0, this.resultHistoryLimit - 1);
       }
 
+      // Las ejecuciones de un cron se consultan por definición, no por cola
+      if (jobData.scheduleId) {
+        const scheduleKey = `job:history:schedule:${jobData.scheduleId}`;
+        await this.redisService.lpush(scheduleKey, payload);
+        if (this.resultHistoryLimit > 0) {
+          await this.redisService.ltrim(
+            scheduleKey,
+            0,
+            this.resultHistoryLimit - 1,
+          );
+        }
+      }
+
       this.logger.debug(`Job result saved in Redis: ${resultKey}`);
     } catch (redisError: any) {
       this.logger.error(
@@ -201,18 +321,58 @@ export class JobProcessorService {
     }
   }
 
+  /**
+   * Maps dispatch errors to the same status and body that
+   * RpcCustomExceptionFilter returns for synchronous requests
+   */
   private normalizeError(error: unknown): JobErrorInfo {
+    if (error instanceof RpcException) {
+      return this.normalizeError(error.getError());
+    }
+
     if (error instanceof Error) {
-      const type: JobErrorType = error.name === 'TimeoutError' ? 'timeout' : 'exception';
+      if (this.isTimeoutError(error)) {
+        return {
+          message: error.message,
+          type: 'timeout',
+          statusCode: 504,
+          errorClass: 'timeout',
+          stack: error.stack,
+        };
+      }
+
+      if (error.message.includes('Empty response')) {
+        const detailsAt = error.message.indexOf('(');
+        const message =
+          detailsAt > 0
+            ? error.message.substring(0, detailsAt - 1)
+            : error.message;
+        return {
+          message,
+          type: 'http',
+          statusCode: 500,
+          errorClass: 'unavailable',
+          data: {
+            status: 500,
+            message,
+            error: 'Empty response from the server',
+          },
+          stack: error.stack,
+        };
+      }
+
       const info: JobErrorInfo = {
         message: error.message,
-        type,
+        type: 'exception',
+        errorClass: 'unknown',
         stack: error.stack,
       };
 
-      const maybeStatus = (error as any)?.statusCode;
+      const maybeStatus = (error as any)?.statusCode ?? (error as any)?.status;
       if (typeof maybeStatus === 'number') {
         info.statusCode = maybeStatus;
+        info.type = 'http';
+        info.errorClass = this.classifyStatus(maybeStatus);
       }
 
       const maybeData = (error as any)?.response?.data ?? (error as any)?.data;
@@ -223,18 +383,93 @@ export class JobProcessorService {
       return info;
     }
 
+    // Errores RPC serializados por el microservicio: { status, message, ... }
+    if (
+      error &&
+      typeof error === 'object' &&
+      'status' in error &&
+      'message' in error
+    ) {
+      const rpcError = error as { status: unknown; message: unknown };
+      const status = Number.isNaN(Number(rpcError.status))
+        ? 400
+        : Number(rpcError.status);
+      return {
+        message: Array.isArray(rpcError.message)
+          ? rpcError.message.join(', ')
+          : `${rpcError.message as string}`,
+        type: 'http',
+        statusCode: status,
+        errorClass: this.classifyStatus(status),
+        data: error,
+      };
+    }
+
     if (typeof error === 'string') {
-      return { message: error, type: 'unknown' };
+      return {
+        message: error,
+        type: 'http',
+        statusCode: 400,
+        errorClass: 'business',
+        data: { status: 400, message: error },
+      };
     }
 
     if (error && typeof error === 'object') {
       return {
         message: JSON.stringify(error),
         type: 'unknown',
+        errorClass: 'unknown',
+        data: error,
       };
     }
 
-    return { message: 'Unknown error', type: 'unknown' };
+    return { message: 'Unknown error', type: 'unknown', errorClass: 'unknown' };
+  }
+
+  private classifyStatus(status: number): JobErrorClass {
+    if (status === 408 || status === 504) return 'timeout';
+    if (status === 429 || status === 502 || status === 503) {
+      return 'unavailable';
+    }
+    if (status >= 400 && status < 500) return 'business';
+    if (status >= 500) return 'server';
+    return 'unknown';
+  }
+
+  /**
+   * Applies the route's retry policy: only the listed error classes are
+   * retried, and never when a required header (idempotency key) is missing
+   */
+  private isRetryable(jobData: JobData, error: JobErrorInfo): boolean {
+    const policy = jobData.retryPolicy;
+
+    if (
+      policy?.requireHeader &&
+      !jobData.headers?.[policy.requireHeader.toLowerCase()]
+    ) {
+      return false;
+    }
+
+    // Sin evento de fin el comando pudo ejecutarse igualmente: republicarlo
+    // solo es seguro si la ruta exige clave de idempotencia
+    if (
+      error.errorClass === 'timeout' &&
+      jobData.message?.completion === 'event' &&
+      !policy?.requireHeader
+    ) {
+      return false;
+    }
+
+    const retryOn = policy?.retryOn ?? DEFAULT_RETRY_ON;
+    return retryOn.includes(error.errorClass ?? 'unknown');
+  }
+
+  private isTimeoutError(error: Error): boolean {
+    return (
+      error.name === 'TimeoutError' ||
+      /timeout after \d+ms/i.test(error.message)
+    );
   }
 
   private extractCacheMeta(result: any): CacheMetadata | null {
@@ -1,19 +1,68 @@
-﻿import { Inject, Injectable, Logger } from '@nestjs/common';
-import { ClientProxy } from '@nestjs/microservices';
-import { firstValueFrom, TimeoutError } from 'rxjs';
-import { timeout } from 'rxjs/operators';
-import { NATS_SERVICE } from '../../../config';
+﻿import { Injectable, Logger } from '@nestjs/common';
+import { firstValueFrom, from, Subject, TimeoutError } from 'rxjs';
+import { takeUntil, timeout } from 'rxjs/operators';
 import { JobData } from '../../interceptors/interfaces/job-data.interface';
+import { CircuitBreakerService } from '../../../transports/circuit-breaker.service';
+import { DispatchTransportRegistry } from '../dispatch/dispatch-transport.registry';
+import {
+  DispatchContext,
+  DispatchTransport,
+} from '../dispatch/dispatch-transport.interface';
+import {
+  CompletionEventService,
+  ProgressListener,
+} from '../dispatch/completion-event.service';
 
-const INTERNAL_ECHO_PATTERN = 'queue.test';
+const ABORTED = Symbol('aborted');
+
+export class JobCancelledError extends Error {
+  constructor(readonly jobId: string) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = 'JobCancelledError';
+  }
+}
 
 @Injectable()
 export class MessageDispatcherService {
   private readonly logger = new Logger(MessageDispatcherService.name);
 
-  constructor(@Inject(NATS_SERVICE) private readonly client: ClientProxy) {}
+  /** Pending NATS requests by job id, so a cancellation can abandon them */
+  private readonly inFlight = new Map<string, Subject<void>>();
+
+  /**
+   * Remote transports go through the breaker here, so the dispatch timeout is
+   * what the breaker counts
+   */
+  constructor(
+    private readonly transports: DispatchTransportRegistry,
+    private readonly breaker: CircuitBreakerService,
+    private readonly completionEvents: CompletionEventService,
+  ) {}
+
+  /**
+   * Abandons the pending request of a job; false when this instance is not
+   * dispatching it
+   */
+  abort(jobId: string): boolean {
+    const abort$ = this.inFlight.get(jobId);
+    if (!abort$) return false;
+    abort$.next();
+    abort$.complete();
+    return true;
+  }
+
+  /** Total time a job may take: `event` jobs add the wait for their completion event */
+  deadlineMs(job: JobData, timeoutMs: number): number {
+    return this.completesByEvent(job)
+      ? timeoutMs + this.completionEvents.timeoutFor(job.message!)
+      : timeoutMs;
+  }
 
-  async dispatch(job: JobData, timeoutMs: number): Promise<any> {
+  async dispatch(
+    job: JobData,
+    timeoutMs: number,
+    onProgress?: ProgressListener,
+  ): Promise<any> {
     if (!job.message) {
       this.logger.warn(`Job ${job.id} missing message metadata - returning payload directly`);
       return job.payload ?? job.data ?? {};
@@ -22,34 +71,121 @@ export class MessageDispatcherService {
     const payload = job.payload ?? job.data ?? {};
     const pattern = job.message.pattern;
 
-    if (pattern === INTERNAL_ECHO_PATTERN) {
-      this.logger.debug(`Job ${job.id} uses internal echo pattern`);
-      return {
-        success: true,
-        echo: payload,
-        jobId: job.id,
-        processedAt: new Date().toISOString(),
-      };
-    }
-
+    const transport = this.transports.select(pattern);
     this.logger.debug(
-      `Dispatching job ${job.id} using pattern '${pattern}' (timeout: ${timeoutMs}ms)`,
+      `Dispatching job ${job.id} using pattern '${pattern}' via ${transport.name} (timeout: ${timeoutMs}ms)`,
     );
 
+    const abort$ = new Subject<void>();
+    this.inFlight.set(job.id, abort$);
+    const context: DispatchContext = {
+      jobId: job.id,
+      timeoutMs,
+      headers: job.headers,
+      onProgress:
+        onProgress &&
+        ((progress, estimatedTimeRemaining) =>
+          onProgress({ progress, estimatedTimeRemaining })),
+    };
+
     try {
-      const result = await firstValueFrom(
-        this.client.send(pattern, payload).pipe(timeout({ each: timeoutMs })),
-      );
+      const result =
+        this.completesByEvent(job) && transport.publish
+          ? await this.publishAndAwait(
+              job,
+              transport,
+              payload,
+              context,
+              abort$,
+              onProgress,
+            )
+          : await this.guard(transport, pattern, async () => {
+              const response = await firstValueFrom(
+                from(transport.dispatch(pattern, payload, context)).pipe(
+                  timeout({ each: timeoutMs }),
+                  takeUntil(abort$),
+                ),
+                { defaultValue: ABORTED },
+              );
+              if (response === ABORTED) {
+                throw new JobCancelledError(job.id);
+              }
+              return response;
+            });
 
-      this.logger.log(`Job ${job.id} completed via '${pattern}'`);
+      this.logger.log(
+        `Job ${job.id} completed via '${pattern}' (${transport.name})`,
+      );
       return result;
     } catch (error: any) {
       if (error instanceof TimeoutError) {
         throw new Error(`Dispatch timeout after ${timeoutMs}ms for pattern '${pattern}'`);
       }
       throw error;
+    } finally {
+      this.inFlight.delete(job.id);
     }
   }
+
+  /**
+   * `event` routes: subscribe to the completion event, publish the command and
+   * wait for the microservice to report the outcome. The breaker only judges
+   * the publication, the wait may legitimately take long
+   */
+  private async publishAndAwait(
+    job: JobData,
+    transport: DispatchTransport,
+    payload: any,
+    context: DispatchContext,
+    abort$: Subject<void>,
+    onProgress?: ProgressListener,
+  ) {
+    const message = job.message!;
+    const wait = await this.completionEvents.register(
+      job.id,
+      message,
+      onProgress,
+    );
+
+    try {
+      await this.guard(transport, message.pattern, () =>
+        firstValueFrom(
+          from(transport.publish!(message.pattern, payload, context)).pipe(
+            timeout({ each: context.timeoutMs }),
+          ),
+          { defaultValue: undefined },
+        ),
+      );
+      this.logger.debug(
+        `Job ${job.id} published, waiting for '${message.completionEvent}'`,
+      );
+
+      const result = await firstValueFrom(
+        from(wait.completion).pipe(takeUntil(abort$)),
+        {
+          defaultValue: ABORTED,
+        },
+      );
+      if (result === ABORTED) {
+        throw new JobCancelledError(job.id);
+      }
+      return result;
+    } finally {
+      wait.cancel();
+    }
+  }
+
+  private guard<T>(
+    transport: DispatchTransport,
+    pattern: string,
+    send: () => Promise<T>,
+  ): Promise<T> {
+    return transport.remote ? this.breaker.execute(pattern, send) : send();
+  }
+
+  private completesByEvent(job: JobData): boolean {
+    return job.message?.completion === 'event';
+  }
 }
 
 
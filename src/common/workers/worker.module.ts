@@ -6,11 +6,17 @@ import { WorkerControlService } from './control/worker-control.service';
 import { JobProcessorService } from './processing/job-processor.service';
 import { MessageDispatcherService } from './processing/message-dispatcher.service';
 import { JobCacheService } from './cache/job-cache.service';
+import { DispatchTransportRegistry } from './dispatch/dispatch-transport.registry';
+import { NatsRequestTransport } from './dispatch/nats-request.transport';
+import { JetStreamTransport } from './dispatch/jetstream.transport';
+import { InProcessTransport } from './dispatch/in-process.transport';
+import { CompletionEventService } from './dispatch/completion-event.service';
 import { QueueModule } from '../queues/queue.module';
 import { RedisModule } from '../redis/redis.module';
 import { CacheModule } from '../cache/cache.module';
 import { WebSocketModule } from '../websockets/websocket.module';
 import { NatsModule } from '../../transports/nats.module';
+import { AuthModule } from '../../auth/auth.module';
 
 @Module({
   imports: [
@@ -19,6 +25,7 @@ import { NatsModule } from '../../transports/nats.module';
     CacheModule.forRoot(),
     forwardRef(() => WebSocketModule),
     NatsModule,
+    AuthModule,
   ],
   providers: [
     DynamicWorkerService,
@@ -28,6 +35,11 @@ import { NatsModule } from '../../transports/nats.module';
     JobProcessorService,
     MessageDispatcherService,
     JobCacheService,
+    DispatchTransportRegistry,
+    NatsRequestTransport,
+    JetStreamTransport,
+    InProcessTransport,
+    CompletionEventService,
   ],
   exports: [
     DynamicWorkerService,
@@ -37,6 +49,8 @@ import { NatsModule } from '../../transports/nats.module';
     JobProcessorService,
     MessageDispatcherService,
     JobCacheService,
+    DispatchTransportRegistry,
+    InProcessTransport,
   ],
 })
 export class WorkerModule {}
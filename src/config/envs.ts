@@ -1,4 +1,5 @@
 import 'dotenv/config';
+import { hostname } from 'os';
 import * as Joi from 'joi';
 
 interface EnvVars {
@@ -12,6 +13,7 @@ interface EnvVars {
   REDIS_MAX_RETRIES: number;
   REDIS_RETRY_DELAY: number;
   REDIS_MAX_LOADING_TIMEOUT: number;
+  GATEWAY_INSTANCE_ID: string;
 }
 
 const envSchema = Joi.object({
@@ -25,6 +27,7 @@ const envSchema = Joi.object({
   REDIS_MAX_RETRIES: Joi.number().default(3),
   REDIS_RETRY_DELAY: Joi.number().default(100),
   REDIS_MAX_LOADING_TIMEOUT: Joi.number().default(5000),
+  GATEWAY_INSTANCE_ID: Joi.string().default(`${hostname()}-${process.pid}`),
 }).unknown(true);
 
 const { error, value } = envSchema.validate({
@@ -42,6 +45,7 @@ const envVars: EnvVars = value;
 
 export const envs = {
   port: envVars.PORT,
+  instanceId: envVars.GATEWAY_INSTANCE_ID,
   natsServers: envVars.NATS_SERVERS,
   redis: {
     host: envVars.REDIS_HOST,
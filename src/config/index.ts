@@ -1,2 +1,3 @@
 export * from './envs';
-export * from './services';
\ No newline at end of file
+export * from './services';
+export * from './validation.config';
@@ -6,4 +6,7 @@ export const TEACHING_SERVICE = 'TEACHING_SERVICE';
 export const ENROLLMENTS_SERVICE = 'ENROLLMENTS_SERVICE';
 export const ASSESSMENTS_SERVICE = 'ASSESSMENTS_SERVICE';
 
-export const NATS_SERVICE = 'NATS_SERVICE';
\ No newline at end of file
+export const NATS_SERVICE = 'NATS_SERVICE';
+
+/** Raw NATS client, without the circuit breaker of NATS_SERVICE */
+export const NATS_TRANSPORT = 'NATS_TRANSPORT';
@@ -0,0 +1,11 @@
+import { ValidationPipeOptions } from '@nestjs/common';
+
+/** Options of the global ValidationPipe, also applied to batched sub-requests */
+export const validationPipeOptions: ValidationPipeOptions = {
+  whitelist: true,
+  forbidNonWhitelisted: true,
+  transform: true,
+  transformOptions: {
+    enableImplicitConversion: true,
+  },
+};
@@ -1,10 +1,15 @@
 import { Controller, Get, Query } from '@nestjs/common';
+import { AsyncRoute } from '../../common/decorators';
+import { RoutePayload } from '../../common/messaging/utils/route-payload.util';
 import { EnrollmentsService } from '../services/enrollments.service';
 
 @Controller('academic-validations')
 export class AcademicValidationsController {
   constructor(private readonly enrollmentsService: EnrollmentsService) {}
 
+  @AsyncRoute('enrollments.academic.checkPrerequisites', {
+    payload: RoutePayload.queryFields('studentId', 'courseId'),
+  })
   @Get('prerequisites/check')
   checkPrerequisites(
     @Query('studentId') studentId: string,
@@ -13,6 +18,9 @@ export class AcademicValidationsController {
     return this.enrollmentsService.checkPrerequisites(studentId, courseId);
   }
 
+  @AsyncRoute('enrollments.academic.validateEnrollment', {
+    payload: RoutePayload.queryFields('studentId', 'courseSectionId', 'termId'),
+  })
   @Get('enrollment/validate')
   validateEnrollment(
     @Query('studentId') studentId: string,
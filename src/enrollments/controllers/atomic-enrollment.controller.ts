@@ -14,8 +14,23 @@ import {
   CreateEnrollmentDetailBatchDto,
   CreateEnrollmentDetailDto,
 } from '../dto';
-import { IdempotencyKey } from '../../common/decorators';
+import { AsyncRoute, IdempotencyKey, RateLimit } from '../../common/decorators';
 import { IdempotencyService } from '../../common/services/idempotency.service';
+import { JobData } from '../../common/interceptors/interfaces/job-data.interface';
+import {
+  RoutePayload,
+  requireHeader,
+  requireParam,
+} from '../../common/messaging/utils/route-payload.util';
+import { RetryPolicy } from '../../common/workers/interfaces/retry-policy.interface';
+
+const idempotentEnrollPayload = (job: JobData) => ({
+  data: job.data ?? {},
+  idempotencyKey: requireHeader(job, 'x-idempotency-key'),
+});
+
+// Reintentar una inscripción sin su clave de idempotencia podría duplicarla
+const idempotentRetry: RetryPolicy = { requireHeader: 'x-idempotency-key' };
 
 @Controller('atomic-enrollment')
 export class AtomicEnrollmentController {
@@ -24,6 +39,11 @@ export class AtomicEnrollmentController {
     private readonly idempotencyService: IdempotencyService,
   ) {}
 
+  @RateLimit({ limit: 5, windowSeconds: 10, by: 'user' })
+  @AsyncRoute('enrollments.atomic.enroll', {
+    payload: idempotentEnrollPayload,
+    retry: idempotentRetry,
+  })
   @Post('enroll')
   @HttpCode(HttpStatus.CREATED)
   async enrollStudent(
@@ -56,6 +76,10 @@ export class AtomicEnrollmentController {
     };
   }
 
+  @AsyncRoute('enrollments.atomic.enrollBatch', {
+    payload: idempotentEnrollPayload,
+    retry: idempotentRetry,
+  })
   @Post('enroll/batch')
   @HttpCode(HttpStatus.CREATED)
   async enrollStudentBatch(
@@ -90,6 +114,9 @@ export class AtomicEnrollmentController {
     };
   }
 
+  @AsyncRoute('enrollments.atomic.quotaStatus', {
+    payload: (job) => ({ courseSectionId: requireParam(job, 'id') }),
+  })
   @Get('course-section/:id/quota-status')
   async getQuotaStatus(@Param('id', ParseUUIDPipe) courseSectionId: string) {
     const status = await this.enrollmentsService.getCourseSectionQuotaStatus(
@@ -102,6 +129,9 @@ export class AtomicEnrollmentController {
     };
   }
 
+  @AsyncRoute('enrollments.atomic.idempotencyStats', {
+    payload: RoutePayload.empty(),
+  })
   @Get('idempotency/stats')
   async getIdempotencyStats() {
     return this.enrollmentsService.getIdempotencyStats();
@@ -1,15 +1,23 @@
 import { Controller, Get, Query } from '@nestjs/common';
+import { AsyncRoute } from '../../common/decorators';
+import { RoutePayload } from '../../common/messaging/utils/route-payload.util';
 import { EnrollmentsService } from '../services/enrollments.service';
 
 @Controller('database-performance')
 export class DatabasePerformanceController {
   constructor(private readonly enrollmentsService: EnrollmentsService) {}
 
+  @AsyncRoute('enrollments.performance.prerequisites', {
+    payload: RoutePayload.queryFields('courseId'),
+  })
   @Get('prerequisites')
   getPrerequisites(@Query('courseId') courseId: string) {
     return this.enrollmentsService.getPrerequisitesPerformance(courseId);
   }
 
+  @AsyncRoute('enrollments.performance.approvedCourses', {
+    payload: RoutePayload.queryFields('studentId', 'courseIds'),
+  })
   @Get('approved-courses')
   getApprovedCourses(
     @Query('studentId') studentId: string,
@@ -21,11 +29,17 @@ export class DatabasePerformanceController {
     );
   }
 
+  @AsyncRoute('enrollments.performance.schedules', {
+    payload: RoutePayload.queryFields('courseSectionIds'),
+  })
   @Get('schedules')
   getSchedules(@Query('courseSectionIds') courseSectionIds: string) {
     return this.enrollmentsService.getSchedulesPerformance(courseSectionIds);
   }
 
+  @AsyncRoute('enrollments.performance.enrollmentCount', {
+    payload: RoutePayload.queryFields('studentId', 'termId'),
+  })
   @Get('enrollment-count')
   getEnrollmentCount(
     @Query('studentId') studentId: string,
@@ -34,6 +48,9 @@ export class DatabasePerformanceController {
     return this.enrollmentsService.getEnrollmentCountPerformance(studentId, termId);
   }
 
+  @AsyncRoute('enrollments.performance.batchPrerequisites', {
+    payload: RoutePayload.queryFields('studentId', 'courseIds'),
+  })
   @Get('batch-prerequisites')
   getBatchPrerequisites(
     @Query('studentId') studentId: string,
@@ -45,6 +62,9 @@ export class DatabasePerformanceController {
     );
   }
 
+  @AsyncRoute('enrollments.performance.hasPassed', {
+    payload: RoutePayload.queryFields('studentId', 'courseId'),
+  })
   @Get('has-passed')
   hasPassed(
     @Query('studentId') studentId: string,
@@ -53,6 +73,9 @@ export class DatabasePerformanceController {
     return this.enrollmentsService.getHasPassedPerformance(studentId, courseId);
   }
 
+  @AsyncRoute('enrollments.performance.studentEnrollmentDetails', {
+    payload: RoutePayload.queryFields('studentId', 'termId'),
+  })
   @Get('student-enrollment-details')
   getStudentEnrollmentDetails(
     @Query('studentId') studentId: string,
@@ -1,4 +1,6 @@
 import { Body, Controller, Delete, Get, Param, Patch, Post, Query } from '@nestjs/common';
+import { AsyncRoute } from '../../common/decorators';
+import { RoutePayload } from '../../common/messaging/utils/route-payload.util';
 import { EnrollmentsService } from '../services/enrollments.service';
 import {
   CreateEnrollmentDetailDto,
@@ -10,21 +12,29 @@ import {
 export class EnrollmentDetailsController {
   constructor(private readonly enrollmentsService: EnrollmentsService) {}
 
+  @AsyncRoute('enrollment-details.create')
   @Post()
   create(@Body() createEnrollmentDetailDto: CreateEnrollmentDetailDto) {
     return this.enrollmentsService.createEnrollmentDetail(createEnrollmentDetailDto);
   }
 
+  @AsyncRoute('enrollment-details.list')
   @Get()
   findAll(@Query() listEnrollmentDetailsDto: ListEnrollmentDetailsDto) {
     return this.enrollmentsService.findEnrollmentDetails(listEnrollmentDetailsDto);
   }
 
+  @AsyncRoute('enrollment-details.findOne', {
+    payload: RoutePayload.param('id'),
+  })
   @Get(':id')
   findOne(@Param('id') id: string) {
     return this.enrollmentsService.findEnrollmentDetailById(id);
   }
 
+  @AsyncRoute('enrollment-details.update', {
+    payload: RoutePayload.paramWithBody('id', 'updateEnrollmentDetailDto'),
+  })
   @Patch(':id')
   update(
     @Param('id') id: string,
@@ -36,6 +46,9 @@ export class EnrollmentDetailsController {
     );
   }
 
+  @AsyncRoute('enrollment-details.remove', {
+    payload: RoutePayload.param('id'),
+  })
   @Delete(':id')
   remove(@Param('id') id: string) {
     return this.enrollmentsService.removeEnrollmentDetail(id);
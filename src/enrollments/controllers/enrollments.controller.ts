@@ -1,4 +1,6 @@
 import { Body, Controller, Delete, Get, Param, Patch, Post, Query } from '@nestjs/common';
+import { AsyncRoute } from '../../common/decorators';
+import { RoutePayload } from '../../common/messaging/utils/route-payload.util';
 import { EnrollmentsService } from '../services/enrollments.service';
 import {
   CreateEnrollmentDto,
@@ -10,26 +12,33 @@ import {
 export class EnrollmentsController {
   constructor(private readonly enrollmentsService: EnrollmentsService) {}
 
+  @AsyncRoute('enrollments.create')
   @Post()
   create(@Body() createEnrollmentDto: CreateEnrollmentDto) {
     return this.enrollmentsService.createEnrollment(createEnrollmentDto);
   }
 
+  @AsyncRoute('enrollments.list')
   @Get()
   findAll(@Query() listEnrollmentsDto: ListEnrollmentsDto) {
     return this.enrollmentsService.findEnrollments(listEnrollmentsDto);
   }
 
+  @AsyncRoute('enrollments.findOne', { payload: RoutePayload.param('id') })
   @Get(':id')
   findOne(@Param('id') id: string) {
     return this.enrollmentsService.findEnrollmentById(id);
   }
 
+  @AsyncRoute('enrollments.update', {
+    payload: RoutePayload.paramWithBody('id', 'updateEnrollmentDto'),
+  })
   @Patch(':id')
   update(@Param('id') id: string, @Body() updateEnrollmentDto: UpdateEnrollmentDto) {
     return this.enrollmentsService.updateEnrollment(id, updateEnrollmentDto);
   }
 
+  @AsyncRoute('enrollments.remove', { payload: RoutePayload.param('id') })
   @Delete(':id')
   remove(@Param('id') id: string) {
     return this.enrollmentsService.removeEnrollment(id);
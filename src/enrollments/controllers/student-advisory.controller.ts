@@ -1,10 +1,42 @@
 import { Controller, Get, Query } from '@nestjs/common';
 import { EnrollmentsService } from '../services/enrollments.service';
+import { AsyncRoute } from '../../common/decorators';
+import { JobData } from '../../common/interceptors/interfaces/job-data.interface';
+
+// Acepta studentId o studentCode; al menos uno es obligatorio
+function recommendedCoursesPayload(job: JobData) {
+  const studentIdRaw = job.queryParams?.studentId;
+  const studentCodeRaw = job.queryParams?.studentCode;
+  const studentId = Array.isArray(studentIdRaw)
+    ? studentIdRaw[0]
+    : studentIdRaw;
+  const studentCode = Array.isArray(studentCodeRaw)
+    ? studentCodeRaw[0]
+    : studentCodeRaw;
+  const normalizedStudentId =
+    typeof studentId === 'string' && studentId.trim().length > 0
+      ? studentId.trim()
+      : undefined;
+  const normalizedStudentCode =
+    typeof studentCode === 'string' && studentCode.trim().length > 0
+      ? studentCode.trim()
+      : undefined;
+  if (!normalizedStudentId && !normalizedStudentCode) {
+    throw new Error('Provide studentId or studentCode');
+  }
+  return {
+    studentId: normalizedStudentId,
+    studentCode: normalizedStudentCode,
+  };
+}
 
 @Controller('students')
 export class StudentAdvisoryController {
   constructor(private readonly enrollmentsService: EnrollmentsService) {}
 
+  @AsyncRoute('enrollments.students.recommendedCourses', {
+    payload: recommendedCoursesPayload,
+  })
   @Get('recommended-courses')
   recommendedCourses(
     @Query('studentId') studentId?: string,
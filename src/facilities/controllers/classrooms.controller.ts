@@ -1,4 +1,6 @@
 import { Body, Controller, Delete, Get, Param, Patch, Post, Query } from '@nestjs/common';
+import { AsyncRoute } from '../../common/decorators';
+import { RoutePayload } from '../../common/messaging/utils/route-payload.util';
 import { FacilitiesService } from '../services/facilities.service';
 import {
   CreateClassroomDto,
@@ -10,21 +12,29 @@ import {
 export class ClassroomsController {
   constructor(private readonly facilitiesService: FacilitiesService) {}
 
+  @AsyncRoute('facilities.classrooms.create')
   @Post()
   create(@Body() createClassroomDto: CreateClassroomDto) {
     return this.facilitiesService.createClassroom(createClassroomDto);
   }
 
+  @AsyncRoute('facilities.classrooms.list')
   @Get()
   findAll(@Query() listClassroomsDto: ListClassroomsDto) {
     return this.facilitiesService.findClassrooms(listClassroomsDto);
   }
 
+  @AsyncRoute('facilities.classrooms.findOne', {
+    payload: RoutePayload.param('id'),
+  })
   @Get(':id')
   findOne(@Param('id') id: string) {
     return this.facilitiesService.findClassroomById(id);
   }
 
+  @AsyncRoute('facilities.classrooms.update', {
+    payload: RoutePayload.paramWithBody('id', 'updateClassroomDto'),
+  })
   @Patch(':id')
   update(
     @Param('id') id: string,
@@ -33,6 +43,9 @@ export class ClassroomsController {
     return this.facilitiesService.updateClassroom(id, updateClassroomDto);
   }
 
+  @AsyncRoute('facilities.classrooms.remove', {
+    payload: RoutePayload.param('id'),
+  })
   @Delete(':id')
   remove(@Param('id') id: string) {
     return this.facilitiesService.removeClassroom(id);
@@ -1,7 +1,7 @@
 import { ValidationPipe, Logger } from '@nestjs/common';
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
-import { envs } from './config';
+import { envs, validationPipeOptions } from './config';
 import { RpcCustomExceptionFilter } from './common';
 import { QueueInterceptor } from './common/interceptors/queue.interceptor';
 import { QueueConfigService } from './common/interceptors/queue-config.service';
@@ -16,16 +16,7 @@ async function bootstrap() {
     methods: 'GET,HEAD,PUT,PATCH,POST,DELETE',
   });
 
-  app.useGlobalPipes(
-    new ValidationPipe({
-      whitelist: true,
-      forbidNonWhitelisted: true,
-      transform: true,
-      transformOptions: {
-        enableImplicitConversion: true,
-      },
-    }),
-  );
+  app.useGlobalPipes(new ValidationPipe(validationPipeOptions));
 
   app.useGlobalFilters(new RpcCustomExceptionFilter());
 
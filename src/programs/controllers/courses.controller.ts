@@ -1,4 +1,6 @@
 import { Body, Controller, Delete, Get, Param, Patch, Post, Query } from '@nestjs/common';
+import { AsyncRoute } from '../../common/decorators';
+import { RoutePayload } from '../../common/messaging/utils/route-payload.util';
 import { ProgramsService } from '../services/programs.service';
 import { CreateCourseDto, ListCoursesDto, UpdateCourseDto } from '../dto';
 
@@ -6,26 +8,33 @@ import { CreateCourseDto, ListCoursesDto, UpdateCourseDto } from '../dto';
 export class CoursesController {
   constructor(private readonly programsService: ProgramsService) {}
 
+  @AsyncRoute('programs.courses.create')
   @Post()
   create(@Body() createCourseDto: CreateCourseDto) {
     return this.programsService.createCourse(createCourseDto);
   }
 
+  @AsyncRoute('programs.courses.list')
   @Get()
   findAll(@Query() listCoursesDto: ListCoursesDto) {
     return this.programsService.listCourses(listCoursesDto);
   }
 
+  @AsyncRoute('programs.courses.findOne', { payload: RoutePayload.param('id') })
   @Get(':id')
   findOne(@Param('id') id: string) {
     return this.programsService.findCourse(id);
   }
 
+  @AsyncRoute('programs.courses.update', {
+    payload: RoutePayload.paramWithBody('id', 'updateCourseDto'),
+  })
   @Patch(':id')
   update(@Param('id') id: string, @Body() updateCourseDto: UpdateCourseDto) {
     return this.programsService.updateCourse(id, updateCourseDto);
   }
 
+  @AsyncRoute('programs.courses.remove', { payload: RoutePayload.param('id') })
   @Delete(':id')
   remove(@Param('id') id: string) {
     return this.programsService.removeCourse(id);
@@ -1,4 +1,6 @@
 import { Body, Controller, Delete, Get, Param, Patch, Post, Query } from '@nestjs/common';
+import { AsyncRoute } from '../../common/decorators';
+import { RoutePayload } from '../../common/messaging/utils/route-payload.util';
 import { ProgramsService } from '../services/programs.service';
 import {
   CreateDegreeProgramDto,
@@ -10,21 +12,29 @@ import {
 export class DegreeProgramsController {
   constructor(private readonly programsService: ProgramsService) {}
 
+  @AsyncRoute('programs.degreePrograms.create')
   @Post()
   create(@Body() createDegreeProgramDto: CreateDegreeProgramDto) {
     return this.programsService.createDegreeProgram(createDegreeProgramDto);
   }
 
+  @AsyncRoute('programs.degreePrograms.list')
   @Get()
   findAll(@Query() listDegreeProgramsDto: ListDegreeProgramsDto) {
     return this.programsService.listDegreePrograms(listDegreeProgramsDto);
   }
 
+  @AsyncRoute('programs.degreePrograms.findOne', {
+    payload: RoutePayload.param('id'),
+  })
   @Get(':id')
   findOne(@Param('id') id: string) {
     return this.programsService.findDegreeProgram(id);
   }
 
+  @AsyncRoute('programs.degreePrograms.update', {
+    payload: RoutePayload.paramWithBody('id', 'updateDegreeProgramDto'),
+  })
   @Patch(':id')
   update(
     @Param('id') id: string,
@@ -33,6 +43,9 @@ export class DegreeProgramsController {
     return this.programsService.updateDegreeProgram(id, updateDegreeProgramDto);
   }
 
+  @AsyncRoute('programs.degreePrograms.remove', {
+    payload: RoutePayload.param('id'),
+  })
   @Delete(':id')
   remove(@Param('id') id: string) {
     return this.programsService.removeDegreeProgram(id);
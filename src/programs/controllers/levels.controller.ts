@@ -1,4 +1,6 @@
 import { Body, Controller, Delete, Get, Param, Patch, Post, Query } from '@nestjs/common';
+import { AsyncRoute } from '../../common/decorators';
+import { RoutePayload } from '../../common/messaging/utils/route-payload.util';
 import { ProgramsService } from '../services/programs.service';
 import { CreateLevelDto, ListLevelsDto, UpdateLevelDto } from '../dto';
 
@@ -6,26 +8,33 @@ import { CreateLevelDto, ListLevelsDto, UpdateLevelDto } from '../dto';
 export class LevelsController {
   constructor(private readonly programsService: ProgramsService) {}
 
+  @AsyncRoute('programs.levels.create')
   @Post()
   create(@Body() createLevelDto: CreateLevelDto) {
     return this.programsService.createLevel(createLevelDto);
   }
 
+  @AsyncRoute('programs.levels.list')
   @Get()
   findAll(@Query() listLevelsDto: ListLevelsDto) {
     return this.programsService.listLevels(listLevelsDto);
   }
 
+  @AsyncRoute('programs.levels.findOne', { payload: RoutePayload.param('id') })
   @Get(':id')
   findOne(@Param('id') id: string) {
     return this.programsService.findLevel(id);
   }
 
+  @AsyncRoute('programs.levels.update', {
+    payload: RoutePayload.paramWithBody('id', 'updateLevelDto'),
+  })
   @Patch(':id')
   update(@Param('id') id: string, @Body() updateLevelDto: UpdateLevelDto) {
     return this.programsService.updateLevel(id, updateLevelDto);
   }
 
+  @AsyncRoute('programs.levels.remove', { payload: RoutePayload.param('id') })
   @Delete(':id')
   remove(@Param('id') id: string) {
     return this.programsService.removeLevel(id);
@@ -1,4 +1,6 @@
 import { Body, Controller, Delete, Get, Param, Patch, Post, Query } from '@nestjs/common';
+import { AsyncRoute } from '../../common/decorators';
+import { RoutePayload } from '../../common/messaging/utils/route-payload.util';
 import { ProgramsService } from '../services/programs.service';
 import {
   CreatePrerequisiteDto,
@@ -10,21 +12,29 @@ import {
 export class PrerequisitesController {
   constructor(private readonly programsService: ProgramsService) {}
 
+  @AsyncRoute('programs.prerequisites.create')
   @Post()
   create(@Body() createPrerequisiteDto: CreatePrerequisiteDto) {
     return this.programsService.createPrerequisite(createPrerequisiteDto);
   }
 
+  @AsyncRoute('programs.prerequisites.list')
   @Get()
   findAll(@Query() listPrerequisitesDto: ListPrerequisitesDto) {
     return this.programsService.listPrerequisites(listPrerequisitesDto);
   }
 
+  @AsyncRoute('programs.prerequisites.findOne', {
+    payload: RoutePayload.param('id'),
+  })
   @Get(':id')
   findOne(@Param('id') id: string) {
     return this.programsService.findPrerequisite(id);
   }
 
+  @AsyncRoute('programs.prerequisites.update', {
+    payload: RoutePayload.paramWithBody('id', 'updatePrerequisiteDto'),
+  })
   @Patch(':id')
   update(
     @Param('id') id: string,
@@ -33,6 +43,9 @@ export class PrerequisitesController {
     return this.programsService.updatePrerequisite(id, updatePrerequisiteDto);
   }
 
+  @AsyncRoute('programs.prerequisites.remove', {
+    payload: RoutePayload.param('id'),
+  })
   @Delete(':id')
   remove(@Param('id') id: string) {
     return this.programsService.removePrerequisite(id);
@@ -1,4 +1,6 @@
 import { Body, Controller, Delete, Get, Param, Patch, Post, Query } from '@nestjs/common';
+import { AsyncRoute } from '../../common/decorators';
+import { RoutePayload } from '../../common/messaging/utils/route-payload.util';
 import { ProgramsService } from '../services/programs.service';
 import {
   CreateStudyPlanDto,
@@ -10,26 +12,37 @@ import {
 export class StudyPlansController {
   constructor(private readonly programsService: ProgramsService) {}
 
+  @AsyncRoute('programs.studyPlans.create')
   @Post()
   create(@Body() createStudyPlanDto: CreateStudyPlanDto) {
     return this.programsService.createStudyPlan(createStudyPlanDto);
   }
 
+  @AsyncRoute('programs.studyPlans.list')
   @Get()
   findAll(@Query() listStudyPlansDto: ListStudyPlansDto) {
     return this.programsService.listStudyPlans(listStudyPlansDto);
   }
 
+  @AsyncRoute('programs.studyPlans.findOne', {
+    payload: RoutePayload.param('id'),
+  })
   @Get(':id')
   findOne(@Param('id') id: string) {
     return this.programsService.findStudyPlan(id);
   }
 
+  @AsyncRoute('programs.studyPlans.update', {
+    payload: RoutePayload.paramWithBody('id', 'updateStudyPlanDto'),
+  })
   @Patch(':id')
   update(@Param('id') id: string, @Body() updateStudyPlanDto: UpdateStudyPlanDto) {
     return this.programsService.updateStudyPlan(id, updateStudyPlanDto);
   }
 
+  @AsyncRoute('programs.studyPlans.remove', {
+    payload: RoutePayload.param('id'),
+  })
   @Delete(':id')
   remove(@Param('id') id: string) {
     return this.programsService.removeStudyPlan(id);
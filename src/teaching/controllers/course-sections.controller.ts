@@ -1,4 +1,6 @@
 import { Body, Controller, Delete, Get, Param, Patch, Post, Query } from '@nestjs/common';
+import { AsyncRoute } from '../../common/decorators';
+import { RoutePayload } from '../../common/messaging/utils/route-payload.util';
 import { TeachingService } from '../services/teaching.service';
 import {
   CreateCourseSectionDto,
@@ -10,26 +12,37 @@ import {
 export class CourseSectionsController {
   constructor(private readonly teachingService: TeachingService) {}
 
+  @AsyncRoute('teaching.courseSections.create')
   @Post()
   create(@Body() createCourseSectionDto: CreateCourseSectionDto) {
     return this.teachingService.createCourseSection(createCourseSectionDto);
   }
 
+  @AsyncRoute('teaching.courseSections.list')
   @Get()
   findAll(@Query() listCourseSectionsDto: ListCourseSectionsDto) {
     return this.teachingService.listCourseSections(listCourseSectionsDto);
   }
 
+  @AsyncRoute('teaching.courseSections.findOne', {
+    payload: RoutePayload.param('id'),
+  })
   @Get(':id')
   findOne(@Param('id') id: string) {
     return this.teachingService.findCourseSection(id);
   }
 
+  @AsyncRoute('teaching.courseSections.update', {
+    payload: RoutePayload.paramWithBody('id', 'updateCourseSectionDto'),
+  })
   @Patch(':id')
   update(@Param('id') id: string, @Body() updateCourseSectionDto: UpdateCourseSectionDto) {
     return this.teachingService.updateCourseSection(id, updateCourseSectionDto);
   }
 
+  @AsyncRoute('teaching.courseSections.remove', {
+    payload: RoutePayload.param('id'),
+  })
   @Delete(':id')
   remove(@Param('id') id: string) {
     return this.teachingService.removeCourseSection(id);
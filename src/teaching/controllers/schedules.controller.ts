@@ -1,4 +1,6 @@
 import { Body, Controller, Delete, Get, Param, Patch, Post, Query } from '@nestjs/common';
+import { AsyncRoute } from '../../common/decorators';
+import { RoutePayload } from '../../common/messaging/utils/route-payload.util';
 import { TeachingService } from '../services/teaching.service';
 import { CreateScheduleDto, ListSchedulesDto, UpdateScheduleDto } from '../dto';
 
@@ -6,26 +8,37 @@ import { CreateScheduleDto, ListSchedulesDto, UpdateScheduleDto } from '../dto';
 export class SchedulesController {
   constructor(private readonly teachingService: TeachingService) {}
 
+  @AsyncRoute('teaching.schedules.create')
   @Post()
   create(@Body() createScheduleDto: CreateScheduleDto) {
     return this.teachingService.createSchedule(createScheduleDto);
   }
 
+  @AsyncRoute('teaching.schedules.list')
   @Get()
   findAll(@Query() listSchedulesDto: ListSchedulesDto) {
     return this.teachingService.listSchedules(listSchedulesDto);
   }
 
+  @AsyncRoute('teaching.schedules.findOne', {
+    payload: RoutePayload.param('id'),
+  })
   @Get(':id')
   findOne(@Param('id') id: string) {
     return this.teachingService.findSchedule(id);
   }
 
+  @AsyncRoute('teaching.schedules.update', {
+    payload: RoutePayload.paramWithBody('id', 'updateScheduleDto'),
+  })
   @Patch(':id')
   update(@Param('id') id: string, @Body() updateScheduleDto: UpdateScheduleDto) {
     return this.teachingService.updateSchedule(id, updateScheduleDto);
   }
 
+  @AsyncRoute('teaching.schedules.remove', {
+    payload: RoutePayload.param('id'),
+  })
   @Delete(':id')
   remove(@Param('id') id: string) {
     return this.teachingService.removeSchedule(id);
@@ -0,0 +1,507 @@
+import {
+  HttpException,
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleInit,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ClientProxy } from '@nestjs/microservices';
+import Redis from 'ioredis';
+import { Observable, TimeoutError, defer, throwError } from 'rxjs';
+import { catchError, finalize, tap, timeout } from 'rxjs/operators';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitSnapshot {
+  /** Pattern prefix the circuit covers (`enrollments`, `programs`, ...) */
+  circuit: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  /** When an open circuit lets the next probe through */
+  retryAt?: string;
+  lastFailure?: string;
+  lastFailureAt?: string;
+  lastStateChangeAt: string;
+  totals: { successes: number; failures: number; rejected: number };
+}
+
+/** Message published on every state transition */
+export interface CircuitStateEvent {
+  circuit: string;
+  state: CircuitState;
+  retryAt?: string;
+  reason?: string;
+  instanceId: string;
+  timestamp: string;
+}
+
+/** Thrown instead of calling a downstream service whose circuit is open */
+export class CircuitOpenError extends ServiceUnavailableException {
+  constructor(
+    readonly circuit: string,
+    readonly retryAfterSeconds: number,
+  ) {
+    super({
+      statusCode: 503,
+      error: 'Service Unavailable',
+      message: `Circuit '${circuit}' is open: downstream service unavailable, retry in ${retryAfterSeconds}s`,
+      circuit,
+      retryAfter: retryAfterSeconds,
+    });
+    this.name = 'CircuitOpenError';
+  }
+}
+
+interface Circuit {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedUntil: number;
+  probesInFlight: number;
+  lastFailure?: string;
+  lastFailureAt?: number;
+  lastStateChangeAt: number;
+  successes: number;
+  failures: number;
+  rejected: number;
+}
+
+/** Ticket handed out by `acquire`; probes are the half-open trial requests */
+interface CircuitPermit {
+  key: string;
+  probe: boolean;
+}
+
+/**
+ * Circuit breaker per downstream service, keyed by the prefix of the NATS
+ * pattern. Shared by the synchronous services (through the NATS_SERVICE
+ * client) and the queue workers (through MessageDispatcherService), so both
+ * paths stop calling a service at the same time. Transitions are published
+ * on a Redis channel and adopted by the other gateway instances.
+ */
+@Injectable()
+export class CircuitBreakerService implements OnModuleInit {
+  private readonly logger = new Logger(CircuitBreakerService.name);
+  private readonly circuits = new Map<string, Circuit>();
+  private readonly instanceId = `${process.pid}-${Math.random().toString(36).substring(2, 8)}`;
+
+  private readonly enabled = process.env.CIRCUIT_BREAKER_ENABLED !== 'false';
+  private readonly channel =
+    process.env.CIRCUIT_BREAKER_CHANNEL || 'nats:circuit-breaker';
+  private readonly failureThreshold = parseInt(
+    process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD || '5',
+    10,
+  );
+  private readonly openMs = parseInt(
+    process.env.CIRCUIT_BREAKER_OPEN_MS || '30000',
+    10,
+  );
+  private readonly halfOpenProbes = parseInt(
+    process.env.CIRCUIT_BREAKER_HALF_OPEN_PROBES || '1',
+    10,
+  );
+  /** Timeout of synchronous requests; 0 leaves them unbounded */
+  private readonly callTimeoutMs = parseInt(
+    process.env.CIRCUIT_BREAKER_CALL_TIMEOUT_MS || '15000',
+    10,
+  );
+  /** `enrollment-details=enrollments,...`: prefixes served by the same service */
+  private readonly aliases = new Map(
+    (process.env.CIRCUIT_BREAKER_ALIASES || 'enrollment-details=enrollments')
+      .split(',')
+      .map((entry) => entry.split('=').map((part) => part.trim()))
+      .filter(([from, to]) => from && to)
+      .map(([from, to]) => [from, to] as [string, string]),
+  );
+
+  constructor(
+    @Inject('REDIS_CLIENT') private readonly redis: Redis,
+    @Inject('REDIS_SUBSCRIBER') private readonly subscriber: Redis,
+  ) {}
+
+  async onModuleInit() {
+    if (!this.enabled) {
+      this.logger.warn('Circuit breaker disabled by configuration');
+      return;
+    }
+    try {
+      await this.subscriber.subscribe(this.channel);
+      this.subscriber.on('message', (channel, message) => {
+        // La conexión de suscripción es compartida: ignorar otros canales
+        if (channel !== this.channel) return;
+        this.onRemoteEvent(message);
+      });
+    } catch (err: any) {
+      this.logger.warn(
+        `Circuit state will not be shared with other instances: ${err?.message || err}`,
+      );
+    }
+  }
+
+  /** Circuit covering a NATS pattern: its first segment, after aliases */
+  circuitFor(pattern: string): string {
+    const prefix = pattern.split('.')[0];
+    return this.aliases.get(prefix) ?? prefix;
+  }
+
+  /**
+   * Runs a request through the circuit of its pattern. Throws
+   * CircuitOpenError without calling `fn` while the circuit is open
+   */
+  async execute<T>(pattern: string, fn: () => Promise<T>): Promise<T> {
+    const permit = this.acquire(pattern);
+    if (!permit) return fn();
+
+    let result: T;
+    try {
+      result = await fn();
+    } catch (error) {
+      // Un job cancelado no dice nada del servicio
+      if (error instanceof Error && error.name === 'JobCancelledError') {
+        this.release(permit);
+      } else {
+        this.settle(permit, error);
+      }
+      throw error;
+    }
+    this.settle(permit);
+    return result;
+  }
+
+  /** Observable flavor of `execute`, applying the synchronous call timeout */
+  wrap<T>(pattern: string, source: Observable<T>): Observable<T> {
+    return defer(() => {
+      const permit = this.acquire(pattern);
+      if (!permit) return source;
+
+      let settled = false;
+      const settle = (error?: unknown) => {
+        if (settled) return;
+        settled = true;
+        this.settle(permit, error);
+      };
+      const bounded =
+        this.callTimeoutMs > 0
+          ? source.pipe(
+              timeout({ first: this.callTimeoutMs }),
+              catchError((error: unknown) =>
+                throwError(() =>
+                  error instanceof TimeoutError
+                    ? new Error(
+                        `Request timeout after ${this.callTimeoutMs}ms for pattern '${pattern}'`,
+                      )
+                    : error,
+                ),
+              ),
+            )
+          : source;
+
+      return bounded.pipe(
+        tap({
+          next: () => settle(),
+          complete: () => settle(),
+          error: (error) => settle(error),
+        }),
+        // Suscripción cancelada antes de la respuesta: no cuenta
+        finalize(() => {
+          if (!settled) {
+            settled = true;
+            this.release(permit);
+          }
+        }),
+      );
+    });
+  }
+
+  /**
+   * Client whose `send` goes through the breaker; everything else is the
+   * underlying NATS client
+   */
+  protect(client: ClientProxy): ClientProxy {
+    return new Proxy(client, {
+      get: (target, property, receiver) => {
+        if (property === 'send') {
+          return (pattern: any, data: any) =>
+            this.wrap(String(pattern), target.send(pattern, data));
+        }
+        const value: unknown = Reflect.get(target, property, receiver);
+        return typeof value === 'function'
+          ? (value as (...args: unknown[]) => unknown).bind(target)
+          : value;
+      },
+    });
+  }
+
+  /** Seconds until the circuit of a pattern closes, or null when it is not open */
+  openFor(
+    pattern: string,
+  ): { circuit: string; retryAfterSeconds: number } | null {
+    if (!this.enabled) return null;
+    const key = this.circuitFor(pattern);
+    const circuit = this.circuits.get(key);
+    const remaining = circuit ? circuit.openedUntil - Date.now() : 0;
+    if (circuit?.state !== 'open' || remaining <= 0) return null;
+    return { circuit: key, retryAfterSeconds: Math.ceil(remaining / 1000) };
+  }
+
+  /**
+   * Opens a circuit on external evidence (the downstream health checks),
+   * or keeps it open for another period while the evidence lasts
+   */
+  forceOpen(key: string, reason: string) {
+    if (!this.enabled) return;
+    const circuit = this.getCircuit(key);
+    if (circuit.state === 'open') {
+      circuit.openedUntil = Math.max(
+        circuit.openedUntil,
+        Date.now() + this.openMs,
+      );
+      return;
+    }
+    this.open(key, circuit, reason);
+  }
+
+  /** Closes a circuit whose service answers again */
+  forceClose(key: string, reason: string) {
+    const circuit = this.circuits.get(key);
+    if (!circuit || circuit.state === 'closed') return;
+    this.transition(key, circuit, 'closed', reason);
+  }
+
+  getStates(): CircuitSnapshot[] {
+    return [...this.circuits.entries()]
+      .map(([key, circuit]) => this.snapshot(key, circuit))
+      .sort((a, b) => a.circuit.localeCompare(b.circuit));
+  }
+
+  getSettings() {
+    return {
+      enabled: this.enabled,
+      failureThreshold: this.failureThreshold,
+      openMs: this.openMs,
+      halfOpenProbes: this.halfOpenProbes,
+      callTimeoutMs: this.callTimeoutMs,
+      aliases: Object.fromEntries(this.aliases),
+    };
+  }
+
+  /** Any open circuit degrades the gateway; half-open ones are recovering */
+  getHealthStatus(): {
+    status: 'healthy' | 'warning' | 'critical';
+    settings: ReturnType<CircuitBreakerService['getSettings']>;
+    circuits: CircuitSnapshot[];
+  } {
+    const circuits = this.getStates();
+    const status = circuits.some((c) => c.state !== 'closed')
+      ? 'warning'
+      : 'healthy';
+    return { status, settings: this.getSettings(), circuits };
+  }
+
+  private acquire(pattern: string): CircuitPermit | null {
+    if (!this.enabled) return null;
+
+    const key = this.circuitFor(pattern);
+    const circuit = this.getCircuit(key);
+    const now = Date.now();
+
+    if (circuit.state === 'open') {
+      if (now < circuit.openedUntil) {
+        circuit.rejected++;
+        throw new CircuitOpenError(
+          key,
+          Math.max(1, Math.ceil((circuit.openedUntil - now) / 1000)),
+        );
+      }
+      this.transition(key, circuit, 'half_open');
+    }
+
+    if (circuit.state === 'half_open') {
+      if (circuit.probesInFlight >= this.halfOpenProbes) {
+        circuit.rejected++;
+        throw new CircuitOpenError(key, 1);
+      }
+      circuit.probesInFlight++;
+      return { key, probe: true };
+    }
+
+    return { key, probe: false };
+  }
+
+  private settle(permit: CircuitPermit, error?: unknown) {
+    const circuit = this.getCircuit(permit.key);
+    if (permit.probe) {
+      circuit.probesInFlight = Math.max(0, circuit.probesInFlight - 1);
+    }
+
+    if (error === undefined || !this.isDownstreamFailure(error)) {
+      circuit.successes++;
+      circuit.consecutiveFailures = 0;
+      if (permit.probe && circuit.state === 'half_open') {
+        this.transition(permit.key, circuit, 'closed', 'probe succeeded');
+      }
+      return;
+    }
+
+    const reason = (error as Error).message || (error as Error).name;
+    circuit.failures++;
+    circuit.consecutiveFailures++;
+    circuit.lastFailure = reason;
+    circuit.lastFailureAt = Date.now();
+
+    if (permit.probe && circuit.state === 'half_open') {
+      this.open(permit.key, circuit, `probe failed: ${reason}`);
+    } else if (
+      circuit.state === 'closed' &&
+      circuit.consecutiveFailures >= this.failureThreshold
+    ) {
+      this.open(
+        permit.key,
+        circuit,
+        `${circuit.consecutiveFailures} consecutive failures, last: ${reason}`,
+      );
+    }
+  }
+
+  private release(permit: CircuitPermit) {
+    if (!permit.probe) return;
+    const circuit = this.getCircuit(permit.key);
+    circuit.probesInFlight = Math.max(0, circuit.probesInFlight - 1);
+  }
+
+  /**
+   * Only transport failures count: timeouts, no responders, connection
+   * errors. Errors answered by the service (RpcException payloads, 4xx)
+   * prove it is alive
+   */
+  isDownstreamFailure(error: unknown): boolean {
+    if (error instanceof CircuitOpenError) return false;
+    if (error instanceof HttpException) return error.getStatus() >= 500;
+    return error instanceof Error;
+  }
+
+  private open(key: string, circuit: Circuit, reason: string) {
+    circuit.openedUntil = Date.now() + this.openMs;
+    this.transition(key, circuit, 'open', reason);
+  }
+
+  private transition(
+    key: string,
+    circuit: Circuit,
+    state: CircuitState,
+    reason?: string,
+    publish = true,
+  ) {
+    if (circuit.state === state) return;
+    circuit.state = state;
+    circuit.lastStateChangeAt = Date.now();
+    if (state === 'closed') {
+      circuit.consecutiveFailures = 0;
+      circuit.probesInFlight = 0;
+    }
+
+    const message = `Circuit '${key}' ${state}${reason ? `: ${reason}` : ''}`;
+    if (state === 'open') this.logger.error(message);
+    else this.logger.log(message);
+
+    if (publish) {
+      void this.publish({
+        circuit: key,
+        state,
+        retryAt:
+          state === 'open'
+            ? new Date(circuit.openedUntil).toISOString()
+            : undefined,
+        reason,
+        instanceId: this.instanceId,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  private async publish(event: CircuitStateEvent) {
+    try {
+      await this.redis.publish(this.channel, JSON.stringify(event));
+    } catch (err: any) {
+      this.logger.debug(
+        `Could not publish circuit state: ${err?.message || err}`,
+      );
+    }
+  }
+
+  /**
+   * Adopts openings and closings of other instances; half-open probing stays
+   * local to each one
+   */
+  private onRemoteEvent(message: string) {
+    let event: CircuitStateEvent;
+    try {
+      event = JSON.parse(message) as CircuitStateEvent;
+    } catch {
+      return;
+    }
+    if (event.instanceId === this.instanceId) return;
+
+    const circuit = this.getCircuit(event.circuit);
+    if (event.state === 'open' && circuit.state === 'closed') {
+      circuit.openedUntil = event.retryAt
+        ? Date.parse(event.retryAt)
+        : Date.now() + this.openMs;
+      this.transition(
+        event.circuit,
+        circuit,
+        'open',
+        `opened by instance ${event.instanceId}`,
+        false,
+      );
+    } else if (event.state === 'closed' && circuit.state !== 'closed') {
+      this.transition(
+        event.circuit,
+        circuit,
+        'closed',
+        `closed by instance ${event.instanceId}`,
+        false,
+      );
+    }
+  }
+
+  private getCircuit(key: string): Circuit {
+    let circuit = this.circuits.get(key);
+    if (!circuit) {
+      circuit = {
+        state: 'closed',
+        consecutiveFailures: 0,
+        openedUntil: 0,
+        probesInFlight: 0,
+        lastStateChangeAt: Date.now(),
+        successes: 0,
+        failures: 0,
+        rejected: 0,
+      };
+      this.circuits.set(key, circuit);
+    }
+    return circuit;
+  }
+
+  private snapshot(key: string, circuit: Circuit): CircuitSnapshot {
+    return {
+      circuit: key,
+      state: circuit.state,
+      consecutiveFailures: circuit.consecutiveFailures,
+      retryAt:
+        circuit.state === 'open'
+          ? new Date(circuit.openedUntil).toISOString()
+          : undefined,
+      lastFailure: circuit.lastFailure,
+      lastFailureAt: circuit.lastFailureAt
+        ? new Date(circuit.lastFailureAt).toISOString()
+        : undefined,
+      lastStateChangeAt: new Date(circuit.lastStateChangeAt).toISOString(),
+      totals: {
+        successes: circuit.successes,
+        failures: circuit.failures,
+        rejected: circuit.rejected,
+      },
+    };
+  }
+}
@@ -0,0 +1,43 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { NatsConnection, connect } from 'nats';
+import { envs } from '../config';
+
+/**
+ * Plain `nats` connection for what ClientProxy does not cover: JetStream and
+ * subscriptions to the events emitted by the microservices. Opened on first
+ * use, so gateways that need neither never connect twice
+ */
+@Injectable()
+export class NatsConnectionService implements OnModuleDestroy {
+  private readonly logger = new Logger(NatsConnectionService.name);
+  private connection: Promise<NatsConnection> | null = null;
+
+  get(): Promise<NatsConnection> {
+    if (!this.connection) {
+      this.connection = connect({
+        servers: envs.natsServers,
+        name: 'gateway-direct',
+      })
+        .then((nc) => {
+          this.logger.log('Direct NATS connection established');
+          return nc;
+        })
+        .catch((error) => {
+          // El siguiente uso vuelve a intentarlo
+          this.connection = null;
+          throw error;
+        });
+    }
+    return this.connection;
+  }
+
+  async onModuleDestroy() {
+    if (!this.connection) return;
+    try {
+      const nc = await this.connection;
+      await nc.drain();
+    } catch {
+      // La conexión nunca llegó a abrirse
+    }
+  }
+}
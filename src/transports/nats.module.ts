@@ -1,10 +1,13 @@
 import { Module } from '@nestjs/common';
-import { ClientsModule, Transport } from '@nestjs/microservices';
-import { NATS_SERVICE, envs } from '../config';
+import { ClientProxy, ClientsModule, Transport } from '@nestjs/microservices';
+import { NATS_SERVICE, NATS_TRANSPORT, envs } from '../config';
+import { RedisModule } from '../common/redis/redis.module';
+import { CircuitBreakerService } from './circuit-breaker.service';
+import { NatsConnectionService } from './nats-connection.service';
 
 const natsClient = ClientsModule.register([
   {
-    name: NATS_SERVICE,
+    name: NATS_TRANSPORT,
     transport: Transport.NATS,
     options: {
       servers: envs.natsServers,
@@ -13,7 +16,23 @@ const natsClient = ClientsModule.register([
 ]);
 
 @Module({
-  imports: [natsClient],
-  exports: [natsClient],
+  imports: [natsClient, RedisModule],
+  providers: [
+    CircuitBreakerService,
+    NatsConnectionService,
+    {
+      // Los servicios síncronos reciben el cliente protegido por el breaker
+      provide: NATS_SERVICE,
+      useFactory: (client: ClientProxy, breaker: CircuitBreakerService) =>
+        breaker.protect(client),
+      inject: [NATS_TRANSPORT, CircuitBreakerService],
+    },
+  ],
+  exports: [
+    natsClient,
+    NATS_SERVICE,
+    CircuitBreakerService,
+    NatsConnectionService,
+  ],
 })
-export class NatsModule {}
\ No newline at end of file
+export class NatsModule {}